@@ -0,0 +1,650 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { getCurrentWeekId, getOrgTimeDate, parseDateInput } from '@/lib/dateUtils';
+import {
+  addMetricDefinition,
+  DEFAULT_METRIC_COLOR,
+  deleteMetricDefinition,
+  getTargetForWeek,
+  METRIC_FREQUENCIES,
+  moveMetricDefinition,
+  subscribeToMetricDefinitions,
+  updateMetricDefinition,
+  type MetricDefinition,
+  type MetricDefinitionInput,
+  type TargetChange
+} from '@/lib/metricDefinitions';
+import {
+  DEFAULT_VALUE_FORMATS,
+  formatMetricValue,
+  getValueFormat,
+  MAX_PRECISION,
+  METRIC_VALUE_TYPE_LABELS,
+  METRIC_VALUE_TYPES
+} from '@/lib/metricValues';
+import { loadOrganizationSettings } from '@/lib/orgSettings';
+import { rebuildReportRollups, refreshRollupsForDateRange } from '@/lib/rollups';
+import type { MetricValueType } from '@/types';
+import { toDateKey } from '@/lib/timeOff';
+
+type TargetChangeForm = {
+  effectiveFrom: string;
+  target: string;
+  targetValue: string;
+};
+
+type MetricForm = Omit<MetricDefinitionInput, 'targetValue' | 'targetChanges' | 'activeFrom' | 'retiredFrom' | 'formula' | 'precision' | 'min' | 'max'> & {
+  targetValue: string;
+  targetChanges: TargetChangeForm[];
+  precision: string;
+  min: string;
+  max: string;
+  activeFrom: string;
+  retiredFrom: string;
+  formula: string;
+};
+
+const EMPTY_FORM: MetricForm = {
+  title: '',
+  target: '',
+  targetValue: '',
+  targetChanges: [],
+  frequency: 'Weekly',
+  trackingMethod: '',
+  valueType: 'count',
+  unit: '',
+  precision: '0',
+  min: '0',
+  max: '',
+  color: DEFAULT_METRIC_COLOR,
+  activeFrom: '',
+  retiredFrom: '',
+  formula: ''
+};
+
+// Empty number inputs mean no limit
+const toNumberText = (value: number | null) => (value === null ? '' : String(value));
+const toOptionalNumber = (text: string) => (text.trim() === '' ? null : Number(text));
+
+const toForm = (definition: MetricDefinition): MetricForm => {
+  // Definitions stored before value types existed get the format they are shown with
+  const format = getValueFormat(definition);
+  return {
+    title: definition.title,
+    target: definition.target,
+    targetValue: String(definition.targetValue),
+    targetChanges: (definition.targetChanges ?? []).map(change => ({ ...change, targetValue: String(change.targetValue) })),
+    frequency: definition.frequency,
+    trackingMethod: definition.trackingMethod,
+    valueType: format.valueType,
+    unit: format.unit,
+    precision: String(format.precision),
+    min: toNumberText(format.min),
+    max: toNumberText(format.max),
+    color: definition.color,
+    activeFrom: definition.activeFrom ?? '',
+    retiredFrom: definition.retiredFrom ?? '',
+    formula: definition.formula ?? ''
+  };
+};
+
+const toTargetValue = (text: string) => (text.trim() === '' ? Number.NaN : Number(text));
+
+const toInput = (form: MetricForm): MetricDefinitionInput => ({
+  ...form,
+  targetValue: toTargetValue(form.targetValue),
+  targetChanges: form.targetChanges.map(change => ({ ...change, targetValue: toTargetValue(change.targetValue) })),
+  precision: form.precision.trim() === '' ? Number.NaN : Number(form.precision),
+  min: toOptionalNumber(form.min),
+  max: toOptionalNumber(form.max),
+  activeFrom: form.activeFrom || null,
+  retiredFrom: form.retiredFrom || null,
+  formula: form.formula.trim() || null
+});
+
+const formatDateKey = (value: string) => parseDateInput(value)?.toLocaleDateString() ?? value;
+
+// Analytics measure past weeks against the targets in force then, so rollups from the first changed date on are recomputed
+const refreshRollupsForTargets = async (before: MetricDefinition, after: MetricDefinitionInput, today: string) => {
+  const key = (change: TargetChange) => `${change.effectiveFrom}|${change.target}|${change.targetValue}`;
+  const beforeKeys = (before.targetChanges ?? []).map(key);
+  const afterKeys = after.targetChanges.map(key);
+  try {
+    if (before.targetValue !== after.targetValue) {
+      // The original target applies to every week before the first change
+      await rebuildReportRollups();
+      return;
+    }
+    const changedFrom = [
+      ...(before.targetChanges ?? []).filter(change => !afterKeys.includes(key(change))),
+      ...after.targetChanges.filter(change => !beforeKeys.includes(key(change)))
+    ].map(change => change.effectiveFrom).sort()[0];
+    const from = changedFrom ? parseDateInput(changedFrom) : null;
+    if (from && changedFrom <= today) {
+      await refreshRollupsForDateRange(from, getOrgTimeDate());
+    }
+  } catch (error) {
+    console.error('Error updating report rollups:', error);
+  }
+};
+
+const formatTarget = (definition: MetricDefinition, target: { target: string; targetValue: number }) => {
+  return `${target.target} (${formatMetricValue(target.targetValue, getValueFormat(definition))})`;
+};
+
+export default function MetricDefinitionsPage() {
+  const [definitions, setDefinitions] = useState<MetricDefinition[]>([]);
+  const [form, setForm] = useState<MetricForm>(EMPTY_FORM);
+  // The metric being edited, null when adding one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [today, setToday] = useState('');
+  const [currentWeekId, setCurrentWeekId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    // Retirement dates are days in the reporting time zone
+    loadOrganizationSettings()
+      .then(() => {
+        setToday(toDateKey(getOrgTimeDate()));
+        setCurrentWeekId(getCurrentWeekId());
+      })
+      .catch(err => console.error('Error loading organization settings:', err));
+
+    return subscribeToMetricDefinitions(
+      next => {
+        setDefinitions(next);
+        setLoading(false);
+      },
+      err => {
+        console.error('Error loading metric definitions:', err);
+        setError('Failed to load the metrics.');
+        setLoading(false);
+      }
+    );
+  }, []);
+
+  const isRetired = (definition: MetricDefinition) => !!definition.retiredFrom && !!today && definition.retiredFrom <= today;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setError('');
+      if (editingId) {
+        const before = definitions.find(definition => definition.id === editingId);
+        const input = toInput(form);
+        await updateMetricDefinition(editingId, input);
+        if (before) {
+          await refreshRollupsForTargets(before, input, today);
+        }
+      } else {
+        await addMetricDefinition(toInput(form));
+      }
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    } catch (err) {
+      console.error('Error saving metric:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the metric.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (definition: MetricDefinition) => {
+    setEditingId(definition.id);
+    setForm(toForm(definition));
+    setError('');
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setError('');
+  };
+
+  // Run a list action, reporting failures in the error box
+  const runAction = async (definition: MetricDefinition, action: () => Promise<void>, failure: string) => {
+    try {
+      setBusyId(definition.id);
+      setError('');
+      await action();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(err instanceof Error ? err.message : `${failure}.`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetire = (definition: MetricDefinition) => runAction(
+    definition,
+    () => updateMetricDefinition(definition.id, {
+      ...toInput(toForm(definition)),
+      retiredFrom: isRetired(definition) ? null : today
+    }),
+    'Failed to update the metric'
+  );
+
+  const handleDelete = (definition: MetricDefinition) => {
+    if (!window.confirm(`Delete ${definition.title}? Reports that have it keep their values. Retire it instead to keep it in analytics.`)) {
+      return;
+    }
+    runAction(definition, () => deleteMetricDefinition(definition.id), 'Failed to delete the metric');
+  };
+
+  // A new type starts from that type's unit, decimal places and range
+  const handleValueTypeChange = (valueType: MetricValueType) => {
+    const format = DEFAULT_VALUE_FORMATS[valueType];
+    setForm({
+      ...form,
+      valueType,
+      unit: format.unit,
+      precision: String(format.precision),
+      min: toNumberText(format.min),
+      max: toNumberText(format.max)
+    });
+  };
+
+  const updateTargetChange = (index: number, change: Partial<TargetChangeForm>) => {
+    setForm({
+      ...form,
+      targetChanges: form.targetChanges.map((existing, position) => (position === index ? { ...existing, ...change } : existing))
+    });
+  };
+
+  // A new change starts from the latest target
+  const handleAddTargetChange = () => {
+    const latest = form.targetChanges[form.targetChanges.length - 1] ?? form;
+    setForm({
+      ...form,
+      targetChanges: [...form.targetChanges, { effectiveFrom: today, target: latest.target, targetValue: latest.targetValue }]
+    });
+  };
+
+  const handleRemoveTargetChange = (index: number) => {
+    setForm({ ...form, targetChanges: form.targetChanges.filter((_, position) => position !== index) });
+  };
+
+  const inputClassName = 'px-3 py-2 border border-[#333333] rounded-md bg-[#232323] text-white focus:outline-none focus:ring-1 focus:ring-[#c0ff54]';
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#111111] text-white">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-4xl mx-auto px-4 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-[#c0ff54]">METRICS</h1>
+              <p className="text-gray-400 mt-2">
+                The metrics on new weekly reports and in analytics, in the order shown.
+              </p>
+            </div>
+            <Link href="/" className="text-[#c0ff54] hover:text-[#9adf21]">
+              Return to Dashboard
+            </Link>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+              {error}
+            </div>
+          )}
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">{editingId ? 'EDIT METRIC' : 'ADD METRIC'}</h2>
+            <form onSubmit={handleSave} className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="flex flex-col gap-1">
+                <label htmlFor="title" className="text-gray-300">Title</label>
+                <input
+                  id="title"
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="frequency" className="text-gray-300">Frequency</label>
+                <select
+                  id="frequency"
+                  value={form.frequency}
+                  onChange={(e) => setForm({ ...form, frequency: e.target.value })}
+                  className={inputClassName}
+                >
+                  {METRIC_FREQUENCIES.map(frequency => (
+                    <option key={frequency} value={frequency}>{frequency}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="target" className="text-gray-300">Target, as shown to reps (end with % for a rate)</label>
+                <input
+                  id="target"
+                  type="text"
+                  value={form.target}
+                  onChange={(e) => setForm({ ...form, target: e.target.value })}
+                  placeholder="10 per week"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="targetValue" className="text-gray-300">Target value</label>
+                <input
+                  id="targetValue"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={form.targetValue}
+                  onChange={(e) => setForm({ ...form, targetValue: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col gap-2 sm:col-span-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-300">Target changes</span>
+                  <button
+                    type="button"
+                    onClick={handleAddTargetChange}
+                    className="px-3 py-1 bg-[#333333] text-white rounded-md hover:bg-[#444444] text-xs font-medium"
+                  >
+                    ADD TARGET CHANGE
+                  </button>
+                </div>
+                {form.targetChanges.length === 0 ? (
+                  <p className="text-gray-500 text-xs">
+                    The target above applies to every week. To change it from a date on, for example next quarter, add a target change so earlier weeks keep being measured against the old target.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-gray-500 text-xs">
+                      The target above applies until the first change. A change applies from the week containing its date.
+                    </p>
+                    {form.targetChanges.map((change, index) => (
+                      <div key={index} className="grid grid-cols-1 sm:grid-cols-[10rem_1fr_8rem_auto] gap-2 items-center">
+                        <input
+                          type="date"
+                          value={change.effectiveFrom}
+                          onChange={(e) => updateTargetChange(index, { effectiveFrom: e.target.value })}
+                          className={inputClassName}
+                          aria-label={`Target change ${index + 1} effective from`}
+                        />
+                        <input
+                          type="text"
+                          value={change.target}
+                          onChange={(e) => updateTargetChange(index, { target: e.target.value })}
+                          placeholder="15 per week"
+                          className={inputClassName}
+                          aria-label={`Target change ${index + 1} target`}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={change.targetValue}
+                          onChange={(e) => updateTargetChange(index, { targetValue: e.target.value })}
+                          className={inputClassName}
+                          aria-label={`Target change ${index + 1} target value`}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveTargetChange(index)}
+                          className="px-3 py-2 bg-red-800 text-white rounded-md hover:bg-red-700 text-xs font-medium"
+                        >
+                          REMOVE
+                        </button>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </div>
+              <div className="flex flex-col gap-1 sm:col-span-2">
+                <label htmlFor="trackingMethod" className="text-gray-300">Tracking method</label>
+                <input
+                  id="trackingMethod"
+                  type="text"
+                  value={form.trackingMethod}
+                  onChange={(e) => setForm({ ...form, trackingMethod: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="valueType" className="text-gray-300">Value type</label>
+                <select
+                  id="valueType"
+                  value={form.valueType}
+                  onChange={(e) => handleValueTypeChange(e.target.value as MetricValueType)}
+                  className={inputClassName}
+                >
+                  {METRIC_VALUE_TYPES.map(valueType => (
+                    <option key={valueType} value={valueType}>{METRIC_VALUE_TYPE_LABELS[valueType]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="unit" className="text-gray-300">
+                  {form.valueType === 'currency' ? 'Currency code' : 'Unit (optional)'}
+                </label>
+                <input
+                  id="unit"
+                  type="text"
+                  value={form.unit}
+                  onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                  placeholder={form.valueType === 'currency' ? 'USD' : 'acres'}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="precision" className="text-gray-300">Decimal places</label>
+                <input
+                  id="precision"
+                  type="number"
+                  min="0"
+                  max={MAX_PRECISION}
+                  step="1"
+                  value={form.precision}
+                  onChange={(e) => setForm({ ...form, precision: e.target.value })}
+                  disabled={form.valueType === 'count'}
+                  className={`${inputClassName} disabled:opacity-50`}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="min" className="text-gray-300">Minimum</label>
+                  <input
+                    id="min"
+                    type="number"
+                    step="any"
+                    value={form.min}
+                    onChange={(e) => setForm({ ...form, min: e.target.value })}
+                    placeholder="None"
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="max" className="text-gray-300">Maximum</label>
+                  <input
+                    id="max"
+                    type="number"
+                    step="any"
+                    value={form.max}
+                    onChange={(e) => setForm({ ...form, max: e.target.value })}
+                    placeholder="None"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-col gap-1 sm:col-span-2">
+                <label htmlFor="formula" className="text-gray-300">Formula (empty for a metric reps fill in)</label>
+                <input
+                  id="formula"
+                  type="text"
+                  value={form.formula}
+                  onChange={(e) => setForm({ ...form, formula: e.target.value })}
+                  placeholder="{Contracts Signed} / {Quotations Sent} * 100"
+                  className={`${inputClassName} font-mono`}
+                />
+                <p className="text-gray-500 text-xs">
+                  Reference other metrics by title in braces; numbers, + - * / and parentheses are allowed.
+                  The value is computed when a report is saved and cannot be edited by reps.
+                </p>
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="activeFrom" className="text-gray-300">Active from (empty for always)</label>
+                <input
+                  id="activeFrom"
+                  type="date"
+                  value={form.activeFrom}
+                  onChange={(e) => setForm({ ...form, activeFrom: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="retiredFrom" className="text-gray-300">Retired from (empty while in use)</label>
+                <input
+                  id="retiredFrom"
+                  type="date"
+                  value={form.retiredFrom}
+                  onChange={(e) => setForm({ ...form, retiredFrom: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="color" className="text-gray-300">Chart color</label>
+                <input
+                  id="color"
+                  type="color"
+                  value={form.color}
+                  onChange={(e) => setForm({ ...form, color: e.target.value })}
+                  className="h-10 w-20 border border-[#333333] rounded-md bg-[#232323]"
+                />
+              </div>
+              <div className="flex gap-2 items-end">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium disabled:opacity-50"
+                >
+                  {isSaving ? 'SAVING...' : editingId ? 'SAVE METRIC' : 'ADD METRIC'}
+                </button>
+                {editingId && (
+                  <button
+                    type="button"
+                    onClick={handleCancelEdit}
+                    className="px-4 py-2 bg-[#333333] text-gray-300 rounded-md hover:bg-[#444444]"
+                  >
+                    CANCEL
+                  </button>
+                )}
+              </div>
+            </form>
+            {editingId && (
+              <p className="text-gray-500 text-xs mt-4">
+                Changes apply to reports created from now on. Reports and analytics match metrics by title, so a renamed metric starts a new series.
+                Analytics measure every week against the target in force that week, including weeks already reported.
+              </p>
+            )}
+          </section>
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">REGISTRY</h2>
+            {loading ? (
+              <p className="text-gray-400">Loading metrics...</p>
+            ) : (
+              <ul className="space-y-3">
+                {definitions.map((definition, index) => (
+                  <li
+                    key={definition.id}
+                    className={`flex flex-col sm:flex-row justify-between sm:items-center gap-3 bg-[#232323] rounded-md p-4 border border-[#333333] ${isRetired(definition) ? 'opacity-60' : ''}`}
+                  >
+                    <div className="flex items-start gap-3">
+                      <span
+                        className="mt-1 h-3 w-3 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: definition.color }}
+                      />
+                      <div>
+                        <div className="text-gray-200 font-medium">{definition.title}</div>
+                        <div className="text-sm text-gray-500">
+                          {definition.frequency} - {formatTarget(definition, currentWeekId ? getTargetForWeek(definition, currentWeekId) : definition)}
+                          {` - ${METRIC_VALUE_TYPE_LABELS[getValueFormat(definition).valueType].toLowerCase()}`}
+                          {definition.activeFrom && ` - active from ${formatDateKey(definition.activeFrom)}`}
+                          {definition.retiredFrom && ` - retired from ${formatDateKey(definition.retiredFrom)}`}
+                        </div>
+                        {(definition.targetChanges ?? []).length > 0 && (
+                          <div className="text-xs text-gray-400 mt-1">
+                            Targets: {formatTarget(definition, definition)} until{' '}
+                            {definition.targetChanges.map(change => `${formatDateKey(change.effectiveFrom)}, then ${formatTarget(definition, change)}`).join(' until ')}
+                          </div>
+                        )}
+                        {definition.formula && (
+                          <div className="text-xs text-gray-400 font-mono mt-1">= {definition.formula}</div>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => runAction(definition, () => moveMetricDefinition(definition.id, -1), 'Failed to move the metric')}
+                        disabled={busyId !== null || index === 0}
+                        className="px-2 py-1.5 bg-[#333333] text-white rounded-md hover:bg-[#444444] disabled:opacity-30"
+                        aria-label={`Move ${definition.title} up`}
+                      >
+                        &uarr;
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => runAction(definition, () => moveMetricDefinition(definition.id, 1), 'Failed to move the metric')}
+                        disabled={busyId !== null || index === definitions.length - 1}
+                        className="px-2 py-1.5 bg-[#333333] text-white rounded-md hover:bg-[#444444] disabled:opacity-30"
+                        aria-label={`Move ${definition.title} down`}
+                      >
+                        &darr;
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(definition)}
+                        disabled={busyId !== null}
+                        className="px-3 py-1.5 bg-[#333333] text-white rounded-md hover:bg-[#444444] font-medium disabled:opacity-50"
+                      >
+                        EDIT
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRetire(definition)}
+                        disabled={busyId !== null || !today}
+                        className="px-3 py-1.5 bg-yellow-900 text-yellow-200 rounded-md hover:bg-yellow-800 font-medium disabled:opacity-50"
+                      >
+                        {isRetired(definition) ? 'REACTIVATE' : 'RETIRE'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(definition)}
+                        disabled={busyId !== null}
+                        className="px-3 py-1.5 bg-red-800 text-white rounded-md hover:bg-red-700 font-medium disabled:opacity-50"
+                      >
+                        DELETE
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </main>
+
+      <footer className="bg-black py-6 border-t border-[#333333]">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-500 text-sm">
+          <p>&copy; {new Date().getFullYear()} TERRASYNC. ALL RIGHTS RESERVED.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Header } from '@/components/Header';
+import { getMigrationRuns, runReportMigrations, REPORT_MIGRATIONS, type MigrationRun } from '@/lib/migrations';
+import { REPORT_SCHEMA_VERSION } from '@/lib/reportSchema';
+import { rebuildReportRollups } from '@/lib/rollups';
+import { upgradeMetricRegistry } from '@/lib/metricDefinitions';
+
+export default function MigrationsPage() {
+  const [runs, setRuns] = useState<MigrationRun[]>([]);
+  const [currentRun, setCurrentRun] = useState<MigrationRun | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const [rollupMessage, setRollupMessage] = useState('');
+  const [isUpgrading, setIsUpgrading] = useState(false);
+  const [registryMessage, setRegistryMessage] = useState('');
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      setRuns(await getMigrationRuns());
+    } catch (err) {
+      console.error('Error fetching migration runs:', err);
+      setError('Failed to load the migration run log.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm('Apply all pending migrations to the stored reports?')) {
+      return;
+    }
+
+    try {
+      setIsRunning(true);
+      setError('');
+      const run = await runReportMigrations({ dryRun, onProgress: setCurrentRun });
+      setCurrentRun(run);
+      if (run.status === 'failed') {
+        setError(`Migration run failed: ${run.error}`);
+      }
+      await fetchRuns();
+    } catch (err) {
+      console.error('Error running migrations:', err);
+      setError('Failed to run migrations. Please try again.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleUpgradeRegistry = async () => {
+    try {
+      setIsUpgrading(true);
+      setRegistryMessage('');
+      const changes = await upgradeMetricRegistry();
+      setRegistryMessage(changes.length > 0 ? `${changes.join('. ')}.` : 'The metric registry is up to date.');
+    } catch (err) {
+      console.error('Error upgrading the metric registry:', err);
+      setRegistryMessage('Failed to upgrade the metric registry. Please try again.');
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
+  const handleRebuildRollups = async () => {
+    try {
+      setIsRebuilding(true);
+      setRollupMessage('');
+      const count = await rebuildReportRollups();
+      setRollupMessage(`Rebuilt ${count} rollup document(s).`);
+    } catch (err) {
+      console.error('Error rebuilding rollups:', err);
+      setRollupMessage('Failed to rebuild rollups. Please try again.');
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#111111] text-white">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-[#c0ff54]">REPORT MIGRATIONS</h1>
+              <p className="text-gray-400 mt-2">
+                Current schema version: <span className="text-white font-medium">{REPORT_SCHEMA_VERSION}</span>
+              </p>
+            </div>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => handleRun(true)}
+                disabled={isRunning}
+                className="px-4 py-2 bg-[#333333] text-white rounded-md hover:bg-[#444444] text-sm font-medium disabled:opacity-50"
+              >
+                DRY RUN
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRun(false)}
+                disabled={isRunning}
+                className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] text-sm font-medium disabled:opacity-50"
+              >
+                {isRunning ? 'RUNNING...' : 'RUN MIGRATIONS'}
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+              {error}
+            </div>
+          )}
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">MIGRATIONS</h2>
+            <ul className="space-y-2">
+              {REPORT_MIGRATIONS.map(migration => (
+                <li key={migration.version} className="text-sm">
+                  <span className="text-white font-medium">v{migration.version} {migration.name}</span>
+                  <span className="text-gray-400"> - {migration.description}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+              <div>
+                <h2 className="text-lg font-medium text-[#c0ff54] mb-1">METRIC REGISTRY</h2>
+                <p className="text-sm text-gray-400">
+                  Adds Contracts Signed and derives Quotation Closing Rate from it in registries set up before formulas existed. Metrics the registry already has are left as they are.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleUpgradeRegistry}
+                disabled={isUpgrading}
+                className="px-4 py-2 bg-[#333333] text-white rounded-md hover:bg-[#444444] text-sm font-medium disabled:opacity-50 whitespace-nowrap"
+              >
+                {isUpgrading ? 'UPGRADING...' : 'UPGRADE REGISTRY'}
+              </button>
+            </div>
+            {registryMessage && <p className="text-sm text-gray-300 mt-3">{registryMessage}</p>}
+          </section>
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+              <div>
+                <h2 className="text-lg font-medium text-[#c0ff54] mb-1">ANALYTICS ROLLUPS</h2>
+                <p className="text-sm text-gray-400">
+                  Weekly and monthly totals are kept up to date on every report change. Rebuild them after migrating or importing reports.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleRebuildRollups}
+                disabled={isRebuilding}
+                className="px-4 py-2 bg-[#333333] text-white rounded-md hover:bg-[#444444] text-sm font-medium disabled:opacity-50 whitespace-nowrap"
+              >
+                {isRebuilding ? 'REBUILDING...' : 'REBUILD ROLLUPS'}
+              </button>
+            </div>
+            {rollupMessage && <p className="text-sm text-gray-300 mt-3">{rollupMessage}</p>}
+          </section>
+
+          {currentRun && (
+            <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+              <h2 className="text-lg font-medium text-[#c0ff54] mb-4">
+                {currentRun.dryRun ? 'DRY RUN OUTPUT' : 'RUN OUTPUT'}
+              </h2>
+              <MigrationRunSummary run={currentRun} />
+
+              {currentRun.changes.length > 0 ? (
+                <div className="mt-4 overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-gray-400 border-b border-[#333333]">
+                      <tr>
+                        <th className="py-2 pr-4 font-medium">Report</th>
+                        <th className="py-2 pr-4 font-medium">Version</th>
+                        <th className="py-2 pr-4 font-medium">Changed fields</th>
+                        <th className="py-2 font-medium">Remaining issues</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {currentRun.changes.map(change => (
+                        <tr key={change.id} className="border-b border-[#232323] align-top">
+                          <td className="py-2 pr-4 font-mono text-xs text-gray-300">{change.id}</td>
+                          <td className="py-2 pr-4 text-gray-300">{change.fromVersion} → {change.toVersion}</td>
+                          <td className="py-2 pr-4 text-gray-300">{change.changedFields.join(', ') || '-'}</td>
+                          <td className="py-2 text-yellow-300">{change.issues.join('; ') || '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-gray-400 mt-4">All reports are already at the current schema version.</p>
+              )}
+            </section>
+          )}
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">RUN LOG</h2>
+            {runs.length === 0 ? (
+              <p className="text-gray-400">No migration runs yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {runs.map(run => (
+                  <li key={run.id} className="bg-[#232323] rounded-md p-3 border border-[#333333]">
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-300">
+                        {run.startedAt.toLocaleString()} {run.dryRun && <span className="text-gray-500">(dry run)</span>}
+                      </span>
+                      <span className={run.status === 'failed' ? 'text-red-400' : 'text-[#c0ff54]'}>
+                        {run.status.toUpperCase()}
+                      </span>
+                    </div>
+                    <MigrationRunSummary run={run} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </main>
+
+      <footer className="bg-black py-6 border-t border-[#333333]">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-500 text-sm">
+          <p>&copy; {new Date().getFullYear()} TERRASYNC. ALL RIGHTS RESERVED.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
+
+const MigrationRunSummary = ({ run }: { run: MigrationRun }) => (
+  <div className="text-sm text-gray-400">
+    Target v{run.targetVersion}: scanned {run.scanned}, {run.dryRun ? 'would migrate' : 'migrated'} {run.migrated},
+    up to date {run.upToDate}, still invalid {run.invalid}
+  </div>
+);
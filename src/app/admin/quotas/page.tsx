@@ -0,0 +1,405 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { getOrgTimeDate, parseDateInput } from '@/lib/dateUtils';
+import { subscribeToMetricDefinitions, type MetricDefinition } from '@/lib/metricDefinitions';
+import { formatMetricValue, getValueFormat } from '@/lib/metricValues';
+import { loadOrganizationSettings } from '@/lib/orgSettings';
+import {
+  deleteQuota,
+  QUOTA_SCOPE_LABELS,
+  QUOTA_SCOPES,
+  setQuota,
+  setRepAssignment,
+  subscribeToQuotas,
+  subscribeToRepAssignments,
+  type Quota,
+  type QuotaInput,
+  type QuotaScope,
+  type RepAssignment
+} from '@/lib/quotas';
+import { rebuildReportRollups, refreshRollupsForDateRange } from '@/lib/rollups';
+import { toDateKey } from '@/lib/timeOff';
+
+type QuotaForm = {
+  metricTitle: string;
+  scope: QuotaScope;
+  scopeId: string;
+  targetValue: string;
+  effectiveFrom: string;
+};
+
+const EMPTY_QUOTA_FORM: QuotaForm = { metricTitle: '', scope: 'user', scopeId: '', targetValue: '', effectiveFrom: '' };
+
+const EMPTY_ASSIGNMENT_FORM = { userId: '', team: '', territory: '' };
+
+const toInput = (form: QuotaForm): QuotaInput => ({
+  metricTitle: form.metricTitle,
+  scope: form.scope,
+  scopeId: form.scopeId,
+  targetValue: form.targetValue.trim() === '' ? Number.NaN : Number(form.targetValue),
+  effectiveFrom: form.effectiveFrom || null
+});
+
+// Analytics measure reps against the quotas in force, so rollups from the quota's start on are recomputed
+const refreshRollupsForQuota = async (quota: Pick<Quota, 'effectiveFrom'>, today: string) => {
+  try {
+    if (quota.effectiveFrom === null) {
+      await rebuildReportRollups();
+      return;
+    }
+    const from = parseDateInput(quota.effectiveFrom);
+    if (from && quota.effectiveFrom <= today) {
+      await refreshRollupsForDateRange(from, getOrgTimeDate());
+    }
+  } catch (error) {
+    console.error('Error updating report rollups:', error);
+  }
+};
+
+// Moving a rep to another team or territory can change their quota in every week
+const refreshRollupsForAssignment = async () => {
+  try {
+    await rebuildReportRollups();
+  } catch (error) {
+    console.error('Error updating report rollups:', error);
+  }
+};
+
+export default function QuotasPage() {
+  const [quotas, setQuotas] = useState<Quota[]>([]);
+  const [assignments, setAssignments] = useState<RepAssignment[]>([]);
+  const [definitions, setDefinitions] = useState<MetricDefinition[]>([]);
+  const [form, setForm] = useState<QuotaForm>(EMPTY_QUOTA_FORM);
+  const [assignmentForm, setAssignmentForm] = useState(EMPTY_ASSIGNMENT_FORM);
+  const [today, setToday] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    // Start dates are days in the reporting time zone
+    loadOrganizationSettings()
+      .then(() => setToday(toDateKey(getOrgTimeDate())))
+      .catch(err => console.error('Error loading organization settings:', err));
+
+    const handleError = (err: Error) => {
+      console.error('Error loading quotas:', err);
+      setError('Failed to load the quotas.');
+      setLoading(false);
+    };
+    const unsubscribes = [
+      subscribeToQuotas(next => {
+        setQuotas(next);
+        setLoading(false);
+      }, handleError),
+      subscribeToRepAssignments(setAssignments, handleError),
+      subscribeToMetricDefinitions(setDefinitions, handleError)
+    ];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  // Names already in use for the chosen scope, offered as suggestions
+  const scopeSuggestions = Array.from(new Set(assignments.map(assignment => (
+    form.scope === 'user' ? assignment.userId : form.scope === 'team' ? assignment.team : assignment.territory
+  )).filter(Boolean))).sort();
+
+  const formatQuota = (quota: Quota) => {
+    const definition = definitions.find(candidate => candidate.title === quota.metricTitle);
+    return definition ? formatMetricValue(quota.targetValue, getValueFormat(definition)) : String(quota.targetValue);
+  };
+
+  const handleSaveQuota = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setError('');
+      const saved = await setQuota(toInput(form));
+      await refreshRollupsForQuota(saved, today);
+      setForm({ ...EMPTY_QUOTA_FORM, metricTitle: form.metricTitle, scope: form.scope });
+    } catch (err) {
+      console.error('Error saving quota:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the quota.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveQuota = async (quota: Quota) => {
+    try {
+      setBusyId(quota.id);
+      await deleteQuota(quota.id);
+      await refreshRollupsForQuota(quota, today);
+    } catch (err) {
+      console.error('Error removing quota:', err);
+      alert('Failed to remove the quota. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSaveAssignment = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setError('');
+      await setRepAssignment(assignmentForm.userId, assignmentForm.team, assignmentForm.territory);
+      await refreshRollupsForAssignment();
+      setAssignmentForm(EMPTY_ASSIGNMENT_FORM);
+    } catch (err) {
+      console.error('Error saving assignment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the assignment.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveAssignment = async (assignment: RepAssignment) => {
+    try {
+      setBusyId(assignment.id);
+      await setRepAssignment(assignment.userId, '', '');
+      await refreshRollupsForAssignment();
+    } catch (err) {
+      console.error('Error removing assignment:', err);
+      alert('Failed to remove the assignment. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const inputClassName = 'px-3 py-2 border border-[#333333] rounded-md bg-[#232323] text-white focus:outline-none focus:ring-1 focus:ring-[#c0ff54]';
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#111111] text-white">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-4xl mx-auto px-4 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-[#c0ff54]">QUOTAS</h1>
+              <p className="text-gray-400 mt-2">
+                A rep is measured against their own quota, otherwise their team&apos;s, otherwise their territory&apos;s, otherwise the metric&apos;s target.
+              </p>
+            </div>
+            <Link href="/" className="text-[#c0ff54] hover:text-[#9adf21]">
+              Return to Dashboard
+            </Link>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+              {error}
+            </div>
+          )}
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">SET QUOTA</h2>
+            <form onSubmit={handleSaveQuota} className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="flex flex-col gap-1">
+                <label htmlFor="metricTitle" className="text-gray-300">Metric</label>
+                <select
+                  id="metricTitle"
+                  value={form.metricTitle}
+                  onChange={(e) => setForm({ ...form, metricTitle: e.target.value })}
+                  className={inputClassName}
+                >
+                  <option value="">Choose a metric</option>
+                  {definitions.map(definition => (
+                    <option key={definition.id} value={definition.title}>{definition.title}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="scope" className="text-gray-300">Applies to</label>
+                <select
+                  id="scope"
+                  value={form.scope}
+                  onChange={(e) => setForm({ ...form, scope: e.target.value as QuotaScope })}
+                  className={inputClassName}
+                >
+                  {QUOTA_SCOPES.map(option => (
+                    <option key={option} value={option}>{QUOTA_SCOPE_LABELS[option]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="scopeId" className="text-gray-300">
+                  {form.scope === 'user' ? 'Name, as entered on the dashboard' : `${QUOTA_SCOPE_LABELS[form.scope]} name`}
+                </label>
+                <input
+                  id="scopeId"
+                  type="text"
+                  list="scopeSuggestions"
+                  value={form.scopeId}
+                  onChange={(e) => setForm({ ...form, scopeId: e.target.value })}
+                  className={inputClassName}
+                />
+                <datalist id="scopeSuggestions">
+                  {scopeSuggestions.map(name => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="targetValue" className="text-gray-300">Quota, per week or month as the metric is reported</label>
+                <input
+                  id="targetValue"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={form.targetValue}
+                  onChange={(e) => setForm({ ...form, targetValue: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="effectiveFrom" className="text-gray-300">Effective from (leave empty for every week)</label>
+                <input
+                  id="effectiveFrom"
+                  type="date"
+                  value={form.effectiveFrom}
+                  onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium disabled:opacity-50 self-end justify-self-start"
+              >
+                {isSaving ? 'SAVING...' : 'SET QUOTA'}
+              </button>
+            </form>
+          </section>
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">QUOTAS</h2>
+            {loading ? (
+              <p className="text-gray-400">Loading quotas...</p>
+            ) : quotas.length === 0 ? (
+              <p className="text-gray-400">No quotas set. Everyone is measured against the metric targets.</p>
+            ) : (
+              <ul className="space-y-3">
+                {quotas.map(quota => (
+                  <li
+                    key={quota.id}
+                    className="flex justify-between items-center gap-3 bg-[#232323] rounded-md p-4 border border-[#333333]"
+                  >
+                    <div>
+                      <div className="text-gray-200 font-medium">
+                        {quota.metricTitle}: {formatQuota(quota)}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {QUOTA_SCOPE_LABELS[quota.scope]} {quota.scopeId}
+                        {' · '}
+                        {quota.effectiveFrom
+                          ? `from ${parseDateInput(quota.effectiveFrom)?.toLocaleDateString() ?? quota.effectiveFrom}`
+                          : 'every week'}
+                        {!definitions.some(definition => definition.title === quota.metricTitle) && (
+                          <span className="text-[#ffbe54]"> · metric no longer in the registry</span>
+                        )}
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveQuota(quota)}
+                      disabled={busyId === quota.id}
+                      className="px-3 py-1.5 bg-red-800 text-white rounded-md hover:bg-red-700 text-sm font-medium disabled:opacity-50"
+                    >
+                      REMOVE
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">TEAMS AND TERRITORIES</h2>
+            <form onSubmit={handleSaveAssignment} className="flex flex-col sm:flex-row gap-4 text-sm mb-6">
+              <div className="flex flex-col gap-1 flex-grow">
+                <label htmlFor="assignmentUserId" className="text-gray-300">Name, as entered on the dashboard</label>
+                <input
+                  id="assignmentUserId"
+                  type="text"
+                  value={assignmentForm.userId}
+                  onChange={(e) => setAssignmentForm({ ...assignmentForm, userId: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="team" className="text-gray-300">Team</label>
+                <input
+                  id="team"
+                  type="text"
+                  value={assignmentForm.team}
+                  onChange={(e) => setAssignmentForm({ ...assignmentForm, team: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label htmlFor="territory" className="text-gray-300">Territory</label>
+                <input
+                  id="territory"
+                  type="text"
+                  value={assignmentForm.territory}
+                  onChange={(e) => setAssignmentForm({ ...assignmentForm, territory: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium disabled:opacity-50 self-start sm:self-end"
+              >
+                {isSaving ? 'SAVING...' : 'ASSIGN'}
+              </button>
+            </form>
+            {assignments.length === 0 ? (
+              <p className="text-gray-400">No reps assigned to a team or territory.</p>
+            ) : (
+              <ul className="space-y-3">
+                {assignments.map(assignment => (
+                  <li
+                    key={assignment.id}
+                    className="flex justify-between items-center gap-3 bg-[#232323] rounded-md p-4 border border-[#333333]"
+                  >
+                    <div>
+                      <div className="text-gray-200 font-medium">{assignment.userId}</div>
+                      <div className="text-sm text-gray-500">
+                        {[
+                          assignment.team && `Team ${assignment.team}`,
+                          assignment.territory && `Territory ${assignment.territory}`
+                        ].filter(Boolean).join(' · ')}
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveAssignment(assignment)}
+                      disabled={busyId === assignment.id}
+                      className="px-3 py-1.5 bg-red-800 text-white rounded-md hover:bg-red-700 text-sm font-medium disabled:opacity-50"
+                    >
+                      REMOVE
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </main>
+
+      <footer className="bg-black py-6 border-t border-[#333333]">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-500 text-sm">
+          <p>&copy; {new Date().getFullYear()} TERRASYNC. ALL RIGHTS RESERVED.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { getCurrentAuthor } from '@/lib/currentUser';
+import {
+  getRoleAssignmentError,
+  setUserRole,
+  subscribeToUserRoles,
+  USER_ROLE_LABELS,
+  USER_ROLES,
+  type UserRoleEntry
+} from '@/lib/roles';
+import type { UserRole } from '@/types';
+
+export default function UserRolesPage() {
+  const [entries, setEntries] = useState<UserRoleEntry[]>([]);
+  const [userId, setUserId] = useState('');
+  const [role, setRole] = useState<UserRole>('manager');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [currentUser, setCurrentUser] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCurrentUser(getCurrentAuthor());
+  }, []);
+
+  // Why roles cannot be changed from here, if they cannot
+  const assignmentError = useMemo(() => {
+    if (currentUser === null) return null;
+    const role = entries.find(entry => entry.userId === currentUser)?.role ?? 'rep';
+    return getRoleAssignmentError({ userId: currentUser, role }, entries);
+  }, [currentUser, entries]);
+
+  useEffect(() => {
+    return subscribeToUserRoles(
+      next => {
+        setEntries(next);
+        setLoading(false);
+      },
+      err => {
+        console.error('Error loading user roles:', err);
+        setError('Failed to load the user roles.');
+        setLoading(false);
+      }
+    );
+  }, []);
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setError('');
+      await setUserRole(userId, role);
+      setUserId('');
+    } catch (err) {
+      console.error('Error assigning role:', err);
+      setError(err instanceof Error ? err.message : 'Failed to assign the role.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (entry: UserRoleEntry) => {
+    try {
+      setBusyUserId(entry.userId);
+      await setUserRole(entry.userId, 'rep');
+    } catch (err) {
+      console.error('Error removing role:', err);
+      alert('Failed to remove the role. Please try again.');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const inputClassName = 'px-3 py-2 border border-[#333333] rounded-md bg-[#232323] text-white focus:outline-none focus:ring-1 focus:ring-[#c0ff54]';
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#111111] text-white">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-4xl mx-auto px-4 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-[#c0ff54]">USER ROLES</h1>
+              <p className="text-gray-400 mt-2">
+                Managers review the reports of others; admins can also reopen approved reports. Everyone else is a rep.
+              </p>
+            </div>
+            <Link href="/" className="text-[#c0ff54] hover:text-[#9adf21]">
+              Return to Dashboard
+            </Link>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+              {error}
+            </div>
+          )}
+
+          {!loading && assignmentError && (
+            <div className="p-3 bg-[#232323] text-gray-300 rounded-md border border-[#333333] text-sm">
+              {assignmentError}. Roles only guide the review workflow; the app has no sign-in, so they do not restrict access.
+            </div>
+          )}
+
+          {!loading && !assignmentError && (
+            <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+              <h2 className="text-lg font-medium text-[#c0ff54] mb-4">ASSIGN</h2>
+              <form onSubmit={handleAssign} className="flex flex-col sm:flex-row gap-4 text-sm">
+                <div className="flex flex-col gap-1 flex-grow">
+                  <label htmlFor="userId" className="text-gray-300">Name, as entered on the dashboard</label>
+                  <input
+                    id="userId"
+                    type="text"
+                    value={userId}
+                    onChange={(e) => setUserId(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="role" className="text-gray-300">Role</label>
+                  <select
+                    id="role"
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as UserRole)}
+                    className={inputClassName}
+                  >
+                    {USER_ROLES.map(option => (
+                      <option key={option} value={option}>{USER_ROLE_LABELS[option]}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium disabled:opacity-50 self-start sm:self-end"
+                >
+                  {isSaving ? 'SAVING...' : 'ASSIGN'}
+                </button>
+              </form>
+            </section>
+          )}
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">MANAGERS AND ADMINS</h2>
+            {loading ? (
+              <p className="text-gray-400">Loading roles...</p>
+            ) : entries.length === 0 ? (
+              <p className="text-gray-400">No roles assigned. Everyone is a rep.</p>
+            ) : (
+              <ul className="space-y-3">
+                {entries.map(entry => (
+                  <li
+                    key={entry.id}
+                    className="flex justify-between items-center gap-3 bg-[#232323] rounded-md p-4 border border-[#333333]"
+                  >
+                    <div>
+                      <div className="text-gray-200 font-medium">{entry.userId}</div>
+                      <div className="text-sm text-gray-500">{USER_ROLE_LABELS[entry.role]}</div>
+                    </div>
+                    {!assignmentError && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(entry)}
+                        disabled={busyUserId === entry.userId}
+                        className="px-3 py-1.5 bg-red-800 text-white rounded-md hover:bg-red-700 text-sm font-medium disabled:opacity-50"
+                      >
+                        REMOVE
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </main>
+
+      <footer className="bg-black py-6 border-t border-[#333333]">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-500 text-sm">
+          <p>&copy; {new Date().getFullYear()} TERRASYNC. ALL RIGHTS RESERVED.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import {
+  COMMON_TIME_ZONES,
+  WEEKDAY_NAMES,
+  loadOrganizationSettings,
+  canChangeWeekStartDay,
+  saveOrganizationSettings
+} from '@/lib/orgSettings';
+import { getWeekDeadline, type WeekDeadline } from '@/lib/deadlines';
+import { FISCAL_PATTERNS, MONTH_NAMES, getCurrentFiscalPeriod, type FiscalPeriod } from '@/lib/fiscalCalendar';
+import {
+  DEFAULT_CALENDAR_SETTINGS,
+  formatDate,
+  getCurrentWeekId,
+  getWeekRange,
+  type CalendarSettings
+} from '@/lib/dateUtils';
+
+export default function OrganizationSettingsPage() {
+  const [form, setForm] = useState<CalendarSettings>(DEFAULT_CALENDAR_SETTINGS);
+  const [currentWeek, setCurrentWeek] = useState<{ weekId: string; start: Date; end: Date } | null>(null);
+  const [currentPeriod, setCurrentPeriod] = useState<FiscalPeriod | null>(null);
+  const [currentDeadline, setCurrentDeadline] = useState<WeekDeadline | null>(null);
+  const [weekStartLocked, setWeekStartLocked] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const refreshCurrentWeek = () => {
+    setCurrentWeek({ weekId: getCurrentWeekId(), ...getWeekRange() });
+    setCurrentPeriod(getCurrentFiscalPeriod());
+    setCurrentDeadline(getWeekDeadline(getCurrentWeekId()));
+  };
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        setForm(await loadOrganizationSettings());
+        setWeekStartLocked(!(await canChangeWeekStartDay()));
+        refreshCurrentWeek();
+      } catch (err) {
+        console.error('Error fetching organization settings:', err);
+        setError('Failed to load the organization settings.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setError('');
+      setMessage('');
+      await saveOrganizationSettings(form);
+      refreshCurrentWeek();
+      setMessage('Settings saved.');
+    } catch (err) {
+      console.error('Error saving organization settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const timeZones = COMMON_TIME_ZONES.includes(form.timeZone)
+    ? COMMON_TIME_ZONES
+    : [form.timeZone, ...COMMON_TIME_ZONES];
+
+  const inputClassName = 'px-3 py-2 border border-[#333333] rounded-md bg-[#232323] text-white focus:outline-none focus:ring-1 focus:ring-[#c0ff54]';
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#111111] text-white">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-4xl mx-auto px-4 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-[#c0ff54]">ORGANIZATION SETTINGS</h1>
+              <p className="text-gray-400 mt-2">
+                The reporting calendar used for every week calculation.
+              </p>
+            </div>
+            <Link href="/" className="text-[#c0ff54] hover:text-[#9adf21]">
+              Return to Dashboard
+            </Link>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="p-3 bg-[#1a1a1a] text-gray-300 rounded-md border border-[#333333]">
+              {message}
+            </div>
+          )}
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">REPORTING CALENDAR</h2>
+            {loading ? (
+              <p className="text-gray-400">Loading settings...</p>
+            ) : (
+              <form onSubmit={handleSave} className="space-y-4 text-sm">
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="timeZone" className="text-gray-300">Reporting time zone</label>
+                  <select
+                    id="timeZone"
+                    value={form.timeZone}
+                    onChange={(e) => setForm(prev => ({ ...prev, timeZone: e.target.value }))}
+                    className={inputClassName}
+                  >
+                    {timeZones.map(timeZone => (
+                      <option key={timeZone} value={timeZone}>{timeZone}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="weekStartDay" className="text-gray-300">Week starts on</label>
+                  <select
+                    id="weekStartDay"
+                    value={form.weekStartDay}
+                    onChange={(e) => setForm(prev => ({ ...prev, weekStartDay: Number(e.target.value) }))}
+                    disabled={weekStartLocked}
+                    className={`${inputClassName} disabled:opacity-50`}
+                  >
+                    {WEEKDAY_NAMES.map((name, day) => (
+                      <option key={name} value={day}>{name}</option>
+                    ))}
+                  </select>
+                  {weekStartLocked && (
+                    <p className="text-yellow-300 text-sm">
+                      Reports already exist and are filed under weeks starting on this day, so the week start day can no longer change.
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="reportOpenTime" className="text-gray-300">New week&apos;s report opens at</label>
+                  <input
+                    id="reportOpenTime"
+                    type="time"
+                    value={form.reportOpenTime}
+                    onChange={(e) => setForm(prev => ({ ...prev, reportOpenTime: e.target.value }))}
+                    className={`${inputClassName} w-40`}
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="fiscalPattern" className="text-gray-300">Monthly periods</label>
+                  <select
+                    id="fiscalPattern"
+                    value={form.fiscalPattern}
+                    onChange={(e) => setForm(prev => ({ ...prev, fiscalPattern: e.target.value as CalendarSettings['fiscalPattern'] }))}
+                    className={inputClassName}
+                  >
+                    {FISCAL_PATTERNS.map(pattern => (
+                      <option key={pattern.id} value={pattern.id}>{pattern.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="fiscalYearStartMonth" className="text-gray-300">Fiscal year starts in</label>
+                  <select
+                    id="fiscalYearStartMonth"
+                    value={form.fiscalYearStartMonth}
+                    onChange={(e) => setForm(prev => ({ ...prev, fiscalYearStartMonth: Number(e.target.value) }))}
+                    className={inputClassName}
+                  >
+                    {MONTH_NAMES.map((name, index) => (
+                      <option key={name} value={index + 1}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="dueDay" className="text-gray-300">Reports are due on</label>
+                  <select
+                    id="dueDay"
+                    value={form.dueDay}
+                    onChange={(e) => setForm(prev => ({ ...prev, dueDay: Number(e.target.value) }))}
+                    className={inputClassName}
+                  >
+                    {WEEKDAY_NAMES.map((name, day) => (
+                      <option key={name} value={day}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="dueTime" className="text-gray-300">Due at</label>
+                  <input
+                    id="dueTime"
+                    type="time"
+                    value={form.dueTime}
+                    onChange={(e) => setForm(prev => ({ ...prev, dueTime: e.target.value }))}
+                    className={`${inputClassName} w-40`}
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="gracePeriodHours" className="text-gray-300">Grace period (hours)</label>
+                  <input
+                    id="gracePeriodHours"
+                    type="number"
+                    min={0}
+                    max={168}
+                    value={form.gracePeriodHours}
+                    onChange={(e) => setForm(prev => ({ ...prev, gracePeriodHours: Number(e.target.value) }))}
+                    className={`${inputClassName} w-40`}
+                  />
+                </div>
+                <p className="text-gray-500">
+                  The week start day is fixed once the first report is stored. Deadlines apply to every week, including
+                  reports already submitted. After changing the monthly periods,
+                  rebuild the rollups on the <Link href="/admin/migrations" className="text-[#c0ff54] hover:text-[#9adf21]">migrations page</Link>.
+                </p>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium disabled:opacity-50"
+                >
+                  {isSaving ? 'SAVING...' : 'SAVE SETTINGS'}
+                </button>
+              </form>
+            )}
+          </section>
+
+          {currentWeek && (
+            <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333] text-sm text-gray-300">
+              <h2 className="text-lg font-medium text-[#c0ff54] mb-4">CURRENT WEEK</h2>
+              <p>
+                {currentWeek.weekId}: {formatDate(currentWeek.start)} to {formatDate(currentWeek.end)}
+              </p>
+              {currentDeadline && (
+                <p className="mt-2">
+                  Due {currentDeadline.due.toLocaleString()}
+                  {currentDeadline.graceEnds > currentDeadline.due && `, accepted until ${currentDeadline.graceEnds.toLocaleString()}`}
+                </p>
+              )}
+              {currentPeriod && (
+                <p className="mt-2">
+                  {currentPeriod.label}: {formatDate(currentPeriod.start)} to {formatDate(currentPeriod.end)} ({currentPeriod.weekIds.length} weeks, Q{currentPeriod.quarter})
+                </p>
+              )}
+            </section>
+          )}
+        </div>
+      </main>
+
+      <footer className="bg-black py-6 border-t border-[#333333]">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-500 text-sm">
+          <p>&copy; {new Date().getFullYear()} TERRASYNC. ALL RIGHTS RESERVED.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { parseDateInput } from '@/lib/dateUtils';
+import { refreshRollupsForDateRange } from '@/lib/rollups';
+import { addTimeOff, deleteTimeOff, subscribeToTimeOff, type TimeOffEntry } from '@/lib/timeOff';
+
+type TimeOffForm = {
+  kind: 'holiday' | 'timeOff';
+  userId: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+};
+
+const EMPTY_FORM: TimeOffForm = { kind: 'holiday', userId: '', label: '', startDate: '', endDate: '' };
+
+// Analytics totals of the affected periods use the prorated targets
+const refreshRollups = async (entry: Pick<TimeOffEntry, 'startDate' | 'endDate'>) => {
+  const from = parseDateInput(entry.startDate);
+  const to = parseDateInput(entry.endDate, true);
+  if (!from || !to) return;
+  try {
+    await refreshRollupsForDateRange(from, to);
+  } catch (error) {
+    console.error('Error updating report rollups:', error);
+  }
+};
+
+const formatRange = (entry: TimeOffEntry) => {
+  const start = parseDateInput(entry.startDate)?.toLocaleDateString();
+  const end = parseDateInput(entry.endDate)?.toLocaleDateString();
+  return entry.startDate === entry.endDate ? start : `${start} to ${end}`;
+};
+
+export default function TimeOffPage() {
+  const [entries, setEntries] = useState<TimeOffEntry[]>([]);
+  const [form, setForm] = useState<TimeOffForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyEntryId, setBusyEntryId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    return subscribeToTimeOff(
+      next => {
+        setEntries(next);
+        setLoading(false);
+      },
+      err => {
+        console.error('Error loading time off:', err);
+        setError('Failed to load holidays and time off.');
+        setLoading(false);
+      }
+    );
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setError('');
+      const entry = await addTimeOff({
+        userId: form.kind === 'holiday' ? null : form.userId,
+        label: form.label,
+        startDate: form.startDate,
+        endDate: form.endDate || form.startDate
+      });
+      await refreshRollups(entry);
+      setForm(prev => ({ ...EMPTY_FORM, kind: prev.kind, userId: prev.userId }));
+    } catch (err) {
+      console.error('Error adding time off:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add the entry.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: TimeOffEntry) => {
+    try {
+      setBusyEntryId(entry.id);
+      await deleteTimeOff(entry.id);
+      await refreshRollups(entry);
+    } catch (err) {
+      console.error('Error deleting time off:', err);
+      alert('Failed to delete the entry. Please try again.');
+    } finally {
+      setBusyEntryId(null);
+    }
+  };
+
+  const inputClassName = 'px-3 py-2 border border-[#333333] rounded-md bg-[#232323] text-white focus:outline-none focus:ring-1 focus:ring-[#c0ff54]';
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#111111] text-white">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-4xl mx-auto px-4 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-[#c0ff54]">HOLIDAYS AND TIME OFF</h1>
+              <p className="text-gray-400 mt-2">
+                Weekly and monthly targets are prorated for the working days off.
+              </p>
+            </div>
+            <Link href="/" className="text-[#c0ff54] hover:text-[#9adf21]">
+              Return to Dashboard
+            </Link>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+              {error}
+            </div>
+          )}
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">ADD</h2>
+            <form onSubmit={handleAdd} className="space-y-4 text-sm">
+              <div className="flex flex-wrap gap-4">
+                <label className="flex items-center gap-2 text-gray-300">
+                  <input
+                    type="radio"
+                    name="kind"
+                    checked={form.kind === 'holiday'}
+                    onChange={() => setForm(prev => ({ ...prev, kind: 'holiday' }))}
+                  />
+                  Company holiday
+                </label>
+                <label className="flex items-center gap-2 text-gray-300">
+                  <input
+                    type="radio"
+                    name="kind"
+                    checked={form.kind === 'timeOff'}
+                    onChange={() => setForm(prev => ({ ...prev, kind: 'timeOff' }))}
+                  />
+                  Time off for one rep
+                </label>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {form.kind === 'timeOff' && (
+                  <div className="flex flex-col gap-1">
+                    <label htmlFor="userId" className="text-gray-300">Rep name</label>
+                    <input
+                      id="userId"
+                      type="text"
+                      value={form.userId}
+                      onChange={(e) => setForm(prev => ({ ...prev, userId: e.target.value }))}
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="label" className="text-gray-300">Label</label>
+                  <input
+                    id="label"
+                    type="text"
+                    value={form.label}
+                    placeholder={form.kind === 'holiday' ? 'Thanksgiving' : 'PTO'}
+                    onChange={(e) => setForm(prev => ({ ...prev, label: e.target.value }))}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="startDate" className="text-gray-300">First day off</label>
+                  <input
+                    id="startDate"
+                    type="date"
+                    value={form.startDate}
+                    onChange={(e) => setForm(prev => ({ ...prev, startDate: e.target.value }))}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="endDate" className="text-gray-300">Last day off (optional)</label>
+                  <input
+                    id="endDate"
+                    type="date"
+                    value={form.endDate}
+                    min={form.startDate || undefined}
+                    onChange={(e) => setForm(prev => ({ ...prev, endDate: e.target.value }))}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium disabled:opacity-50"
+              >
+                {isSaving ? 'SAVING...' : 'ADD'}
+              </button>
+            </form>
+          </section>
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">CALENDAR</h2>
+            {loading ? (
+              <p className="text-gray-400">Loading holidays and time off...</p>
+            ) : entries.length === 0 ? (
+              <p className="text-gray-400">No holidays or time off recorded.</p>
+            ) : (
+              <ul className="space-y-3">
+                {entries.map(entry => (
+                  <li
+                    key={entry.id}
+                    className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 bg-[#232323] rounded-md p-4 border border-[#333333]"
+                  >
+                    <div>
+                      <div className="text-gray-200 font-medium">
+                        {entry.label} - {entry.userId ?? 'Everyone'}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {entry.userId === null ? 'Company holiday' : 'Time off'}, {formatRange(entry)}
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(entry)}
+                      disabled={busyEntryId === entry.id}
+                      className="px-3 py-1.5 bg-red-800 text-white rounded-md hover:bg-red-700 text-sm font-medium disabled:opacity-50 self-start sm:self-auto"
+                    >
+                      DELETE
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </main>
+
+      <footer className="bg-black py-6 border-t border-[#333333]">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-500 text-sm">
+          <p>&copy; {new Date().getFullYear()} TERRASYNC. ALL RIGHTS RESERVED.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -1,26 +1,40 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Header } from '@/components/Header';
 import { TimeRangeSelector } from '@/components/analytics/TimeRangeSelector';
 import { PerformanceChart } from '@/components/analytics/PerformanceChart';
 import { CompletionRate } from '@/components/analytics/CompletionRate';
-import { getMetricsPerformance, getPerformanceByMetric, calculateAchievementPercentage, getReportsForAnalytics } from '@/lib/analyticsServices';
-import { DEFAULT_METRICS } from '@/lib/services';
+import {
+  getRollupsForAnalytics,
+  summarizeMetricPerformance,
+  calculateAchievementFromRollups
+} from '@/lib/analyticsServices';
+import { getCurrentWeekId } from '@/lib/dateUtils';
+import {
+  DEFAULT_METRIC_COLOR,
+  getMetricDefinitions,
+  isMetricActiveInWeek,
+  type MetricDefinition
+} from '@/lib/metricDefinitions';
+import { formatMetricValue, getValueFormat } from '@/lib/metricValues';
+import { loadOrganizationSettings } from '@/lib/orgSettings';
+import { loadQuotaBook } from '@/lib/quotas';
+import { getActiveUsers } from '@/lib/weeklyReportJob';
 import Image from 'next/image';
 import { motion } from 'framer-motion';
 
-type MetricsData = {
-  byDate: { date: string; metrics: Record<string, number> }[];
-  totals: Record<string, number>;
-  averages: Record<string, number>;
-  completion: Record<string, number>;
-};
-
 type ChartDataItem = {
   title: string;
   color: string;
-  data: { date: string; value: number; target: number }[];
+  data: { date: string; value: number; target: number; timeOff?: string }[];
+  formatValue: (value: number) => string;
+};
+
+// Chart values follow the metric's value type, e.g. acres or percent
+const getValueFormatter = (definition: MetricDefinition) => {
+  const format = getValueFormat(definition);
+  return (value: number) => formatMetricValue(value, format);
 };
 
 // Add a debounce utility with better typing
@@ -40,18 +54,22 @@ const useDebounce = <T extends (...args: unknown[]) => unknown>(fn: T, delay: nu
 
 export default function AnalyticsPage() {
   const [timeRange, setTimeRange] = useState('month');
-  const [, setMetricsData] = useState<MetricsData | null>(null);
   const [chartData, setChartData] = useState<ChartDataItem[]>([]);
   const [achievements, setAchievements] = useState<Record<string, { percentage: number; status: string }>>({});
   const [isLoading, setIsLoading] = useState(true);
+  // Metrics shown, with their colors, from the metric registry
+  const [metrics, setMetrics] = useState<MetricDefinition[]>([]);
+  // The rep whose performance is shown, against their own quotas; empty for everyone
+  const [rep, setRep] = useState('');
+  const [reps, setReps] = useState<string[]>([]);
   
-  // Memoize the metric colors to prevent object recreations on each render
-  const metricColors = useMemo(() => ({
-    'New Accounts Outreach': '#c0ff54', // Neon green
-    'Acres Secured': '#54e8ff', // Cyan
-    'Quotations Sent': '#ffbe54', // Orange
-    'Quotation Closing Rate': '#ff5494', // Pink
-  }), []);
+  // Reps who reported recently can be picked
+  useEffect(() => {
+    loadOrganizationSettings()
+      .then(() => getActiveUsers(getCurrentWeekId()))
+      .then(setReps)
+      .catch(error => console.error('Error loading reps:', error));
+  }, []);
   
   // Handler for time range changes
   const handleTimeRangeChange = (range: string) => {
@@ -64,62 +82,39 @@ export default function AnalyticsPage() {
     setIsLoading(true);
     
     try {
-      // Fetch reports only once for all operations
-      console.log('Fetching reports for analytics with timeRange:', timeRange);
-      const reports = await getReportsForAnalytics(timeRange);
-      console.log('Reports for analytics:', reports);
+      // Read the precomputed weekly rollups once for all operations
+      const [rollups, definitions, quotas] = await Promise.all([
+        getRollupsForAnalytics(timeRange, rep || undefined),
+        getMetricDefinitions(),
+        loadQuotaBook()
+      ]);
       
-      if (reports && reports.length > 0) {
-        // Cache these values to prevent multiple recalculations
-        const achievementData = calculateAchievementPercentage(reports);
-        setAchievements(achievementData);
-        
-        // Batch process metrics performance
-        const metricsPerformance = await getMetricsPerformance(timeRange);
-        setMetricsData(metricsPerformance);
-        console.log('Metrics performance data:', metricsPerformance);
+      // Retired metrics stay listed while the range has values for them
+      const currentWeekId = getCurrentWeekId();
+      const shownMetrics = definitions.filter(definition => (
+        isMetricActiveInWeek(definition, currentWeekId) || rollups.some(rollup => rollup.metrics[definition.title])
+      ));
+      setMetrics(shownMetrics);
+      
+      if (rollups.length > 0) {
+        setAchievements(calculateAchievementFromRollups(rollups, shownMetrics, quotas, rep || null));
         
-        // Fetch detailed data for each metric - using Promise.all for parallel fetching
-        const metricsChartData = await Promise.all(
-          DEFAULT_METRICS.map(async (metric) => {
-            const performance = await getPerformanceByMetric(timeRange, metric.title);
-            // Validate and ensure proper data structure
-            if (!performance || !performance.data) {
-              console.warn(`No performance data for ${metric.title}`);
-              return {
-                title: metric.title,
-                color: metricColors[metric.title as keyof typeof metricColors] || '#c0ff54',
-                data: [] // Empty array as fallback
-              };
-            }
-            
-            // Ensure all data points have the required fields
-            const cleanedData = performance.data.map(point => ({
-              date: point.date || new Date().toISOString(),
-              value: typeof point.value === 'number' ? point.value : 0,
-              target: typeof point.target === 'number' ? point.target : 10
-            }));
-            
-            console.log(`Processed ${cleanedData.length} data points for ${metric.title}`);
-            
-            return {
-              title: metric.title,
-              color: metricColors[metric.title as keyof typeof metricColors] || '#c0ff54',
-              data: cleanedData,
-            };
-          })
-        );
+        // Derive each metric's chart from the same rollups
+        const metricsChartData = shownMetrics.map(metric => ({
+          title: metric.title,
+          color: metric.color || DEFAULT_METRIC_COLOR,
+          data: summarizeMetricPerformance(rollups, metric.title, shownMetrics).data,
+          formatValue: getValueFormatter(metric)
+        }));
         
-        console.log('Chart data:', metricsChartData);
-        console.log('Sample data for first metric:', metricsChartData[0]?.data?.slice(0, 3));
         setChartData(metricsChartData);
       } else {
         // No reports found - set empty data
-        console.log('No reports found - setting empty chart data');
-        setChartData(DEFAULT_METRICS.map(metric => ({
+        setChartData(shownMetrics.map(metric => ({
           title: metric.title,
-          color: metricColors[metric.title as keyof typeof metricColors] || '#c0ff54',
-          data: []
+          color: metric.color || DEFAULT_METRIC_COLOR,
+          data: [],
+          formatValue: getValueFormatter(metric)
         })));
         setAchievements({});
       }
@@ -131,7 +126,7 @@ export default function AnalyticsPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [timeRange, metricColors]);
+  }, [timeRange, rep]);
   
   // Debounce the fetchData call
   const debouncedFetchData = useDebounce(fetchData, 300);
@@ -168,6 +163,20 @@ export default function AnalyticsPage() {
             >
               ANALYTICS
             </motion.h1>
+            <div className="flex items-center gap-2 text-sm">
+              <label htmlFor="rep" className="text-gray-400">Rep</label>
+              <select
+                id="rep"
+                value={rep}
+                onChange={(e) => setRep(e.target.value)}
+                className="px-3 py-2 border border-[#333333] rounded-md bg-[#232323] text-white focus:outline-none focus:ring-1 focus:ring-[#c0ff54]"
+              >
+                <option value="">Everyone</option>
+                {reps.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
           </div>
           
           {/* Time range selector */}
@@ -196,11 +205,14 @@ export default function AnalyticsPage() {
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.3, delay: 0.2 }}
               >
-                <h3 className="text-lg font-medium text-white mb-6">Target Achievement</h3>
+                <h3 className="text-lg font-medium text-white mb-1">Target Achievement</h3>
+                <p className="text-sm text-gray-500 mb-6">
+                  {rep ? `Against ${rep}'s quotas` : "Against the sum of every rep's quota or target"}
+                </p>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-                  {DEFAULT_METRICS.map((metric) => {
+                  {metrics.map((metric) => {
                     const achievement = achievements[metric.title] || { percentage: 0, status: 'behind' };
-                    const color = metricColors[metric.title as keyof typeof metricColors] || '#c0ff54';
+                    const color = metric.color || DEFAULT_METRIC_COLOR;
                     
                     return (
                       <CompletionRate 
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { checkJobRequest } from '@/lib/jobAuth';
+import { isWeekId } from '@/lib/dateUtils';
+import { openWeeklyReports } from '@/lib/weeklyReportJob';
+
+/**
+ * Opens the week's pending reports for every active user. Call it from a
+ * cron with the REPORT_JOB_SECRET as a bearer token, e.g. hourly:
+ *
+ *   curl -X POST -H "Authorization: Bearer $REPORT_JOB_SECRET" \
+ *     http://localhost:3000/api/jobs/open-weekly-reports
+ *
+ * Query parameters: `dryRun=true` to only report what would be created,
+ * `force=true` to open the week before its report-open time and
+ * `weekId=2025-W05` to open another week. Responds with the run summary.
+ *
+ * The job uses the Firebase client SDK under the open firestore.rules rather
+ * than the Admin SDK; see lib/jobAuth for what the secret does and does not protect.
+ */
+
+export const dynamic = 'force-dynamic';
+
+const isTrue = (value: string | null) => value === 'true' || value === '1';
+
+export async function POST(request: Request) {
+  const rejection = checkJobRequest(request);
+  if (rejection) {
+    return rejection;
+  }
+
+  const params = new URL(request.url).searchParams;
+  const weekId = params.get('weekId') ?? undefined;
+  if (weekId !== undefined && !isWeekId(weekId)) {
+    return NextResponse.json({ error: `Invalid week id: ${weekId}` }, { status: 400 });
+  }
+
+  try {
+    const run = await openWeeklyReports({
+      weekId,
+      dryRun: isTrue(params.get('dryRun')),
+      force: isTrue(params.get('force'))
+    });
+    return NextResponse.json(run, { status: run.status === 'failed' ? 500 : 200 });
+  } catch (error) {
+    console.error('Error running the weekly report job:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to open the weekly reports' },
+      { status: 500 }
+    );
+  }
+}
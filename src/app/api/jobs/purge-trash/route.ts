@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { checkJobRequest } from '@/lib/jobAuth';
+import { purgeExpiredReports } from '@/lib/trash';
+
+/**
+ * Permanently deletes the reports that have been in the trash longer than
+ * the retention period. Call it from a cron with the REPORT_JOB_SECRET as a
+ * bearer token, e.g. daily:
+ *
+ *   curl -X POST -H "Authorization: Bearer $REPORT_JOB_SECRET" \
+ *     http://localhost:3000/api/jobs/purge-trash
+ *
+ * Query parameters: `dryRun=true` to only list the expired reports.
+ * Responds with the ids of the purged reports.
+ *
+ * Like the weekly report job it deletes through the Firebase client SDK,
+ * see lib/jobAuth.
+ */
+
+export const dynamic = 'force-dynamic';
+
+const isTrue = (value: string | null) => value === 'true' || value === '1';
+
+export async function POST(request: Request) {
+  const rejection = checkJobRequest(request);
+  if (rejection) {
+    return rejection;
+  }
+
+  const dryRun = isTrue(new URL(request.url).searchParams.get('dryRun'));
+  try {
+    const reportIds = await purgeExpiredReports({ dryRun });
+    return NextResponse.json({ dryRun, reportIds });
+  } catch (error) {
+    console.error('Error running the trash purge job:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to purge the trash' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { SubmissionStatusBadge } from '@/components/SubmissionStatusBadge';
+import { getCalendarSettings, getWeekDatesForId } from '@/lib/dateUtils';
+import {
+  getCompliance,
+  getRecentWeekIds,
+  NON_COMPLIANT_STATUSES,
+  type ComplianceEntry,
+  type SubmissionStatus
+} from '@/lib/deadlines';
+import { WEEKDAY_NAMES } from '@/lib/orgSettings';
+import { isEditableStatus, isSubmittedStatus } from '@/lib/reviewWorkflow';
+
+const WEEK_COUNTS = [4, 8, 13, 26];
+
+// Statuses that are not rated yet, or excused
+const UNRATED_STATUSES: SubmissionStatus[] = ['open', 'on-leave'];
+
+type UserCompliance = {
+  userId: string;
+  entries: ComplianceEntry[];
+  // Share of the rated weeks submitted by the end of the grace period, null with none rated
+  onTimeRate: number | null;
+  nonCompliant: number;
+};
+
+const summarize = (userId: string, entries: ComplianceEntry[]): UserCompliance => {
+  const rated = entries.filter(entry => !UNRATED_STATUSES.includes(entry.status));
+  const nonCompliant = rated.filter(entry => NON_COMPLIANT_STATUSES.includes(entry.status)).length;
+  return {
+    userId,
+    entries,
+    onTimeRate: rated.length > 0 ? (rated.length - nonCompliant) / rated.length : null,
+    nonCompliant
+  };
+};
+
+export default function CompliancePage() {
+  const [weekCount, setWeekCount] = useState(8);
+  const [weekIds, setWeekIds] = useState<string[]>([]);
+  const [entries, setEntries] = useState<ComplianceEntry[]>([]);
+  const [deadline, setDeadline] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchCompliance = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        // getCompliance loads the calendar settings the week ids depend on
+        const next = await getCompliance(getRecentWeekIds(weekCount));
+        if (cancelled) return;
+
+        const { dueDay, dueTime, gracePeriodHours, timeZone } = getCalendarSettings();
+        setWeekIds(getRecentWeekIds(weekCount));
+        setEntries(next);
+        setDeadline(
+          `Reports are due ${WEEKDAY_NAMES[dueDay]} at ${dueTime} (${timeZone})` +
+          (gracePeriodHours > 0 ? ` with a ${gracePeriodHours}-hour grace period.` : '.')
+        );
+      } catch (err) {
+        console.error('Error loading compliance:', err);
+        if (!cancelled) setError('Failed to load report compliance. Please try again later.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchCompliance();
+    return () => {
+      cancelled = true;
+    };
+  }, [weekCount]);
+
+  const users = useMemo(() => {
+    const byUser = new Map<string, ComplianceEntry[]>();
+    entries.forEach(entry => {
+      byUser.set(entry.userId, [...(byUser.get(entry.userId) ?? []), entry]);
+    });
+    return Array.from(byUser.entries()).map(([userId, userEntries]) => summarize(userId, userEntries));
+  }, [entries]);
+
+  const team = useMemo(() => summarize('Team', entries), [entries]);
+
+  const formatRate = (rate: number | null) => rate === null ? '-' : `${Math.round(rate * 100)}%`;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#111111] text-white">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-7xl mx-auto px-4 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-[#c0ff54]">REPORT COMPLIANCE</h1>
+              <p className="text-gray-400 mt-2">
+                {deadline || 'Late and missing weekly reports per rep.'}
+              </p>
+            </div>
+            <div className="flex items-center gap-4">
+              <select
+                value={weekCount}
+                onChange={(e) => setWeekCount(Number(e.target.value))}
+                className="px-3 py-2 border border-[#333333] rounded-md bg-[#232323] text-white text-sm focus:outline-none focus:ring-1 focus:ring-[#c0ff54]"
+                aria-label="Weeks shown"
+              >
+                {WEEK_COUNTS.map(count => (
+                  <option key={count} value={count}>Last {count} weeks</option>
+                ))}
+              </select>
+              <Link href="/" className="text-[#c0ff54] hover:text-[#9adf21]">
+                Return to Dashboard
+              </Link>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+              {error}
+            </div>
+          )}
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            {loading ? (
+              <p className="text-gray-400">Loading compliance...</p>
+            ) : users.length === 0 ? (
+              <p className="text-gray-400">No reports in these weeks.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6 text-sm">
+                  <div className="bg-[#232323] rounded-md p-4 border border-[#333333]">
+                    <div className="text-gray-400">Team on-time rate</div>
+                    <div className="text-2xl font-bold text-[#c0ff54]">{formatRate(team.onTimeRate)}</div>
+                  </div>
+                  <div className="bg-[#232323] rounded-md p-4 border border-[#333333]">
+                    <div className="text-gray-400">Late reports</div>
+                    <div className="text-2xl font-bold text-orange-300">
+                      {entries.filter(entry => entry.status === 'late').length}
+                    </div>
+                  </div>
+                  <div className="bg-[#232323] rounded-md p-4 border border-[#333333]">
+                    <div className="text-gray-400">Overdue or missing</div>
+                    <div className="text-2xl font-bold text-red-300">
+                      {entries.filter(entry => entry.status === 'overdue' || entry.status === 'missing').length}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-400 text-left">
+                        <th className="py-2 pr-4 font-medium">Rep</th>
+                        {weekIds.map(weekId => (
+                          <th key={weekId} className="py-2 px-2 font-medium whitespace-nowrap" title={weekId}>
+                            {getWeekDatesForId(weekId).end.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                          </th>
+                        ))}
+                        <th className="py-2 pl-4 font-medium whitespace-nowrap">On time</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {users.map(user => (
+                        <tr key={user.userId} className="border-t border-[#333333]">
+                          <td className="py-2 pr-4 text-gray-200 whitespace-nowrap">{user.userId}</td>
+                          {weekIds.map(weekId => {
+                            const entry = user.entries.find(candidate => candidate.weekId === weekId);
+                            return (
+                              <td key={weekId} className="py-2 px-2">
+                                {!entry ? (
+                                  <span className="text-gray-600">-</span>
+                                ) : entry.report ? (
+                                  <Link
+                                    href={isEditableStatus(entry.report.status) ? `/reports/${entry.report.id}/edit` : `/reports/${entry.report.id}`}
+                                    title={isSubmittedStatus(entry.report.status) && entry.report.submittedAt ? `Submitted ${entry.report.submittedAt.toLocaleString()}` : 'Not submitted'}
+                                  >
+                                    <SubmissionStatusBadge status={entry.status} className="whitespace-nowrap" />
+                                  </Link>
+                                ) : (
+                                  <SubmissionStatusBadge status={entry.status} className="whitespace-nowrap" />
+                                )}
+                              </td>
+                            );
+                          })}
+                          <td className={`py-2 pl-4 font-medium ${user.nonCompliant > 0 ? 'text-orange-300' : 'text-[#c0ff54]'}`}>
+                            {formatRate(user.onTimeRate)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <p className="text-gray-500 text-xs mt-4">
+                  Reports submitted within the grace period count as on time. Open weeks and weeks on leave are not rated.
+                  Weeks before a rep&apos;s first report are left blank.
+                </p>
+              </>
+            )}
+          </section>
+        </div>
+      </main>
+
+      <footer className="bg-black py-6 border-t border-[#333333]">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-500 text-sm">
+          <p>&copy; {new Date().getFullYear()} TERRASYNC. ALL RIGHTS RESERVED.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
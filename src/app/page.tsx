@@ -3,11 +3,18 @@
 import { useEffect, useState } from 'react';
 import { Header } from '@/components/Header';
 import { ReportList } from '@/components/ReportList';
-import { createPendingReport, getCurrentWeekAnyReportGlobal } from '@/lib/services';
+import { EditingPresence } from '@/components/EditingPresence';
+import {
+  createPendingReport,
+  getCurrentWeekAnyReport,
+  isReportExistsError,
+  subscribeToCurrentWeekReport
+} from '@/lib/services';
 import Image from 'next/image';
 import Link from 'next/link';
 import type { WeeklyReport } from '@/types';
 import { shouldCreateNewReport } from '@/lib/dateUtils';
+import { isEditableStatus } from '@/lib/reviewWorkflow';
 import * as StorageUtils from '@/lib/storageUtils';
 
 export default function Home() {
@@ -15,7 +22,15 @@ export default function Home() {
   const [, setIsChecking] = useState(true);
   const [userName, setUserName] = useState('');
   const [pendingReport, setPendingReport] = useState<WeeklyReport | null>(null);
-  const [listKey, setListKey] = useState(0); // Add a key for forcing re-render of ReportList
+  
+  // Follow the user's report of this week so the pending banner appears and disappears immediately
+  useEffect(() => {
+    if (!userName) return;
+    
+    return subscribeToCurrentWeekReport(userName, report => {
+      setPendingReport(report && isEditableStatus(report.status) ? report : null);
+    });
+  }, [userName]);
   
   useEffect(() => {
     // Check for an existing pending report or create a new one if needed
@@ -26,25 +41,16 @@ export default function Home() {
         if (storedName) {
           setUserName(storedName);
           
-          // Check if anyone has a report for this week
-          const existingReport = await getCurrentWeekAnyReportGlobal();
-          
-          if (existingReport && existingReport.status === 'pending') {
-            console.log('Found pending report on dashboard:', existingReport);
-            setPendingReport(existingReport);
-            // Force ReportList to refresh by updating its key
-            setListKey(prev => prev + 1);
-          } else {
-            console.log('No pending report found for this week');
-          }
+          // Check if the user has a report for this week
+          const existingReport = await getCurrentWeekAnyReport(storedName);
           
-          // If no pending report exists and it's Monday after 6 AM Eastern Time, create one
+          // If no report exists and it's Monday after 6 AM Eastern Time, create one;
+          // the live listeners pick it up for the banner and the report list. The report
+          // job may open the same report at the same time; whoever writes second backs off.
           if (!existingReport && shouldCreateNewReport()) {
-            console.log('Creating a new report for the week');
-            const newReport = await createPendingReport(storedName);
-            setPendingReport(newReport as unknown as WeeklyReport);
-            // Force ReportList to refresh by updating its key
-            setListKey(prev => prev + 1);
+            await createPendingReport(storedName).catch(error => {
+              if (!isReportExistsError(error)) throw error;
+            });
           }
         }
       } catch (error) {
@@ -90,10 +96,16 @@ export default function Home() {
           {pendingReport && (
             <div className="bg-[#1d2e17] rounded-lg shadow-md p-4 mb-6 border border-[#3b5824] transition-all duration-300 ease-in-out animate-fadeIn">
               <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center">
-                <p className="text-[#9adf21] mb-3 sm:mb-0">
-                  <span className="font-medium">There is a pending report for this week.</span> Complete it before the week ends.
-                  {pendingReport.userId && <span className="ml-1 text-sm">(Started by: {pendingReport.userId})</span>}
-                </p>
+                <div className="mb-3 sm:mb-0">
+                  <p className="text-[#9adf21]">
+                    {pendingReport.status === 'returned' ? (
+                      <><span className="font-medium">Your report for this week was returned for changes.</span> Update it and submit it again.</>
+                    ) : (
+                      <><span className="font-medium">Your report for this week is pending.</span> Complete it before the week ends.</>
+                    )}
+                  </p>
+                  <EditingPresence reportId={pendingReport.id} className="mt-1" />
+                </div>
                 <Link 
                   href={`/reports/${pendingReport.id}/edit`}
                   className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium transition-colors duration-200 ease-in-out transform hover:scale-105"
@@ -149,7 +161,7 @@ export default function Home() {
           )}
 
           <div className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333] transition-all duration-300 ease-in-out">
-            <ReportList key={listKey} pendingReport={pendingReport} />
+            <ReportList />
           </div>
         </div>
       </main>
@@ -5,6 +5,8 @@ import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Header } from '@/components/Header';
 import { getReportById } from '@/lib/services';
+import { isEditableStatus } from '@/lib/reviewWorkflow';
+import { ReportComments } from '@/components/ReportComments';
 import { ReportForm } from '@/components/ReportForm';
 import type { WeeklyReport } from '@/types';
 
@@ -23,8 +25,14 @@ export default function EditReport() {
       try {
         const reportData = await getReportById(id as string);
         
-        // Only allow editing pending reports
-        if (reportData.status !== 'pending') {
+        if (reportData.deletedAt) {
+          setError('This report is in the trash. Restore it before editing.');
+          setIsLoading(false);
+          return;
+        }
+        
+        // Only pending reports and reports returned for changes can be edited
+        if (!isEditableStatus(reportData.status)) {
           setError('This report has already been submitted and cannot be edited.');
           setIsLoading(false);
           return;
@@ -85,6 +93,13 @@ export default function EditReport() {
           </div>
 
           <ReportForm pendingReport={report} />
+
+          {report && (
+            <div className="mt-8 bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+              <h2 className="text-lg font-medium text-[#c0ff54] mb-4">COMMENTS</h2>
+              <ReportComments report={report} />
+            </div>
+          )}
         </div>
       </main>
 
@@ -4,7 +4,15 @@ import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Header } from '@/components/Header';
-import { getReportById, revertToPending } from '@/lib/services';
+import { ReportComments } from '@/components/ReportComments';
+import { ReportHistory } from '@/components/ReportHistory';
+import { ReportReviewPanel } from '@/components/ReportReviewPanel';
+import { getReportById, restoreReport, revertToPending } from '@/lib/services';
+import { getCurrentWeekId } from '@/lib/dateUtils';
+import { formatValueFor } from '@/lib/metricValues';
+import { loadOrganizationSettings } from '@/lib/orgSettings';
+import { getTransitionError } from '@/lib/reviewWorkflow';
+import { getCurrentActor, type Actor } from '@/lib/roles';
 import type { WeeklyReport } from '@/types';
 import Image from 'next/image';
 
@@ -15,14 +23,19 @@ export default function ReportDetail() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [isReverting, setIsReverting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [actor, setActor] = useState<Actor | null>(null);
 
   useEffect(() => {
     const fetchReport = async () => {
       if (!id) return;
 
       try {
+        // Needed to tell whether the report is from the current week
+        await loadOrganizationSettings();
         const reportData = await getReportById(id as string);
         setReport(reportData);
+        setActor(await getCurrentActor());
       } catch (err) {
         console.error('Error fetching report:', err);
         setError('Failed to load the report. It may not exist.');
@@ -35,18 +48,8 @@ export default function ReportDetail() {
   }, [id]);
 
   // Check if the report is from the current week
-  const isCurrentWeek = (date: Date): boolean => {
-    const now = new Date();
-    const startOfWeek = new Date(now);
-    const dayOfWeek = startOfWeek.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    startOfWeek.setDate(startOfWeek.getDate() - dayOfWeek); // Go to Sunday
-    startOfWeek.setHours(0, 0, 0, 0); // Start of day
-    
-    const endOfWeek = new Date(startOfWeek);
-    endOfWeek.setDate(endOfWeek.getDate() + 6); // Go to Saturday
-    endOfWeek.setHours(23, 59, 59, 999); // End of day
-    
-    return date >= startOfWeek && date <= endOfWeek;
+  const isCurrentWeek = (weekId: string): boolean => {
+    return weekId === getCurrentWeekId();
   };
 
   const handleRevertToPending = async () => {
@@ -61,12 +64,27 @@ export default function ReportDetail() {
         router.push(`/reports/${id}/edit`);
       } catch (err) {
         console.error('Error reverting report:', err);
-        alert('Failed to revert report. Please try again.');
+        alert(err instanceof Error ? err.message : 'Failed to revert report. Please try again.');
         setIsReverting(false);
       }
     }
   };
 
+  const handleRestore = async () => {
+    if (!report || !id) return;
+    
+    try {
+      setIsRestoring(true);
+      await restoreReport(id as string);
+      setReport({ ...report, deletedAt: null });
+    } catch (err) {
+      console.error('Error restoring report:', err);
+      alert('Failed to restore report. Please try again.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex flex-col bg-[#111111] text-white">
@@ -115,7 +133,7 @@ export default function ReportDetail() {
   }
 
   const weekEnding = new Date(report.weekEndingDate).toLocaleDateString();
-  const submittedOn = new Date(report.createdAt).toLocaleDateString();
+  const submittedOn = new Date(report.submittedAt ?? report.createdAt).toLocaleDateString();
   
   // Calculate overall progress based on numeric values
   const totalTargetValue = report.metrics.reduce((acc, metric) => acc + (metric.targetValue || 0), 0);
@@ -131,9 +149,9 @@ export default function ReportDetail() {
           <div className="mb-6 flex flex-col sm:flex-row items-start sm:items-center justify-between">
             <h1 className="text-2xl font-bold text-[#c0ff54] mb-3 sm:mb-0">REPORT DETAILS</h1>
             <div className="flex items-center space-x-4">
-              {report && 
-               report.status === 'submitted' &&
-               isCurrentWeek(report.weekEndingDate) && (
+              {actor &&
+               getTransitionError(report, 'withdraw', actor) === null &&
+               isCurrentWeek(report.weekId) && (
                 <button
                   type="button"
                   onClick={handleRevertToPending}
@@ -153,6 +171,20 @@ export default function ReportDetail() {
             </div>
           </div>
 
+          {report.deletedAt && (
+            <div className="mb-6 p-4 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427] flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <span>This report was moved to the trash on {report.deletedAt.toLocaleDateString()}.</span>
+              <button
+                type="button"
+                onClick={handleRestore}
+                disabled={isRestoring}
+                className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] text-sm font-medium disabled:opacity-50"
+              >
+                {isRestoring ? 'RESTORING...' : 'RESTORE REPORT'}
+              </button>
+            </div>
+          )}
+
           <div className="bg-[#1a1a1a] rounded-lg shadow-md p-4 sm:p-6 border border-[#333333] relative overflow-hidden">
             {/* Background logo with opacity */}
             <div className="absolute inset-0 opacity-5 flex justify-center items-center overflow-hidden">
@@ -247,8 +279,8 @@ export default function ReportDetail() {
                             <div className="flex justify-between items-center mt-2">
                               <p className="text-[#c0ff54] font-medium">{metric.target}</p>
                               <div className="text-sm">
-                                <span className="text-[#c0ff54] font-medium">{value}</span>
-                                <span className="text-gray-400">/{target}</span>
+                                <span className="text-[#c0ff54] font-medium">{formatValueFor(metric, value)}</span>
+                                <span className="text-gray-400">/{formatValueFor(metric, target)}</span>
                               </div>
                             </div>
                             <div className="w-full bg-[#333333] rounded-full h-1.5 mt-2">
@@ -260,7 +292,7 @@ export default function ReportDetail() {
                             <p className="text-sm text-gray-400 mt-3">Frequency: {metric.frequency}</p>
                             {metric.previousValue !== undefined && (
                               <p className="text-sm text-gray-400 mt-1">
-                                Previous {metric.frequency.toLowerCase()}: {metric.previousValue}
+                                Previous {metric.frequency.toLowerCase()}: {formatValueFor(metric, metric.previousValue)}
                               </p>
                             )}
                           </div>
@@ -270,6 +302,21 @@ export default function ReportDetail() {
                   })}
                 </div>
               </div>
+
+              <div className="mb-8">
+                <h3 className="text-lg font-medium text-[#c0ff54] mb-4">REVIEW</h3>
+                <ReportReviewPanel report={report} actor={actor} onChange={setReport} />
+              </div>
+
+              <div className="mb-8">
+                <h3 className="text-lg font-medium text-[#c0ff54] mb-4">COMMENTS</h3>
+                <ReportComments report={report} />
+              </div>
+
+              <div className="mb-2">
+                <h3 className="text-lg font-medium text-[#c0ff54] mb-4">HISTORY</h3>
+                <ReportHistory reportId={report.id} />
+              </div>
             </div>
           </div>
         </div>
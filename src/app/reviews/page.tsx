@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { ReportStatusBadge } from '@/components/ReportStatusBadge';
+import { subscribeToReviewQueue } from '@/lib/services';
+import { getAvailableActions } from '@/lib/reviewWorkflow';
+import { getCurrentActor, isReviewer, type Actor } from '@/lib/roles';
+import type { WeeklyReport } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function ReviewQueuePage() {
+  const [reports, setReports] = useState<WeeklyReport[]>([]);
+  const [actor, setActor] = useState<Actor | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getCurrentActor()
+      .then(setActor)
+      .catch(err => console.error('Error loading the current role:', err));
+
+    return subscribeToReviewQueue(
+      next => {
+        setReports(next);
+        setError('');
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load the review queue. Please try again later.');
+        setLoading(false);
+      }
+    );
+  }, []);
+
+  const waitingDays = (report: WeeklyReport) => {
+    return Math.floor((Date.now() - (report.submittedAt ?? report.createdAt).getTime()) / DAY_MS);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#111111] text-white">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-4xl mx-auto px-4 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-[#c0ff54]">REVIEW QUEUE</h1>
+              <p className="text-gray-400 mt-2">
+                Submitted reports waiting for a manager, longest waiting first.
+              </p>
+            </div>
+            <Link href="/" className="text-[#c0ff54] hover:text-[#9adf21]">
+              Return to Dashboard
+            </Link>
+          </div>
+
+          {actor && !isReviewer(actor.role) && (
+            <div className="p-3 bg-yellow-900/30 text-yellow-300 rounded-md border border-yellow-800 text-sm">
+              Only managers and admins can review reports. Ask an admin to assign you a role on the{' '}
+              <Link href="/admin/roles" className="text-yellow-200 underline">roles page</Link>.
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+              {error}
+            </div>
+          )}
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            {loading ? (
+              <p className="text-gray-400">Loading the review queue...</p>
+            ) : reports.length === 0 ? (
+              <p className="text-gray-400">No reports are waiting for review.</p>
+            ) : (
+              <ul className="space-y-3">
+                {reports.map(report => {
+                  const days = waitingDays(report);
+                  const canAct = !!actor && getAvailableActions(report, actor).length > 0;
+
+                  return (
+                    <li
+                      key={report.id}
+                      className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 bg-[#232323] rounded-md p-4 border border-[#333333]"
+                    >
+                      <div>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-gray-200 font-medium">
+                            {report.userId} - Week Ending: {report.weekEndingDate.toLocaleDateString()}
+                          </span>
+                          <ReportStatusBadge status={report.status} />
+                        </div>
+                        <div className="text-sm text-gray-500 mt-1">
+                          Submitted {(report.submittedAt ?? report.createdAt).toLocaleDateString()}
+                          {days > 0 && `, waiting ${days} day${days === 1 ? '' : 's'}`}
+                        </div>
+                      </div>
+                      <Link
+                        href={`/reports/${report.id}`}
+                        className={`px-4 py-2 rounded-md text-sm font-medium self-start sm:self-auto ${canAct
+                          ? 'bg-[#c0ff54] text-black hover:bg-[#9adf21]'
+                          : 'bg-[#333333] text-white hover:bg-[#444444]'}`}
+                      >
+                        {canAct ? 'REVIEW' : 'VIEW'}
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        </div>
+      </main>
+
+      <footer className="bg-black py-6 border-t border-[#333333]">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-500 text-sm">
+          <p>&copy; {new Date().getFullYear()} TERRASYNC. ALL RIGHTS RESERVED.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
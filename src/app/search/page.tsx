@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { ReportStatusBadge } from '@/components/ReportStatusBadge';
+import { parseDateRangeInput } from '@/lib/dateUtils';
+import { formatValueFor } from '@/lib/metricValues';
+import {
+  getIndexedMetricTitles,
+  searchReports,
+  subscribeToSearchIndex,
+  type SearchIndex,
+  type SearchRequest
+} from '@/lib/search';
+
+// Results shown before the user asks for more
+const RESULTS_PAGE_SIZE = 20;
+
+export default function SearchPage() {
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [error, setError] = useState('');
+  const [text, setText] = useState('');
+  const [userId, setUserId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [metricTitle, setMetricTitle] = useState('');
+  const [minValue, setMinValue] = useState('');
+  const [visibleCount, setVisibleCount] = useState(RESULTS_PAGE_SIZE);
+
+  // The index is rebuilt whenever a report changes
+  useEffect(() => {
+    return subscribeToSearchIndex(
+      (next) => {
+        setIndex(next);
+        setError('');
+      },
+      () => setError('Failed to load reports for search. Please try again later.')
+    );
+  }, []);
+
+  const request = useMemo<SearchRequest>(() => ({
+    text,
+    userId: userId.trim() || undefined,
+    weekEndingDate: from || to ? parseDateRangeInput(from, to) : undefined,
+    metric: metricTitle && minValue !== '' && !Number.isNaN(Number(minValue))
+      ? { metricTitle, minValue: Number(minValue) }
+      : undefined
+  }), [text, userId, from, to, metricTitle, minValue]);
+
+  const results = useMemo(() => index ? searchReports(index, request) : [], [index, request]);
+  const metricTitles = useMemo(() => index ? getIndexedMetricTitles(index) : [], [index]);
+
+  // Start from the first page again when the search changes
+  useEffect(() => {
+    setVisibleCount(RESULTS_PAGE_SIZE);
+  }, [request]);
+
+  const inputClassName = 'px-3 py-2 border border-[#333333] rounded-md bg-[#232323] text-white text-sm focus:outline-none focus:ring-1 focus:ring-[#c0ff54]';
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#111111] text-white">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-4xl mx-auto px-4 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-[#c0ff54]">SEARCH REPORTS</h1>
+              <p className="text-gray-400 mt-2">
+                Search summaries, names and metrics of current and archived reports.
+              </p>
+            </div>
+            <Link href="/" className="text-[#c0ff54] hover:text-[#9adf21]">
+              Return to Dashboard
+            </Link>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+              {error}
+            </div>
+          )}
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333] space-y-4">
+            <input
+              type="search"
+              aria-label="Search"
+              placeholder="e.g. county co-op"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className={`${inputClassName} w-full`}
+              autoFocus
+            />
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+              <input
+                type="text"
+                aria-label="Name"
+                placeholder="Name"
+                value={userId}
+                onChange={(e) => setUserId(e.target.value)}
+                className={inputClassName}
+              />
+              <label htmlFor="searchFrom">Week ending from</label>
+              <input
+                id="searchFrom"
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className={inputClassName}
+              />
+              <label htmlFor="searchTo">to</label>
+              <input
+                id="searchTo"
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+              <select
+                aria-label="Metric"
+                value={metricTitle}
+                onChange={(e) => setMetricTitle(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">Any metric</option>
+                {metricTitles.map(title => (
+                  <option key={title} value={title}>{title}</option>
+                ))}
+              </select>
+              <label htmlFor="searchMinValue">at least</label>
+              <input
+                id="searchMinValue"
+                type="number"
+                value={minValue}
+                onChange={(e) => setMinValue(e.target.value)}
+                disabled={!metricTitle}
+                className={`${inputClassName} w-24 disabled:opacity-50`}
+              />
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            {!index ? (
+              <p className="text-gray-400">Building search index...</p>
+            ) : results.length === 0 ? (
+              <p className="text-gray-400">No reports match your search.</p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500">{results.length} report(s) found</p>
+                {results.slice(0, visibleCount).map(({ report, snippet, matchedMetrics }) => (
+                  <Link
+                    key={report.id}
+                    href={`/reports/${report.id}`}
+                    className="block bg-[#232323] rounded-lg p-4 border border-[#333333] hover:border-[#c0ff54]"
+                  >
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      <span className="text-gray-200 font-medium">
+                        {report.userId || 'Unnamed'} - Week Ending: {report.weekEndingDate.toLocaleDateString()}
+                      </span>
+                      {report.status !== 'submitted' && <ReportStatusBadge status={report.status} />}
+                      {report.archived && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-900 text-blue-200">ARCHIVED</span>
+                      )}
+                    </div>
+                    {snippet.length > 0 && (
+                      <p className="text-sm text-gray-400">
+                        {snippet.map((segment, i) => segment.highlight ? (
+                          <mark key={i} className="bg-[#c0ff54]/20 text-[#c0ff54] rounded px-0.5">{segment.text}</mark>
+                        ) : (
+                          <span key={i}>{segment.text}</span>
+                        ))}
+                      </p>
+                    )}
+                    {matchedMetrics.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-2 text-xs">
+                        {report.metrics
+                          .filter(metric => matchedMetrics.includes(metric.title))
+                          .map(metric => (
+                            <span key={metric.id} className="px-2 py-0.5 rounded bg-[#333333] text-gray-300">
+                              {metric.title}: <span className="text-[#c0ff54]">{formatValueFor(metric, metric.value ?? 0)}</span>
+                            </span>
+                          ))}
+                      </div>
+                    )}
+                  </Link>
+                ))}
+                {results.length > visibleCount && (
+                  <div className="text-center">
+                    <button
+                      type="button"
+                      onClick={() => setVisibleCount(prev => prev + RESULTS_PAGE_SIZE)}
+                      className="px-4 py-2 bg-[#333333] text-white rounded-md hover:bg-[#444444] text-sm"
+                    >
+                      SHOW MORE
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </section>
+        </div>
+      </main>
+
+      <footer className="bg-black py-6 border-t border-[#333333]">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-500 text-sm">
+          <p>&copy; {new Date().getFullYear()} TERRASYNC. ALL RIGHTS RESERVED.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { ReportStatusBadge } from '@/components/ReportStatusBadge';
+import { getWeekDatesForId } from '@/lib/dateUtils';
+import { getRecentWeekIds } from '@/lib/deadlines';
+import { formatMetricValue, formatValueFor } from '@/lib/metricValues';
+import { loadOrganizationSettings } from '@/lib/orgSettings';
+import { isEditableStatus } from '@/lib/reviewWorkflow';
+import { subscribeToTeamWeekRollup, type TeamWeekRollup } from '@/lib/teamRollup';
+
+// Weeks offered in the week picker, including the current one
+const WEEKS_SHOWN = 13;
+
+export default function TeamPage() {
+  const [weekIds, setWeekIds] = useState<string[]>([]);
+  const [weekId, setWeekId] = useState('');
+  const [rollup, setRollup] = useState<TeamWeekRollup | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // The weeks depend on the organization's calendar settings
+  useEffect(() => {
+    loadOrganizationSettings()
+      .then(() => {
+        const recent = getRecentWeekIds(WEEKS_SHOWN).reverse();
+        setWeekIds(recent);
+        setWeekId(recent[0]);
+      })
+      .catch(err => {
+        console.error('Error loading organization settings:', err);
+        setError('Failed to load the team rollup. Please try again later.');
+        setLoading(false);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!weekId) return;
+    setLoading(true);
+    return subscribeToTeamWeekRollup(
+      weekId,
+      next => {
+        setRollup(next);
+        setError('');
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load the team rollup. Please try again later.');
+        setLoading(false);
+      }
+    );
+  }, [weekId]);
+
+  const formatWeek = (id: string) => `Week ending ${getWeekDatesForId(id).end.toLocaleDateString()}`;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#111111] text-white">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-7xl mx-auto px-4 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-[#c0ff54]">TEAM ROLLUP</h1>
+              <p className="text-gray-400 mt-2">
+                Every rep&apos;s weekly report, with the team&apos;s metrics added up.
+              </p>
+            </div>
+            <div className="flex items-center gap-4">
+              <select
+                value={weekId}
+                onChange={(e) => setWeekId(e.target.value)}
+                className="px-3 py-2 border border-[#333333] rounded-md bg-[#232323] text-white text-sm focus:outline-none focus:ring-1 focus:ring-[#c0ff54]"
+                aria-label="Week"
+              >
+                {weekIds.map(id => (
+                  <option key={id} value={id}>{formatWeek(id)}</option>
+                ))}
+              </select>
+              <Link href="/" className="text-[#c0ff54] hover:text-[#9adf21]">
+                Return to Dashboard
+              </Link>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+              {error}
+            </div>
+          )}
+
+          {loading || !rollup ? (
+            !error && <p className="text-gray-400">Loading team rollup...</p>
+          ) : rollup.members.length === 0 ? (
+            <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+              <p className="text-gray-400">No reports for this week.</p>
+            </section>
+          ) : (
+            <>
+              <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+                <h2 className="text-lg font-medium text-[#c0ff54] mb-1">TEAM TOTALS</h2>
+                <p className="text-gray-500 text-sm mb-4">
+                  {rollup.countedCount} of {rollup.members.length} reps submitted. Targets are prorated for holidays and time off.
+                </p>
+                {rollup.metrics.length === 0 ? (
+                  <p className="text-gray-400 text-sm">No submitted reports yet.</p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+                    {rollup.metrics.map(metric => (
+                      <div key={metric.title} className="bg-[#232323] rounded-md p-4 border border-[#333333]">
+                        <div className="text-gray-400">{metric.title}</div>
+                        <div className="text-2xl font-bold text-[#c0ff54]">{formatMetricValue(metric.value, metric.format)}</div>
+                        <div className="text-gray-500 text-xs mt-1">
+                          {metric.aggregation === 'average' ? 'Average' : metric.aggregation === 'formula' ? 'Computed from the totals' : 'Total'} of {metric.memberCount} {metric.memberCount === 1 ? 'rep' : 'reps'}
+                          {metric.target > 0 && (
+                            <> - target {formatMetricValue(metric.target, metric.format)} ({Math.round((metric.value / metric.target) * 100)}%)</>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+                <h2 className="text-lg font-medium text-[#c0ff54] mb-4">REPS</h2>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-400 text-left">
+                        <th className="py-2 pr-4 font-medium">Rep</th>
+                        <th className="py-2 px-2 font-medium">Status</th>
+                        {rollup.metrics.map(metric => (
+                          <th key={metric.title} className="py-2 px-2 font-medium whitespace-nowrap">{metric.title}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rollup.members.map(member => (
+                        <tr key={member.userId} className="border-t border-[#333333]">
+                          <td className="py-2 pr-4 text-gray-200 whitespace-nowrap">
+                            {member.report ? (
+                              <Link
+                                href={isEditableStatus(member.report.status) ? `/reports/${member.report.id}/edit` : `/reports/${member.report.id}`}
+                                className="hover:text-[#c0ff54]"
+                              >
+                                {member.userId}
+                              </Link>
+                            ) : member.userId}
+                          </td>
+                          <td className="py-2 px-2 whitespace-nowrap">
+                            {member.report ? (
+                              <ReportStatusBadge status={member.report.status} />
+                            ) : (
+                              <span className="text-gray-500">{member.onLeave ? 'On leave' : 'No report'}</span>
+                            )}
+                          </td>
+                          {rollup.metrics.map(metric => {
+                            const memberMetric = member.report?.metrics.find(candidate => candidate.title === metric.title);
+                            return (
+                              <td key={metric.title} className={`py-2 px-2 ${member.counted ? 'text-gray-200' : 'text-gray-500'}`}>
+                                {memberMetric?.value === undefined ? '-' : formatValueFor(memberMetric, memberMetric.value)}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-gray-500 text-xs mt-4">
+                  Only submitted reports count towards the team totals; values of pending and returned reports are greyed out.
+                  Rates are averaged across reps instead of added up; derived metrics such as the closing rate are computed from the team&apos;s totals.
+                </p>
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+
+      <footer className="bg-black py-6 border-t border-[#333333]">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-500 text-sm">
+          <p>&copy; {new Date().getFullYear()} TERRASYNC. ALL RIGHTS RESERVED.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
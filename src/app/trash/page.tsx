@@ -0,0 +1,234 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { getTrashedReports, permanentlyDeleteReport, restoreReport } from '@/lib/services';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getPurgeDate,
+  getTrashRetentionDays,
+  purgeExpiredReports,
+  setTrashRetentionDays
+} from '@/lib/trash';
+import type { WeeklyReport } from '@/types';
+
+export default function TrashPage() {
+  const [reports, setReports] = useState<WeeklyReport[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [retentionInput, setRetentionInput] = useState(String(DEFAULT_TRASH_RETENTION_DAYS));
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [busyReportId, setBusyReportId] = useState<string | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const days = await getTrashRetentionDays();
+      setRetentionDays(days);
+      setRetentionInput(String(days));
+      setReports(await getTrashedReports());
+    } catch (err) {
+      console.error('Error fetching trash:', err);
+      setError('Failed to load the trash. Please try again later.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const handleRestore = async (reportId: string) => {
+    try {
+      setBusyReportId(reportId);
+      await restoreReport(reportId);
+      setReports(prev => prev.filter(report => report.id !== reportId));
+    } catch (err) {
+      console.error('Error restoring report:', err);
+      alert('Failed to restore report. Please try again.');
+    } finally {
+      setBusyReportId(null);
+    }
+  };
+
+  const handlePermanentDelete = async (reportId: string) => {
+    if (!window.confirm('Permanently delete this report? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      setBusyReportId(reportId);
+      await permanentlyDeleteReport(reportId);
+      setReports(prev => prev.filter(report => report.id !== reportId));
+    } catch (err) {
+      console.error('Error permanently deleting report:', err);
+      alert('Failed to delete report. Please try again.');
+    } finally {
+      setBusyReportId(null);
+    }
+  };
+
+  // Expired reports are normally purged by the scheduled job; this runs it now
+  const handlePurgeExpired = async () => {
+    if (!window.confirm('Permanently delete every report past its retention period? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      setIsPurging(true);
+      setError('');
+      const purged = await purgeExpiredReports();
+      setMessage(purged.length > 0
+        ? `Permanently deleted ${purged.length} expired report(s).`
+        : 'No reports are past their retention period.');
+      setReports(prev => prev.filter(report => !purged.includes(report.id)));
+    } catch (err) {
+      console.error('Error purging expired reports:', err);
+      setError('Failed to purge the expired reports. Please try again.');
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  const handleSaveRetention = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setError('');
+      const days = Number(retentionInput);
+      await setTrashRetentionDays(days);
+      setRetentionDays(days);
+      setMessage(`Reports now stay in the trash for ${days} day(s).`);
+    } catch (err) {
+      console.error('Error saving retention:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the retention period.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#111111] text-white">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-4xl mx-auto px-4 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-[#c0ff54]">TRASH</h1>
+              <p className="text-gray-400 mt-2">
+                Deleted reports are kept for {retentionDays} day(s) and can be restored until then.
+              </p>
+            </div>
+            <Link href="/" className="text-[#c0ff54] hover:text-[#9adf21]">
+              Return to Dashboard
+            </Link>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="p-3 bg-[#1a1a1a] text-gray-300 rounded-md border border-[#333333]">
+              {message}
+            </div>
+          )}
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">RETENTION</h2>
+            <form onSubmit={handleSaveRetention} className="flex flex-wrap items-center gap-3 text-sm">
+              <label htmlFor="retentionDays" className="text-gray-300">Keep deleted reports for</label>
+              <input
+                id="retentionDays"
+                type="number"
+                min={1}
+                step={1}
+                value={retentionInput}
+                onChange={(e) => setRetentionInput(e.target.value)}
+                className="w-24 px-2 py-1 border border-[#333333] rounded-md bg-[#232323] text-white focus:outline-none focus:ring-1 focus:ring-[#c0ff54]"
+              />
+              <span className="text-gray-300">days</span>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-[#333333] text-white rounded-md hover:bg-[#444444] font-medium"
+              >
+                SAVE
+              </button>
+            </form>
+            <div className="flex flex-wrap items-center gap-3 text-sm mt-4">
+              <button
+                type="button"
+                onClick={handlePurgeExpired}
+                disabled={isPurging}
+                className="px-4 py-2 bg-red-800 text-white rounded-md hover:bg-red-700 font-medium disabled:opacity-50"
+              >
+                {isPurging ? 'PURGING...' : 'PURGE EXPIRED NOW'}
+              </button>
+              <span className="text-gray-500">Expired reports are otherwise purged by the scheduled purge job.</span>
+            </div>
+          </section>
+
+          <section className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-[#333333]">
+            <h2 className="text-lg font-medium text-[#c0ff54] mb-4">DELETED REPORTS</h2>
+            {loading ? (
+              <p className="text-gray-400">Loading trash...</p>
+            ) : reports.length === 0 ? (
+              <p className="text-gray-400">The trash is empty.</p>
+            ) : (
+              <ul className="space-y-3">
+                {reports.map(report => {
+                  const purgeDate = getPurgeDate(report, retentionDays);
+
+                  return (
+                    <li
+                      key={report.id}
+                      className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 bg-[#232323] rounded-md p-4 border border-[#333333]"
+                    >
+                      <div>
+                        <div className="text-gray-200 font-medium">
+                          {report.userId || 'Unnamed'} - Week Ending: {report.weekEndingDate.toLocaleDateString()}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {report.status === 'pending' ? 'Pending' : 'Submitted'} report, deleted on {report.deletedAt?.toLocaleDateString()}
+                          {purgeDate && `, purged after ${purgeDate.toLocaleDateString()}`}
+                        </div>
+                      </div>
+                      <div className="flex space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => handleRestore(report.id)}
+                          disabled={busyReportId === report.id}
+                          className="px-3 py-1.5 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] text-sm font-medium disabled:opacity-50"
+                        >
+                          RESTORE
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handlePermanentDelete(report.id)}
+                          disabled={busyReportId === report.id}
+                          className="px-3 py-1.5 bg-red-800 text-white rounded-md hover:bg-red-700 text-sm font-medium disabled:opacity-50"
+                        >
+                          DELETE FOREVER
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        </div>
+      </main>
+
+      <footer className="bg-black py-6 border-t border-[#333333]">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-500 text-sm">
+          <p>&copy; {new Date().getFullYear()} TERRASYNC. ALL RIGHTS RESERVED.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
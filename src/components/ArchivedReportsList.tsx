@@ -2,17 +2,9 @@
 
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import { getArchivedReports, getPreviousArchivedReports, type FirestoreDocRef } from '@/lib/services';
+import { getArchivedReports, getPreviousArchivedReports, unarchiveReport, unarchiveReports } from '@/lib/services';
 import type { WeeklyReport } from '@/types';
-import { doc, getDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { ArrowRightIcon } from '@heroicons/react/24/outline';
-
-// Helper function to safely create document references and fetch the snapshot
-const getDocumentSnapshot = async (id: string): Promise<FirestoreDocRef> => {
-  const docRef = doc(db, 'weeklyReports', id);
-  return await getDoc(docRef);
-};
+import { ArrowRightIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
 
 export const ArchivedReportsList = () => {
   const [reports, setReports] = useState<WeeklyReport[]>([]);
@@ -21,13 +13,15 @@ export const ArchivedReportsList = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [hasMore, setHasMore] = useState(false);
   const [hasPrevious, setHasPrevious] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isUnarchiving, setIsUnarchiving] = useState(false);
   const pageSize = 5;
   
-  // Store the last doc for pagination
-  const [lastDoc, setLastDoc] = useState<any | null>(null);
+  // Store the last report id for pagination
+  const [lastReportId, setLastReportId] = useState<string | null>(null);
   
-  // Store the first docs for each page to enable going back
-  const [firstDocs, setFirstDocs] = useState<any[]>([]);
+  // Store the first report ids for each page to enable going back
+  const [firstReportIds, setFirstReportIds] = useState<string[]>([]);
 
   useEffect(() => {
     fetchReports();
@@ -41,12 +35,11 @@ export const ArchivedReportsList = () => {
       const data = await getArchivedReports(pageSize);
       
       setReports(data.reports);
-      setLastDoc(data.lastDoc || null);
+      setLastReportId(data.lastReportId || null);
       
-      // Store the first doc of the first page
+      // Store the first report of the first page
       if (data.reports.length > 0) {
-        const firstDocSnapshot = await getDocumentSnapshot(data.reports[0].id);
-        setFirstDocs([firstDocSnapshot]);
+        setFirstReportIds([data.reports[0].id]);
       }
       
       setHasMore(data.reports.length === pageSize);
@@ -60,21 +53,48 @@ export const ArchivedReportsList = () => {
     }
   };
 
+  const toggleSelected = (reportId: string) => {
+    setSelectedIds(prev => prev.includes(reportId)
+      ? prev.filter(id => id !== reportId)
+      : [...prev, reportId]);
+  };
+
+  const handleUnarchive = async (reportIds: string[]) => {
+    if (reportIds.length === 0) return;
+
+    try {
+      setIsUnarchiving(true);
+      if (reportIds.length === 1) {
+        await unarchiveReport(reportIds[0]);
+      } else {
+        await unarchiveReports(reportIds);
+      }
+      setSelectedIds([]);
+      
+      // Pages shift once reports leave the archive, so start over from the first page
+      await fetchReports();
+    } catch (error) {
+      console.error('Error unarchiving reports:', error);
+      alert('Failed to unarchive reports. Please try again.');
+    } finally {
+      setIsUnarchiving(false);
+    }
+  };
+
   const loadNextPage = async () => {
-    if (!lastDoc) return;
+    if (!lastReportId) return;
     
     try {
       setLoading(true);
       
-      const data = await getArchivedReports(pageSize, lastDoc);
+      const data = await getArchivedReports(pageSize, lastReportId);
       
       if (data.reports.length > 0) {
         setReports(data.reports);
-        setLastDoc(data.lastDoc || null);
+        setLastReportId(data.lastReportId || null);
         
-        // Store the first doc of this page
-        const firstDocSnapshot = await getDocumentSnapshot(data.reports[0].id);
-        setFirstDocs([...firstDocs, firstDocSnapshot]);
+        // Store the first report of this page
+        setFirstReportIds([...firstReportIds, data.reports[0].id]);
         
         setHasMore(data.reports.length === pageSize);
         setHasPrevious(true);
@@ -91,26 +111,24 @@ export const ArchivedReportsList = () => {
   };
 
   const loadPreviousPage = async () => {
-    if (currentPage <= 1 || firstDocs.length < 2) return;
+    if (currentPage <= 1 || firstReportIds.length < 2) return;
     
     try {
       setLoading(true);
       
-      // Get the first doc of the previous page
-      const prevPageFirstDoc = firstDocs[currentPage - 2];
+      // Get the first report of the current page; the previous page ends right before it
+      const currentPageFirstId = firstReportIds[currentPage - 1];
       
-      const data = await getPreviousArchivedReports(prevPageFirstDoc, pageSize);
+      const data = await getPreviousArchivedReports(currentPageFirstId, pageSize);
       
       if (data.reports.length > 0) {
         setReports(data.reports);
         
-        // Update the last doc to be the last item of the current page for next navigation
-        const lastIndex = data.reports.length - 1;
-        const lastDocSnapshot = await getDocumentSnapshot(data.reports[lastIndex].id);
-        setLastDoc(lastDocSnapshot);
+        // Update the last report to be the last item of the current page for next navigation
+        setLastReportId(data.reports[data.reports.length - 1].id);
         
-        // Remove the current page's first doc from the array
-        setFirstDocs(firstDocs.slice(0, currentPage - 1));
+        // Remove the current page's first report from the array
+        setFirstReportIds(firstReportIds.slice(0, currentPage - 1));
         
         setHasMore(true);
         setHasPrevious(currentPage - 2 > 0);
@@ -142,7 +160,19 @@ export const ArchivedReportsList = () => {
 
   return (
     <div className="space-y-6">
-      <h3 className="text-lg font-medium text-gray-300 mb-4">ARCHIVED REPORTS</h3>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-gray-300">ARCHIVED REPORTS</h3>
+        {selectedIds.length > 0 && (
+          <button
+            type="button"
+            onClick={() => handleUnarchive(selectedIds)}
+            disabled={isUnarchiving}
+            className="px-4 py-2 bg-[#333333] text-white rounded-md hover:bg-[#444444] text-sm font-medium disabled:opacity-50"
+          >
+            {isUnarchiving ? 'UNARCHIVING...' : `UNARCHIVE SELECTED (${selectedIds.length})`}
+          </button>
+        )}
+      </div>
       
       <div className="space-y-4">
         {reports.map((report) => {
@@ -152,12 +182,29 @@ export const ArchivedReportsList = () => {
           return (
             <div key={report.id} className="bg-[#232323] rounded-lg shadow-md p-5 border border-[#333333] mb-4">
               <div className="flex flex-col sm:flex-row justify-between items-start mb-3">
-                <h3 className="text-lg font-medium text-gray-300 mb-2 sm:mb-0">
+                <label className="flex items-center text-lg font-medium text-gray-300 mb-2 sm:mb-0">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(report.id)}
+                    onChange={() => toggleSelected(report.id)}
+                    className="mr-3 accent-[#c0ff54]"
+                  />
                   {report.userId} - Week Ending: {weekEnding}
-                </h3>
-                <span className="text-sm text-gray-500">
-                  Submitted on {submittedOn}
-                </span>
+                </label>
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm text-gray-500">
+                    Submitted on {submittedOn}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleUnarchive([report.id])}
+                    disabled={isUnarchiving}
+                    className="p-1.5 bg-[#333333] text-white rounded hover:bg-[#444444] transition-colors flex items-center justify-center"
+                    title="Unarchive Report"
+                  >
+                    <ArrowUturnLeftIcon className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
               
               <div className="mb-4">
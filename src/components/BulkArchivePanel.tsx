@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { archiveReportsInRange, unarchiveReportsInRange } from '@/lib/services';
+import { parseDateRangeInput } from '@/lib/dateUtils';
+
+type BulkArchivePanelProps = {
+  // Called after reports were archived or unarchived
+  onComplete: () => void;
+};
+
+export const BulkArchivePanel = ({ onComplete }: BulkArchivePanelProps) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const handleBulkAction = async (archive: boolean) => {
+    if (!from && !to) {
+      setMessage('Choose a start or end date first.');
+      return;
+    }
+
+    const range = parseDateRangeInput(from, to);
+    const verb = archive ? 'Archive' : 'Unarchive';
+    if (!window.confirm(`${verb} all submitted reports with a week ending in this range?`)) {
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setMessage('');
+      const count = archive
+        ? await archiveReportsInRange(range)
+        : await unarchiveReportsInRange(range);
+      setMessage(`${archive ? 'Archived' : 'Unarchived'} ${count} report(s).`);
+      onComplete();
+    } catch (err) {
+      console.error(`Error running bulk ${verb.toLowerCase()}:`, err);
+      setMessage(`Failed to ${verb.toLowerCase()} reports. Please try again.`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const inputClassName = 'px-2 py-1 border border-[#333333] rounded-md bg-[#1a1a1a] text-white text-sm focus:outline-none focus:ring-1 focus:ring-[#c0ff54]';
+
+  return (
+    <div className="bg-[#232323] rounded-lg p-4 border border-[#333333]">
+      <div className="text-sm font-medium text-gray-400 mb-3">ARCHIVE BY WEEK ENDING DATE</div>
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+        <label htmlFor="bulkArchiveFrom">From</label>
+        <input
+          id="bulkArchiveFrom"
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className={inputClassName}
+        />
+        <label htmlFor="bulkArchiveTo">to</label>
+        <input
+          id="bulkArchiveTo"
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className={inputClassName}
+        />
+        <button
+          type="button"
+          onClick={() => handleBulkAction(true)}
+          disabled={isWorking}
+          className="px-3 py-1.5 bg-blue-800 text-white rounded-md hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+        >
+          ARCHIVE RANGE
+        </button>
+        <button
+          type="button"
+          onClick={() => handleBulkAction(false)}
+          disabled={isWorking}
+          className="px-3 py-1.5 bg-[#333333] text-white rounded-md hover:bg-[#444444] text-sm font-medium disabled:opacity-50"
+        >
+          UNARCHIVE RANGE
+        </button>
+      </div>
+      {message && <p className="text-sm text-gray-400 mt-2">{message}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { subscribeToReportPresence } from '@/lib/presence';
+
+type EditingPresenceProps = {
+  reportId: string;
+  className?: string;
+};
+
+// Format editor names as "A", "A and B" or "A, B and C"
+const formatNames = (names: string[]) => {
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+};
+
+// Shows who else currently has the report open for editing; renders nothing when nobody does
+export const EditingPresence = ({ reportId, className = '' }: EditingPresenceProps) => {
+  const [editors, setEditors] = useState<string[]>([]);
+
+  useEffect(() => {
+    return subscribeToReportPresence(reportId, setEditors);
+  }, [reportId]);
+
+  if (editors.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex items-center text-sm text-yellow-300 ${className}`}>
+      <span className="w-2 h-2 rounded-full bg-yellow-300 animate-pulse mr-2" aria-hidden="true" />
+      {formatNames(editors)} {editors.length === 1 ? 'is' : 'are'} currently editing
+    </div>
+  );
+};
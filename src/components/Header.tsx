@@ -4,9 +4,11 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
 import { ArrowTrendingUpIcon } from '@heroicons/react/24/solid';
-import { createPendingReport, getCurrentWeekAnyReportGlobal } from '@/lib/services';
+import { openCurrentWeekReport } from '@/lib/services';
 import { useState } from 'react';
 import * as StorageUtils from '@/lib/storageUtils';
+import { isEditableStatus } from '@/lib/reviewWorkflow';
+import type { WeeklyReport } from '@/types';
 
 export const Header = () => {
   const router = useRouter();
@@ -14,7 +16,8 @@ export const Header = () => {
   const [menuOpen, setMenuOpen] = useState(false);
   const [showDialog, setShowDialog] = useState(false);
   const [existingReportId, setExistingReportId] = useState('');
-  const [existingReportStatus, setExistingReportStatus] = useState('');
+  const [existingReportStatus, setExistingReportStatus] = useState<WeeklyReport['status']>('pending');
+  const [existingReportDeleted, setExistingReportDeleted] = useState(false);
 
   const handleCreateReport = async () => {
     try {
@@ -28,23 +31,21 @@ export const Header = () => {
         return;
       }
       
-      // Check if ANY report exists for this week (from any user)
-      const existingReport = await getCurrentWeekAnyReportGlobal();
-      
-      if (existingReport) {
+      // Each user has one report per week, including archived and trashed ones
+      const { report, created } = await openCurrentWeekReport(userName);
+
+      if (!created) {
         // If a report already exists, show dialog instead of creating a new one
-        setExistingReportId(existingReport.id);
-        setExistingReportStatus(existingReport.status);
+        setExistingReportId(report.id);
+        setExistingReportStatus(report.status);
+        setExistingReportDeleted(report.deletedAt !== null);
         setShowDialog(true);
         setIsCreating(false);
         return;
       }
-      
-      // Create a pending report for the user
-      const pendingReport = await createPendingReport(userName);
-      
+
       // Navigate to the edit page for the newly created report
-      router.push(`/reports/${pendingReport.id}/edit`);
+      router.push(`/reports/${report.id}/edit`);
     } catch (error) {
       console.error('Error creating report:', error);
       alert('Failed to create report. Please try again.');
@@ -57,9 +58,12 @@ export const Header = () => {
   };
   
   const handleViewExistingReport = () => {
-    const url = existingReportStatus === 'pending' 
-      ? `/reports/${existingReportId}/edit` 
-      : `/reports/${existingReportId}`;
+    // Trashed reports are only shown in the trash, where they can be restored
+    const url = existingReportDeleted
+      ? '/trash'
+      : isEditableStatus(existingReportStatus)
+        ? `/reports/${existingReportId}/edit`
+        : `/reports/${existingReportId}`;
     
     router.push(url);
     setShowDialog(false);
@@ -95,9 +99,11 @@ export const Header = () => {
             </div>
             <h2 className="text-xl font-bold text-[#c0ff54] mb-3">REPORT ALREADY EXISTS</h2>
             <p className="text-gray-300 mb-4">
-              {existingReportStatus === 'pending' 
-                ? 'There is already a pending report for this week. Would you like to continue working on it?' 
-                : 'A report has already been submitted for this week. Would you like to view it?'}
+              {existingReportDeleted
+                ? 'Your report for this week is in the trash. Restore it from the trash to work on it again.'
+                : isEditableStatus(existingReportStatus)
+                  ? 'You already have a pending report for this week. Would you like to continue working on it?'
+                  : 'You have already submitted your report for this week. Would you like to view it?'}
             </p>
             <div className="flex flex-col sm:flex-row gap-3 justify-end">
               <button
@@ -112,7 +118,7 @@ export const Header = () => {
                 onClick={handleViewExistingReport}
                 className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium"
               >
-                {existingReportStatus === 'pending' ? 'CONTINUE REPORT' : 'VIEW REPORT'}
+                {existingReportDeleted ? 'OPEN TRASH' : isEditableStatus(existingReportStatus) ? 'CONTINUE REPORT' : 'VIEW REPORT'}
               </button>
             </div>
           </div>
@@ -188,6 +194,30 @@ export const Header = () => {
             >
               ANALYTICS
             </Link>
+            <Link
+              href="/search"
+              className="text-white hover:text-[#c0ff54] px-3 py-2 rounded-md text-sm font-medium"
+            >
+              SEARCH
+            </Link>
+            <Link
+              href="/team"
+              className="text-white hover:text-[#c0ff54] px-3 py-2 rounded-md text-sm font-medium"
+            >
+              TEAM
+            </Link>
+            <Link
+              href="/compliance"
+              className="text-white hover:text-[#c0ff54] px-3 py-2 rounded-md text-sm font-medium"
+            >
+              COMPLIANCE
+            </Link>
+            <Link
+              href="/reviews"
+              className="text-white hover:text-[#c0ff54] px-3 py-2 rounded-md text-sm font-medium"
+            >
+              REVIEWS
+            </Link>
             <button
               onClick={handleCreateReport}
               disabled={isCreating}
@@ -217,6 +247,34 @@ export const Header = () => {
               >
                 ANALYTICS
               </Link>
+              <Link
+                href="/search"
+                className="text-white hover:text-[#c0ff54] block px-3 py-2 rounded-md text-base font-medium"
+                onClick={() => setMenuOpen(false)}
+              >
+                SEARCH
+              </Link>
+              <Link
+                href="/team"
+                className="text-white hover:text-[#c0ff54] block px-3 py-2 rounded-md text-base font-medium"
+                onClick={() => setMenuOpen(false)}
+              >
+                TEAM
+              </Link>
+              <Link
+                href="/compliance"
+                className="text-white hover:text-[#c0ff54] block px-3 py-2 rounded-md text-base font-medium"
+                onClick={() => setMenuOpen(false)}
+              >
+                COMPLIANCE
+              </Link>
+              <Link
+                href="/reviews"
+                className="text-white hover:text-[#c0ff54] block px-3 py-2 rounded-md text-base font-medium"
+                onClick={() => setMenuOpen(false)}
+              >
+                REVIEWS
+              </Link>
               <button
                 onClick={() => {
                   setMenuOpen(false);
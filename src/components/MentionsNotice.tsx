@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { subscribeToMentions, type ReportComment } from '@/lib/comments';
+import { getCurrentUserName } from '@/lib/currentUser';
+
+// Unresolved comments that mention the current user
+export const MentionsNotice = () => {
+  const [mentions, setMentions] = useState<ReportComment[]>([]);
+
+  useEffect(() => {
+    const userName = getCurrentUserName();
+    if (!userName) return;
+    return subscribeToMentions(
+      userName,
+      setMentions,
+      err => console.error('Error loading mentions:', err)
+    );
+  }, []);
+
+  if (mentions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-3 bg-blue-900/30 text-blue-200 rounded-md border border-blue-800 text-sm">
+      <span>
+        {mentions.length === 1
+          ? 'You were mentioned in 1 open comment.'
+          : `You were mentioned in ${mentions.length} open comments.`}
+      </span>
+      <ul className="mt-3 space-y-1">
+        {mentions.map(comment => (
+          <li key={comment.id} className="text-xs text-blue-100/80">
+            <Link href={`/reports/${comment.reportId}`} className="hover:text-white">
+              {comment.author} on {comment.createdAt.toLocaleDateString()}: {comment.body.length > 80 ? `${comment.body.slice(0, 80)}...` : comment.body}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
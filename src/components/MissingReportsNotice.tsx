@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getWeekDatesForId } from '@/lib/dateUtils';
+import { getCompliance, getRecentWeekIds, SUBMISSION_STATUS_LABELS, type ComplianceEntry } from '@/lib/deadlines';
+
+// Weeks checked for missing reports, including the current one
+const CHECKED_WEEKS = 2;
+
+export const MissingReportsNotice = () => {
+  const [missing, setMissing] = useState<ComplianceEntry[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCompliance(getRecentWeekIds(CHECKED_WEEKS))
+      .then(entries => {
+        if (cancelled) return;
+        setMissing(entries.filter(entry => entry.status === 'missing' || entry.status === 'overdue'));
+      })
+      .catch(err => console.error('Error checking for missing reports:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (missing.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-3 bg-red-900/30 text-red-300 rounded-md border border-red-800 text-sm">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+        <span>
+          {missing.length === 1
+            ? '1 report is past its deadline.'
+            : `${missing.length} reports are past their deadline.`}
+        </span>
+        <Link href="/compliance" className="text-red-400 hover:text-red-200 font-medium">
+          VIEW COMPLIANCE
+        </Link>
+      </div>
+      <ul className="mt-3 space-y-1">
+        {missing.map(entry => (
+          <li key={`${entry.userId}-${entry.weekId}`} className="text-xs text-red-100/80">
+            {entry.userId} - Week Ending: {getWeekDatesForId(entry.weekId).end.toLocaleDateString()} ({SUBMISSION_STATUS_LABELS[entry.status]})
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
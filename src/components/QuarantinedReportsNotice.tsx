@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getQuarantinedReports, subscribeToQuarantine, type QuarantinedReport } from '@/lib/reportQuarantine';
+
+export const QuarantinedReportsNotice = () => {
+  const [quarantined, setQuarantined] = useState<QuarantinedReport[]>([]);
+  const [showDetails, setShowDetails] = useState(false);
+
+  useEffect(() => {
+    setQuarantined(getQuarantinedReports());
+    return subscribeToQuarantine(setQuarantined);
+  }, []);
+
+  if (quarantined.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-3 bg-yellow-900/30 text-yellow-300 rounded-md border border-yellow-800 text-sm">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+        <span>
+          {quarantined.length === 1
+            ? '1 report could not be loaded because its data is invalid.'
+            : `${quarantined.length} reports could not be loaded because their data is invalid.`}
+        </span>
+        <button
+          type="button"
+          onClick={() => setShowDetails(!showDetails)}
+          className="text-yellow-400 hover:text-yellow-200 font-medium"
+        >
+          {showDetails ? 'HIDE DETAILS' : 'SHOW DETAILS'}
+        </button>
+      </div>
+
+      {showDetails && (
+        <ul className="mt-3 space-y-2">
+          {quarantined.map(report => (
+            <li key={report.id} className="bg-black/20 p-2 rounded">
+              <div className="font-mono text-xs text-yellow-200">{report.id}</div>
+              <ul className="list-disc list-inside text-xs text-yellow-100/80 mt-1">
+                {report.issues.map(issue => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  addComment,
+  canResolveThread,
+  groupThreads,
+  setThreadResolved,
+  splitOnMentions,
+  subscribeToReportComments,
+  type CommentThread,
+  type ReportComment
+} from '@/lib/comments';
+import { getCurrentWeekId } from '@/lib/dateUtils';
+import { getCurrentActor, type Actor } from '@/lib/roles';
+import { getActiveUsers } from '@/lib/weeklyReportJob';
+import type { WeeklyReport } from '@/types';
+
+type ReportCommentsProps = {
+  report: Pick<WeeklyReport, 'id' | 'userId' | 'metrics'>;
+};
+
+// Comment text with its mentions highlighted
+const CommentBody = ({ comment }: { comment: ReportComment }) => {
+  return (
+    <p className="text-gray-300 whitespace-pre-line">
+      {splitOnMentions(comment).map((part, index) => (
+        index % 2 === 1
+          ? <span key={index} className="text-[#c0ff54] font-medium">{part}</span>
+          : part
+      ))}
+    </p>
+  );
+};
+
+const CommentLine = ({ comment }: { comment: ReportComment }) => (
+  <div>
+    <div className="text-xs text-gray-500 mb-1">
+      <span className="text-gray-200 font-medium">{comment.author}</span> on {comment.createdAt.toLocaleString()}
+    </div>
+    <CommentBody comment={comment} />
+  </div>
+);
+
+export const ReportComments = ({ report }: ReportCommentsProps) => {
+  const [comments, setComments] = useState<ReportComment[]>([]);
+  const [actor, setActor] = useState<Actor | null>(null);
+  const [activeUsers, setActiveUsers] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+  const [newMetricId, setNewMetricId] = useState('');
+  const [newBody, setNewBody] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    return subscribeToReportComments(
+      report.id,
+      next => {
+        setComments(next);
+        setLoading(false);
+      },
+      err => {
+        console.error('Error loading comments:', err);
+        setError('Failed to load the comments.');
+        setLoading(false);
+      }
+    );
+  }, [report.id]);
+
+  useEffect(() => {
+    getCurrentActor()
+      .then(setActor)
+      .catch(err => console.error('Error loading the current role:', err));
+    getActiveUsers(getCurrentWeekId())
+      .then(setActiveUsers)
+      .catch(err => console.error('Error loading the people to mention:', err));
+  }, []);
+
+  const threads = useMemo(() => groupThreads(comments), [comments]);
+  const visibleThreads = threads.filter(thread => showResolved || !thread.root.resolvedAt);
+  const resolvedCount = threads.length - threads.filter(thread => !thread.root.resolvedAt).length;
+
+  // Anyone who reports or has commented can be mentioned
+  const knownUsers = useMemo(() => {
+    return [...activeUsers, report.userId, ...comments.map(comment => comment.author)];
+  }, [activeUsers, report.userId, comments]);
+
+  const metricTitle = (metricId: string | null) => {
+    if (metricId === null) return 'Whole report';
+    return report.metrics.find(metric => metric.id === metricId)?.title ?? 'Removed metric';
+  };
+
+  const saveComment = async (body: string, options: { metricId?: string | null; parentId?: string | null }) => {
+    try {
+      setIsSaving(true);
+      setError('');
+      await addComment({ reportId: report.id, body, ...options }, knownUsers);
+      return true;
+    } catch (err) {
+      console.error('Error adding comment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add the comment.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleNewThread = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await saveComment(newBody, { metricId: newMetricId || null })) {
+      setNewBody('');
+    }
+  };
+
+  const handleReply = async (thread: CommentThread) => {
+    if (await saveComment(replyBody, { parentId: thread.root.id })) {
+      setReplyBody('');
+      setReplyTo(null);
+    }
+  };
+
+  const handleResolve = async (thread: CommentThread) => {
+    try {
+      setError('');
+      await setThreadResolved(thread.root.id, !thread.root.resolvedAt);
+    } catch (err) {
+      console.error('Error resolving thread:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update the thread.');
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-[#333333] rounded-md bg-[#1a1a1a] text-white text-sm focus:outline-none focus:ring-1 focus:ring-[#c0ff54]';
+
+  return (
+    <div className="space-y-4 text-sm">
+      {error && (
+        <div className="p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-gray-400">Loading comments...</p>
+      ) : (
+        <>
+          {visibleThreads.length === 0 && (
+            <p className="text-gray-400">{threads.length === 0 ? 'No comments yet.' : 'All threads are resolved.'}</p>
+          )}
+
+          {visibleThreads.map(thread => (
+            <div
+              key={thread.root.id}
+              className={`bg-[#232323] rounded-md p-4 border ${thread.root.resolvedAt ? 'border-[#333333] opacity-70' : 'border-[#444444]'}`}
+            >
+              <div className="flex justify-between items-start gap-3 mb-3">
+                <span className="text-xs font-medium text-gray-400 uppercase tracking-wide">
+                  {metricTitle(thread.root.metricId)}
+                  {thread.root.resolvedAt && ` - resolved by ${thread.root.resolvedBy}`}
+                </span>
+                {actor && canResolveThread(thread.root, actor) && (
+                  <button
+                    type="button"
+                    onClick={() => handleResolve(thread)}
+                    className="text-xs text-[#c0ff54] hover:text-[#9adf21] font-medium"
+                  >
+                    {thread.root.resolvedAt ? 'REOPEN' : 'RESOLVE'}
+                  </button>
+                )}
+              </div>
+
+              <CommentLine comment={thread.root} />
+              {thread.replies.length > 0 && (
+                <div className="mt-3 ml-4 pl-4 border-l border-[#333333] space-y-3">
+                  {thread.replies.map(reply => <CommentLine key={reply.id} comment={reply} />)}
+                </div>
+              )}
+
+              {replyTo === thread.root.id ? (
+                <div className="mt-3 space-y-2">
+                  <textarea
+                    value={replyBody}
+                    onChange={(e) => setReplyBody(e.target.value)}
+                    rows={2}
+                    placeholder="Reply, @mention someone"
+                    className={inputClassName}
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleReply(thread)}
+                      disabled={isSaving}
+                      className="px-3 py-1.5 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium disabled:opacity-50"
+                    >
+                      {isSaving ? 'SAVING...' : 'REPLY'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setReplyTo(null)}
+                      className="px-3 py-1.5 bg-[#333333] text-gray-300 rounded-md hover:bg-[#444444]"
+                    >
+                      CANCEL
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setReplyTo(thread.root.id);
+                    setReplyBody('');
+                  }}
+                  className="mt-3 text-xs text-gray-400 hover:text-white font-medium"
+                >
+                  REPLY
+                </button>
+              )}
+            </div>
+          ))}
+
+          {resolvedCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowResolved(!showResolved)}
+              className="text-xs text-gray-400 hover:text-white font-medium"
+            >
+              {showResolved ? 'HIDE RESOLVED THREADS' : `SHOW RESOLVED THREADS (${resolvedCount})`}
+            </button>
+          )}
+        </>
+      )}
+
+      <form onSubmit={handleNewThread} className="space-y-2">
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+          <label htmlFor={`commentMetric-${report.id}`} className="text-gray-300">New comment on</label>
+          <select
+            id={`commentMetric-${report.id}`}
+            value={newMetricId}
+            onChange={(e) => setNewMetricId(e.target.value)}
+            className="px-3 py-2 border border-[#333333] rounded-md bg-[#232323] text-white focus:outline-none focus:ring-1 focus:ring-[#c0ff54]"
+          >
+            <option value="">Whole report</option>
+            {report.metrics.map(metric => (
+              <option key={metric.id} value={metric.id}>{metric.title}</option>
+            ))}
+          </select>
+        </div>
+        <textarea
+          value={newBody}
+          onChange={(e) => setNewBody(e.target.value)}
+          rows={3}
+          placeholder="Leave feedback, @mention someone to notify them"
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium disabled:opacity-50"
+        >
+          {isSaving ? 'SAVING...' : 'COMMENT'}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { MetricData, WeeklyReport } from '@/types';
+import { formatValueFor } from '@/lib/metricValues';
+import { isEditableStatus } from '@/lib/reviewWorkflow';
+
+// The parts of a report that can be edited in the report form
+export type ReportDraft = {
+  name: string;
+  reportText: string;
+  metrics: MetricData[];
+};
+
+type ReportConflictResolverProps = {
+  // The unsaved edits from this browser
+  mine: ReportDraft;
+  // The report as it is stored now
+  theirs: WeeklyReport;
+  onResolve: (merged: ReportDraft) => void;
+  onCancel: () => void;
+};
+
+type ConflictField = {
+  key: string;
+  label: string;
+  mine: string;
+  theirs: string;
+};
+
+type Choice = 'mine' | 'theirs';
+
+const metricKey = (metric: MetricData) => `metric:${metric.id}`;
+
+// List the fields where the stored report differs from the local edits
+const getConflictFields = (mine: ReportDraft, theirs: WeeklyReport): ConflictField[] => {
+  const fields: ConflictField[] = [];
+
+  if (mine.name !== theirs.userId) {
+    fields.push({ key: 'name', label: 'Name', mine: mine.name, theirs: theirs.userId });
+  }
+  if (mine.reportText !== theirs.reportText) {
+    fields.push({ key: 'reportText', label: 'Summary', mine: mine.reportText, theirs: theirs.reportText });
+  }
+
+  for (const metric of mine.metrics) {
+    const stored = theirs.metrics.find(candidate => candidate.id === metric.id);
+    if (stored && (stored.value ?? 0) !== (metric.value ?? 0)) {
+      fields.push({
+        key: metricKey(metric),
+        label: metric.title,
+        mine: formatValueFor(metric, metric.value ?? 0),
+        theirs: formatValueFor(stored, stored.value ?? 0)
+      });
+    }
+  }
+
+  return fields;
+};
+
+/**
+ * Shown when saving a report fails because someone else saved it first.
+ * Lists every field that differs and lets the user pick a version per field.
+ */
+export const ReportConflictResolver = ({ mine, theirs, onResolve, onCancel }: ReportConflictResolverProps) => {
+  const fields = useMemo(() => getConflictFields(mine, theirs), [mine, theirs]);
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+
+  const getChoice = (key: string): Choice => choices[key] ?? 'mine';
+
+  const setAll = (choice: Choice) => {
+    setChoices(Object.fromEntries(fields.map(field => [field.key, choice])));
+  };
+
+  const handleResolve = () => {
+    // Start from the stored metrics so metrics added elsewhere are kept
+    const metrics = theirs.metrics.map(stored => {
+      const local = mine.metrics.find(metric => metric.id === stored.id);
+      if (!local || getChoice(metricKey(stored)) === 'theirs') {
+        return stored;
+      }
+      return {
+        ...stored,
+        value: local.value,
+        completed: (local.value ?? 0) >= (stored.targetValue ?? 0)
+      };
+    });
+
+    onResolve({
+      name: getChoice('name') === 'mine' ? mine.name : theirs.userId,
+      reportText: getChoice('reportText') === 'mine' ? mine.reportText : theirs.reportText,
+      metrics
+    });
+  };
+
+  const optionClassName = (selected: boolean) => `w-full text-left p-2 rounded-md border text-sm whitespace-pre-line ${
+    selected
+      ? 'border-[#c0ff54] bg-[#c0ff54]/10 text-white'
+      : 'border-[#333333] bg-[#1a1a1a] text-gray-400 hover:border-[#555555]'
+  }`;
+
+  return (
+    <div className="bg-[#1a1a1a] rounded-lg shadow-md p-6 border border-yellow-800 mb-6">
+      <h2 className="text-xl font-bold text-yellow-300 mb-2">THIS REPORT WAS CHANGED BY SOMEONE ELSE</h2>
+      <p className="text-gray-300 mb-4">
+        Your changes were not saved because a newer version of this report exists.
+        Choose which value to keep for each field, then save again.
+      </p>
+
+      {!isEditableStatus(theirs.status) && (
+        <p className="text-yellow-300 text-sm mb-4">The report has already been submitted in the meantime.</p>
+      )}
+      {theirs.deletedAt && (
+        <p className="text-yellow-300 text-sm mb-4">The report has been moved to the trash in the meantime.</p>
+      )}
+
+      {fields.length === 0 ? (
+        <p className="text-gray-400 mb-4">Your edits match the saved report, nothing needs to be merged.</p>
+      ) : (
+        <>
+          <div className="flex space-x-2 mb-4">
+            <button
+              type="button"
+              onClick={() => setAll('mine')}
+              className="px-3 py-1.5 bg-[#333333] text-white rounded-md hover:bg-[#444444] text-xs font-medium"
+            >
+              KEEP ALL MINE
+            </button>
+            <button
+              type="button"
+              onClick={() => setAll('theirs')}
+              className="px-3 py-1.5 bg-[#333333] text-white rounded-md hover:bg-[#444444] text-xs font-medium"
+            >
+              USE ALL SAVED
+            </button>
+          </div>
+
+          <div className="space-y-4 mb-6">
+            {fields.map(field => (
+              <div key={field.key}>
+                <div className="text-sm font-medium text-gray-300 mb-2">{field.label}</div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setChoices(prev => ({ ...prev, [field.key]: 'mine' }))}
+                    className={optionClassName(getChoice(field.key) === 'mine')}
+                  >
+                    <span className="block text-xs text-gray-500 mb-1">MY VERSION</span>
+                    {field.mine || '-'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setChoices(prev => ({ ...prev, [field.key]: 'theirs' }))}
+                    className={optionClassName(getChoice(field.key) === 'theirs')}
+                  >
+                    <span className="block text-xs text-gray-500 mb-1">SAVED VERSION</span>
+                    {field.theirs || '-'}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3 justify-end">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-[#333333] text-gray-300 rounded-md hover:bg-[#444444]"
+        >
+          DISCARD MY CHANGES
+        </button>
+        <button
+          type="button"
+          onClick={handleResolve}
+          className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium"
+        >
+          APPLY MERGE
+        </button>
+      </div>
+    </div>
+  );
+};
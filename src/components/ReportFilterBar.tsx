@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { parseDateRangeInput } from '@/lib/dateUtils';
+import type { ActiveReportFilters, ActiveReportsRequest } from '@/lib/services';
+import type { ReportStatus } from '@/types';
+
+type ReportFilterBarProps = {
+  onChange: (request: Pick<ActiveReportsRequest, 'filters' | 'sort'>) => void;
+};
+
+const SORT_OPTIONS: { id: string; label: string; sort: NonNullable<ActiveReportsRequest['sort']> }[] = [
+  { id: 'week-desc', label: 'Newest week first', sort: { field: 'weekEndingDate', direction: 'desc' } },
+  { id: 'week-asc', label: 'Oldest week first', sort: { field: 'weekEndingDate', direction: 'asc' } },
+  { id: 'created-desc', label: 'Recently created', sort: { field: 'createdAt', direction: 'desc' } },
+  { id: 'created-asc', label: 'First created', sort: { field: 'createdAt', direction: 'asc' } }
+];
+
+export const ReportFilterBar = ({ onChange }: ReportFilterBarProps) => {
+  const [userId, setUserId] = useState('');
+  const [status, setStatus] = useState<ReportStatus | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [sortId, setSortId] = useState(SORT_OPTIONS[0].id);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const filters: ActiveReportFilters = {};
+    if (userId.trim()) filters.userId = userId.trim();
+    if (status) filters.status = status;
+    if (from || to) filters.weekEndingDate = parseDateRangeInput(from, to);
+
+    const sort = SORT_OPTIONS.find(option => option.id === sortId)?.sort;
+    onChange({ filters, sort });
+  };
+
+  const handleReset = () => {
+    setUserId('');
+    setStatus('');
+    setFrom('');
+    setTo('');
+    setSortId(SORT_OPTIONS[0].id);
+    onChange({});
+  };
+
+  const inputClassName = 'px-2 py-1 border border-[#333333] rounded-md bg-[#1a1a1a] text-white text-sm focus:outline-none focus:ring-1 focus:ring-[#c0ff54]';
+
+  return (
+    <form onSubmit={handleApply} className="bg-[#232323] rounded-lg p-4 border border-[#333333]">
+      <div className="text-sm font-medium text-gray-400 mb-3">FILTER REPORTS</div>
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+        <input
+          type="text"
+          aria-label="Name"
+          placeholder="Name"
+          value={userId}
+          onChange={(e) => setUserId(e.target.value)}
+          className={inputClassName}
+        />
+        <select
+          aria-label="Status"
+          value={status}
+          onChange={(e) => setStatus(e.target.value as ReportStatus | '')}
+          className={inputClassName}
+        >
+          <option value="">All statuses</option>
+          <option value="pending">Pending</option>
+          <option value="submitted">Submitted</option>
+          <option value="under-review">Under review</option>
+          <option value="approved">Approved</option>
+          <option value="returned">Returned</option>
+        </select>
+        <label htmlFor="filterFrom">Week ending from</label>
+        <input
+          id="filterFrom"
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className={inputClassName}
+        />
+        <label htmlFor="filterTo">to</label>
+        <input
+          id="filterTo"
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className={inputClassName}
+        />
+        <select
+          aria-label="Sort"
+          value={sortId}
+          onChange={(e) => setSortId(e.target.value)}
+          className={inputClassName}
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className="px-3 py-1.5 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] text-sm font-medium"
+        >
+          APPLY
+        </button>
+        <button
+          type="button"
+          onClick={handleReset}
+          className="px-3 py-1.5 bg-[#333333] text-white rounded-md hover:bg-[#444444] text-sm font-medium"
+        >
+          RESET
+        </button>
+      </div>
+    </form>
+  );
+};
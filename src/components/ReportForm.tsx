@@ -1,10 +1,43 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
-import { submitWeeklyReport, submitPendingReport, DEFAULT_METRICS, calculateMonthlyProgress, updateReport } from '@/lib/services';
+import {
+  submitWeeklyReport,
+  submitPendingReport,
+  calculateMonthlyProgress,
+  updateReport,
+  getReportById,
+  isReportConflictError,
+  isReportExistsError
+} from '@/lib/services';
 import type { MetricData, WeeklyReport } from '@/types';
 import Image from 'next/image';
+import { ReportConflictResolver, type ReportDraft } from './ReportConflictResolver';
+import { EditingPresence } from './EditingPresence';
+import { trackReportPresence } from '@/lib/presence';
+import { getCurrentAuthor } from '@/lib/currentUser';
+import { getCurrentWeekId } from '@/lib/dateUtils';
+import { getPeriodPacing } from '@/lib/fiscalCalendar';
+import {
+  getMetricDefinitions,
+  getTargetForWeek,
+  isMetricActiveInWeek,
+  toReportMetric,
+  type MetricDefinition
+} from '@/lib/metricDefinitions';
+import { applyFormulas } from '@/lib/metricFormulas';
+import { formatMetricValue, getValueFormat, getValueStep, parseMetricValue, validateMetricValues } from '@/lib/metricValues';
+import { loadOrganizationSettings } from '@/lib/orgSettings';
+import { EMPTY_QUOTA_BOOK, findQuota, loadQuotaBook, type QuotaBook } from '@/lib/quotas';
+import {
+  describeAvailability,
+  getAvailability,
+  getTimeOffEntries,
+  isProratedMetric,
+  prorateTarget,
+  type TimeOffEntry
+} from '@/lib/timeOff';
 
 type ReportFormProps = {
   pendingReport?: WeeklyReport | null;
@@ -13,33 +46,70 @@ type ReportFormProps = {
 export const ReportForm = ({ pendingReport }: ReportFormProps) => {
   const [name, setName] = useState(pendingReport?.userId || '');
   const [reportText, setReportText] = useState(pendingReport?.reportText || '');
-  const [metrics, setMetrics] = useState<MetricData[]>(pendingReport?.metrics || DEFAULT_METRICS);
+  const [metrics, setMetrics] = useState<MetricData[]>(pendingReport?.metrics || []);
+  // The metric registry, for the metrics and targets of the report's week
+  const [definitions, setDefinitions] = useState<MetricDefinition[]>([]);
+  // Individual quotas, which override the registry's targets for the rep
+  const [quotas, setQuotas] = useState<QuotaBook>(EMPTY_QUOTA_BOOK);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
   const [monthlyProgress, setMonthlyProgress] = useState<Record<string, { value: number; targetValue: number; frequency: string }>>({});
+  // Position of the report's week within its monthly (fiscal) period
+  const [pacing, setPacing] = useState({ weekId: '', weekIds: [] as string[], weekNumber: 1, weekCount: 4, periodLabel: '' });
+  // Holidays and time off, used to prorate the targets
+  const [timeOff, setTimeOff] = useState<TimeOffEntry[]>([]);
+  // Version of the stored report these edits are based on
+  const [baseVersion, setBaseVersion] = useState(pendingReport?.version);
+  // The newer stored report when a save was rejected as stale
+  const [conflictReport, setConflictReport] = useState<WeeklyReport | null>(null);
+  const [notice, setNotice] = useState('');
   const router = useRouter();
 
-  // Helper function to get default target values based on metric title - memoized to avoid dependency issues
+  // Helper function to get default target values from the metric registry, by metric title, as in force in the report's week
   const getDefaultTargetValue = useCallback((title: string): number => {
-    const defaultMetric = DEFAULT_METRICS.find(m => m.title === title);
-    return defaultMetric?.targetValue || 0;
-  }, []);
+    const definition = definitions.find(d => d.title === title);
+    return definition && pacing.weekId ? getTargetForWeek(definition, pacing.weekId).targetValue : 0;
+  }, [definitions, pacing.weekId]);
 
   // If the pending report changes, update form fields
   useEffect(() => {
     const initializeForm = async () => {
+      // Registry metrics reported in the report's week
+      let weekDefinitions: MetricDefinition[] = [];
+      let weekId = pendingReport?.weekId ?? '';
+      try {
+        // Period boundaries come from the organization's fiscal calendar
+        await loadOrganizationSettings();
+        weekId = pendingReport?.weekId ?? getCurrentWeekId();
+        const { weekNumber, weekCount, period } = getPeriodPacing(weekId);
+        setPacing({ weekId, weekIds: period.weekIds, weekNumber, weekCount, periodLabel: period.label });
+        setTimeOff(await getTimeOffEntries());
+        setQuotas(await loadQuotaBook());
+        const registry = await getMetricDefinitions();
+        setDefinitions(registry);
+        weekDefinitions = registry.filter(definition => isMetricActiveInWeek(definition, weekId));
+      } catch (err) {
+        console.error('Error loading the reporting calendar:', err);
+      }
+      
       if (pendingReport) {
         setName(pendingReport.userId || '');
         setReportText(pendingReport.reportText || '');
+        setBaseVersion(pendingReport.version);
         
-        // Ensure metrics have targetValue set correctly
-        const updatedMetrics = pendingReport.metrics && pendingReport.metrics.length > 0
-          ? pendingReport.metrics.map(metric => ({
-              ...metric,
-              targetValue: metric.targetValue || getDefaultTargetValue(metric.title)
-            }))
-          : DEFAULT_METRICS;
+        // While the report is edited its targets follow the registry's target in force in its week,
+        // so a target change dated back to that week applies to it too
+        const reportMetrics = (pendingReport.metrics ?? []).map(metric => {
+          const definition = weekDefinitions.find(d => d.title === metric.title);
+          return definition
+            ? { ...metric, ...getTargetForWeek(definition, weekId) }
+            : { ...metric, targetValue: metric.targetValue || 0 };
+        });
+        // Metrics added to the registry after the report was created are collected too
+        const addedMetrics = weekDefinitions
+          .filter(definition => !reportMetrics.some(metric => metric.id === definition.id || metric.title === definition.title))
+          .map(definition => toReportMetric(definition, weekId));
         
         // Fetch monthly progress data if we have a username
         if (pendingReport.userId) {
@@ -51,30 +121,67 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
           }
         }
           
-        setMetrics(updatedMetrics);
+        setMetrics(applyFormulas([...reportMetrics, ...addedMetrics]));
         setLoading(false);
       } else {
+        setMetrics(applyFormulas(weekDefinitions.map(definition => toReportMetric(definition, weekId))));
         setLoading(false);
       }
     };
 
     initializeForm();
-  }, [pendingReport, getDefaultTargetValue]);
+  }, [pendingReport]);
+
+  // Working days available to this rep in the report's week and fiscal period
+  const availability = useMemo(() => {
+    if (!pacing.weekId) return null;
+    const userId = name.trim() || null;
+    return {
+      week: getAvailability(timeOff, userId, [pacing.weekId]),
+      period: getAvailability(timeOff, userId, pacing.weekIds)
+    };
+  }, [timeOff, name, pacing]);
+
+  // The reviewer's request when the report came back for changes
+  const returnedFor = pendingReport?.reviewHistory.filter(event => event.action === 'return').pop();
+
+  // The rep's quota for the metric in the report's week, if they have one
+  const getQuota = (metric: MetricData) => {
+    return pacing.weekId && name.trim() ? findQuota(quotas, metric.title, name, pacing.weekId) : null;
+  };
 
+  // The rep's quota, otherwise the metric's target
+  const getIndividualTarget = (metric: MetricData) => {
+    return getQuota(metric)?.targetValue ?? (metric.targetValue || getDefaultTargetValue(metric.title));
+  };
+
+  // The metric's target, prorated for holidays and time off
+  const getEffectiveTarget = (metric: MetricData) => {
+    const target = getIndividualTarget(metric);
+    if (!availability || !isProratedMetric(metric)) return target;
+    return prorateTarget(target, metric.frequency === 'Monthly' ? availability.period : availability.week);
+  };
+
+  // Let everyone else see that this report is being edited
+  useEffect(() => {
+    if (!pendingReport) return;
+    return trackReportPresence(pendingReport.id, getCurrentAuthor());
+  }, [pendingReport]);
+
+  // Derived metrics are recomputed from the values entered
   const handleMetricValueChange = (id: string, value: number) => {
-    setMetrics(prevMetrics => prevMetrics.map(metric => 
+    setMetrics(prevMetrics => applyFormulas(prevMetrics.map(metric => 
       metric.id === id ? { 
         ...metric, 
         value: value,
-        completed: value >= (metric.targetValue || 0)
+        completed: value >= getEffectiveTarget(metric)
       } : metric
-    ));
+    )));
   };
 
-  // Handle slider change
-  const handleSliderChange = (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = Number.parseInt(e.target.value, 10);
-    handleMetricValueChange(id, value);
+  // Handle slider and exact value changes, rounded to the metric's decimal places
+  const handleValueInput = (metric: MetricData, e: React.ChangeEvent<HTMLInputElement>) => {
+    handleMetricValueChange(metric.id, parseMetricValue(e.target.value, getValueFormat(metric)));
   };
 
   // Handle saving report edits
@@ -84,32 +191,66 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
     try {
       // Using the existing updateReport function to save changes
       await updateReport(pendingReport.id, {
-        userId: name,
         reportText,
-        metrics,
-        status: 'pending' // Ensure it remains pending
-      });
+        metrics
+      }, baseVersion);
     } catch (err) {
+      // A stale save must not be dropped silently
+      if (isReportConflictError(err)) throw err;
       console.error('Error saving report edits:', err);
     }
   };
   
+  // Load the newer stored report so the user can merge their edits into it
+  const showConflict = async () => {
+    if (!pendingReport) return;
+    const latest = await getReportById(pendingReport.id);
+    setConflictReport(latest);
+    setError('');
+  };
+  
+  // Continue editing from a resolved draft on top of the newer stored version
+  const applyDraft = (draft: ReportDraft, message: string) => {
+    if (!conflictReport) return;
+    setName(draft.name);
+    setReportText(draft.reportText);
+    setMetrics(applyFormulas(draft.metrics));
+    setBaseVersion(conflictReport.version);
+    setConflictReport(null);
+    setNotice(message);
+  };
+  
   // Function to handle loading and navigating
-  const navigateWithLoading = async (callback: () => Promise<void>) => {
+  const navigateWithLoading = async (callback: () => Promise<void>): Promise<boolean> => {
     try {
       setLoading(true);
+      setNotice('');
       await callback();
       // We'll let the redirect happen naturally, but with a smoother transition
+      return true;
     } catch (err) {
-      console.error('Error:', err);
-      setError('An error occurred. Please try again.');
+      if (isReportConflictError(err)) {
+        try {
+          await showConflict();
+        } catch (fetchError) {
+          console.error('Error loading the latest report:', fetchError);
+          setError('This report was changed by someone else. Reload the page to see the latest version.');
+        }
+      } else if (isReportExistsError(err)) {
+        setError('You already have a report for this week. Open it from the dashboard to continue.');
+      } else {
+        console.error('Error:', err);
+        setError('An error occurred. Please try again.');
+      }
       setLoading(false);
+      return false;
     }
   };
   
   const handleCancel = async () => {
     if (pendingReport) {
-      await navigateWithLoading(saveEdits);
+      const saved = await navigateWithLoading(saveEdits);
+      if (!saved) return;
     }
     router.push('/');
   };
@@ -127,6 +268,12 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
       return;
     }
     
+    const valueIssues = validateMetricValues(metrics);
+    if (valueIssues.length > 0) {
+      setError(valueIssues.join('. '));
+      return;
+    }
+    
     setError('');
     
     await navigateWithLoading(async () => {
@@ -134,24 +281,16 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
         // Update the existing pending report
         await submitPendingReport(
           pendingReport.id,
-          name,
           reportText,
-          metrics
+          metrics,
+          baseVersion
         );
       } else {
-        // Create a new report
-        const today = new Date();
-        // Get the end of the current week (Saturday)
-        const weekEndDate = new Date(today);
-        const dayOfWeek = today.getDay();
-        const daysToAdd = (6 - dayOfWeek) % 7;
-        weekEndDate.setDate(today.getDate() + daysToAdd);
-        
+        // Create a new report for the current week
         await submitWeeklyReport(
           name,
           reportText,
-          metrics,
-          weekEndDate
+          metrics
         );
       }
       
@@ -167,7 +306,7 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
   // Function to determine if the user is on track, ahead, or behind for a metric
   const getProgressStatus = (metric: MetricData) => {
     const value = metric.value || 0;
-    const target = metric.targetValue || 0;
+    const target = getEffectiveTarget(metric);
     
     // For monthly metrics, consider previous progress
     if (metric.frequency === 'Monthly') {
@@ -181,13 +320,8 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
         if (progressPercentage >= 100) return "ahead";
         if (progressPercentage >= 75) return "on-track";
         
-        // Calculate weekly target (divide monthly target by 4 weeks)
-        // Weekly target calculation - commented out as not currently used
-        // target / 4;
-        const weekNumber = Math.floor((new Date().getDate() - 1) / 7) + 1;
-        
-        // By this week, they should have completed (weekNumber/4) of their target
-        const expectedProgress = (weekNumber / 4) * target;
+        // By this week, they should have completed (weekNumber/weekCount) of their target
+        const expectedProgress = (pacing.weekNumber / pacing.weekCount) * target;
         if (totalValue >= expectedProgress) return "on-track";
         return "behind";
       }
@@ -222,20 +356,11 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
     }
   };
 
-  // Get the current week number (1-4) of the month
-  const getCurrentWeekOfMonth = () => {
-    const today = new Date();
-    return Math.floor((today.getDate() - 1) / 7) + 1;
-  };
-
   // Calculate the suggested value for this week based on monthly target and previous progress
   const getSuggestedWeeklyValue = (metric: MetricData) => {
     if (metric.frequency !== 'Monthly') return 0;
     
-    const targetValue = metric.targetValue || 0;
-    // Weekly target calculation - commented out as not currently used
-    // targetValue / 4;
-    const weekNumber = getCurrentWeekOfMonth();
+    const targetValue = getEffectiveTarget(metric);
     
     // Previous progress for this metric
     const previousProgress = monthlyProgress[metric.title]?.value || 0;
@@ -243,8 +368,8 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
     // How much is still needed for the month
     const remaining = Math.max(0, targetValue - previousProgress);
     
-    // How many weeks left in the month (including this one)
-    const weeksLeft = 5 - weekNumber;
+    // How many weeks left in the period (including this one)
+    const weeksLeft = pacing.weekCount - pacing.weekNumber + 1;
     
     if (weeksLeft <= 0) return 0;
     
@@ -292,18 +417,44 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
           />
         </div>
         
-        {pendingReport && (
+        {pendingReport?.status === 'returned' ? (
+          <div className="mb-6 p-3 bg-orange-900/30 text-orange-200 rounded-md border border-orange-800">
+            {returnedFor
+              ? <>Returned for changes by {returnedFor.by}: {returnedFor.reason}</>
+              : 'This report was returned for changes.'}
+          </div>
+        ) : pendingReport && (
           <div className="mb-6 p-3 bg-[#1d2e17] text-[#9adf21] rounded-md border border-[#3b5824] transition-all duration-300 ease-in-out">
             This report was automatically created for the week ending {new Date(pendingReport.weekEndingDate).toLocaleDateString()}.
           </div>
         )}
         
+        {pendingReport && <EditingPresence reportId={pendingReport.id} className="mb-6" />}
+        
         {error && (
           <div className="mb-6 p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427] transition-all duration-300 ease-in-out animate-fadeIn">
             {error}
           </div>
         )}
         
+        {conflictReport && (
+          <ReportConflictResolver
+            mine={{ name, reportText, metrics }}
+            theirs={conflictReport}
+            onResolve={(merged) => applyDraft(merged, 'Changes merged. Review the report and save again.')}
+            onCancel={() => applyDraft(
+              { name: conflictReport.userId, reportText: conflictReport.reportText, metrics: conflictReport.metrics },
+              'Your changes were discarded. The form now shows the latest saved version.'
+            )}
+          />
+        )}
+        
+        {notice && (
+          <div className="mb-6 p-3 bg-[#1d2e17] text-[#9adf21] rounded-md border border-[#3b5824] transition-all duration-300 ease-in-out animate-fadeIn">
+            {notice}
+          </div>
+        )}
+        
         {success && (
           <div className="mb-6 p-3 bg-[#1d2e17] text-[#9adf21] rounded-md border border-[#3b5824] transition-all duration-300 ease-in-out animate-fadeIn">
             Report submitted successfully! Redirecting to dashboard...
@@ -321,21 +472,39 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
                 type="text"
                 value={name}
                 onChange={(e) => setName(e.target.value)}
-                className="w-full px-3 py-2 border border-[#333333] rounded-md focus:outline-none focus:ring-2 focus:ring-[#c0ff54] bg-[#232323] text-white"
+                // An existing report stays with its author
+                readOnly={!!pendingReport}
+                className="w-full px-3 py-2 border border-[#333333] rounded-md focus:outline-none focus:ring-2 focus:ring-[#c0ff54] bg-[#232323] text-white read-only:text-gray-400"
                 required
               />
             </div>
           </section>
           
           <section className="mb-8">
-            <h3 className="text-xl font-semibold text-[#c0ff54] mb-4">PERFORMANCE METRICS</h3>
+            <h3 className="text-xl font-semibold text-[#c0ff54] mb-1">PERFORMANCE METRICS</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              {pacing.periodLabel && `${pacing.periodLabel}: `}week {pacing.weekNumber} of {pacing.weekCount}
+            </p>
+            {availability && (availability.week.daysOff > 0 || availability.period.daysOff > 0) && (
+              <p className="text-sm text-[#ffbe54] mb-4">
+                {availability.week.daysOff > 0
+                  ? `${describeAvailability(availability.week)} this week. Targets are prorated.`
+                  : `${describeAvailability(availability.period)} this period. Monthly targets are prorated.`}
+              </p>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {metrics.map(metric => {
                 const status = getProgressStatus(metric);
                 const statusColor = getProgressColor(status);
                 const sliderColor = getSliderColor(metric);
                 const value = metric.value || 0;
-                const targetValue = metric.targetValue || getDefaultTargetValue(metric.title);
+                const fullTarget = getIndividualTarget(metric);
+                const targetLabel = `${metric.frequency === 'Monthly' ? 'Month' : 'Week'} ${getQuota(metric) ? 'Quota' : 'Target'}`;
+                const targetValue = getEffectiveTarget(metric);
+                const format = getValueFormat(metric);
+                const formatValue = (amount: number) => formatMetricValue(amount, format);
+                const sliderMin = format.min ?? 0;
+                const sliderMax = format.max ?? Math.max(fullTarget * 2, sliderMin + getValueStep(format));
                 
                 // For monthly metrics, calculate cumulative progress
                 const previousProgress = metric.frequency === 'Monthly' 
@@ -363,21 +532,37 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
                       <div className="mb-2">
                         <div className="flex justify-between text-sm mb-1">
                           <span className="text-gray-400">
-                            {metric.frequency === 'Monthly' 
-                              ? `Month Target: ${targetValue}` 
-                              : `Week Target: ${targetValue}`}
+                            {targetLabel}: {formatValue(targetValue)}
+                            {targetValue !== fullTarget && (
+                              <span className="text-[#ffbe54]"> (of {formatValue(fullTarget)})</span>
+                            )}
                           </span>
                           <span className="text-[#c0ff54]">{Math.round(percentage)}%</span>
                         </div>
                         
+                        {metric.formula ? (
+                          <div>
+                            <div className="w-full bg-[#333333] rounded-lg h-3">
+                              <div
+                                className="h-3 rounded-lg"
+                                style={{ width: `${Math.min(100, percentage)}%`, backgroundColor: sliderColor }}
+                              />
+                            </div>
+                            <div className="flex justify-between text-sm mt-1">
+                              <span className="text-gray-500">Computed</span>
+                              <span className="text-gray-300 font-medium">{formatValue(value)}/{formatValue(targetValue)}</span>
+                            </div>
+                          </div>
+                        ) : (
                         <div className="relative">
                           <input
                             id={`metric-slider-${metric.id}`}
                             type="range"
-                            min="0"
-                            max={targetValue * 2}
+                            min={sliderMin}
+                            max={sliderMax}
+                            step={getValueStep(format)}
                             value={value}
-                            onChange={(e) => handleSliderChange(metric.id, e)}
+                            onChange={(e) => handleValueInput(metric, e)}
                             className="slider-input w-full h-3 rounded-lg appearance-none cursor-pointer"
                             style={{
                               background: `linear-gradient(to right, ${sliderColor} 0%, ${sliderColor} ${percentage}%, #333333 ${percentage}%, #333333 100%)`,
@@ -397,16 +582,17 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
                           `}</style>
 
                           <div className="flex justify-between text-sm mt-1">
-                            <span className="text-gray-500">0</span>
+                            <span className="text-gray-500">{formatValue(sliderMin)}</span>
                             <span className="text-gray-300 font-medium">
-                              {value}/{metric.frequency === 'Weekly' ? targetValue : (suggestedValue || Math.round(targetValue / 4))}
+                              {formatValue(value)}/{formatValue(metric.frequency === 'Weekly' ? targetValue : (suggestedValue || Math.round(targetValue / 4)))}
                               <span className="text-xs text-gray-500 ml-1">
                                 {metric.frequency === 'Weekly' ? '(week)' : '(suggested)'}
                               </span>
                             </span>
-                            <span className="text-gray-500">{targetValue*2}</span>
+                            <span className="text-gray-500">{formatValue(sliderMax)}</span>
                           </div>
                         </div>
+                        )}
                       </div>
                       
                       {metric.frequency === 'Monthly' && (
@@ -424,24 +610,27 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
                             </span>
                           </div>
                           <div className="flex justify-between text-xs">
-                            <span className="text-gray-400">Previous: <span className="text-[#9adf21]">{previousProgress}</span></span>
-                            <span className="text-gray-400">This week: <span className="text-[#9adf21]">{value}</span></span>
-                            <span className="text-gray-400">Total: <span className="text-[#9adf21]">{totalValue}/{targetValue}</span></span>
+                            <span className="text-gray-400">Previous: <span className="text-[#9adf21]">{formatValue(previousProgress)}</span></span>
+                            <span className="text-gray-400">This week: <span className="text-[#9adf21]">{formatValue(value)}</span></span>
+                            <span className="text-gray-400">Total: <span className="text-[#9adf21]">{formatValue(totalValue)}/{formatValue(targetValue)}</span></span>
                           </div>
                         </div>
                       )}
                       
                       <div className="flex items-center mt-4">
-                        <div className="w-24">
+                        <div className="w-28">
                           <label htmlFor={`metric-value-${metric.id}`} className="text-xs text-gray-400 mb-1 block">
-                            Exact Value:
+                            {metric.formula ? 'Computed Value' : 'Exact Value'}{format.unit && ` (${format.unit})`}:
                           </label>
                           <input
                             id={`metric-value-${metric.id}`}
                             type="number"
-                            min="0"
+                            min={format.min ?? undefined}
+                            max={format.max ?? undefined}
+                            step={getValueStep(format)}
                             value={value}
-                            onChange={(e) => handleMetricValueChange(metric.id, Number.parseInt(e.target.value, 10) || 0)}
+                            readOnly={!!metric.formula}
+                            onChange={(e) => handleValueInput(metric, e)}
                             className="w-full px-2 py-1 border border-[#333333] rounded-md focus:outline-none focus:ring-1 focus:ring-[#c0ff54] bg-[#1a1a1a] text-white text-right text-sm"
                           />
                         </div>
@@ -449,6 +638,9 @@ export const ReportForm = ({ pendingReport }: ReportFormProps) => {
                         <div className="ml-4 flex-1">
                           <div className="text-xs text-gray-400 mb-1">Tracking Info:</div>
                           <div className="text-xs text-gray-500">{metric.trackingMethod}</div>
+                          {metric.formula && (
+                            <div className="text-xs text-gray-500 font-mono mt-1">= {metric.formula}</div>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { diffSnapshots, getReportRevisions, type ReportRevision } from '@/lib/revisions';
+
+type ReportHistoryProps = {
+  reportId: string;
+};
+
+const actionLabels: Record<ReportRevision['action'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  submit: 'Submitted',
+  revert: 'Reopened',
+  review: 'Reviewed',
+  archive: 'Archived',
+  unarchive: 'Unarchived',
+  delete: 'Moved to trash',
+  restore: 'Restored',
+  purge: 'Permanently deleted'
+};
+
+export const ReportHistory = ({ reportId }: ReportHistoryProps) => {
+  const [revisions, setRevisions] = useState<ReportRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [fromRevision, setFromRevision] = useState<number>(0);
+  const [toRevision, setToRevision] = useState<number>(0);
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        const history = await getReportRevisions(reportId);
+        setRevisions(history);
+
+        // Compare the latest revision with the one before it by default
+        const latest = history[history.length - 1];
+        setToRevision(latest?.revision ?? 0);
+        setFromRevision(history.length > 1 ? history[history.length - 2].revision : 0);
+      } catch (err) {
+        console.error('Error fetching report history:', err);
+        setError('Failed to load the report history.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+  }, [reportId]);
+
+  const changes = useMemo(() => {
+    const to = revisions.find(revision => revision.revision === toRevision);
+    if (!to) return [];
+    const from = revisions.find(revision => revision.revision === fromRevision);
+    return diffSnapshots(from?.snapshot ?? null, to.snapshot);
+  }, [revisions, fromRevision, toRevision]);
+
+  if (loading) {
+    return <div className="text-gray-400 text-sm">Loading history...</div>;
+  }
+
+  if (error) {
+    return <div className="text-red-400 text-sm">{error}</div>;
+  }
+
+  if (revisions.length === 0) {
+    return <div className="text-gray-400 text-sm">No changes have been recorded for this report yet.</div>;
+  }
+
+  const selectClassName = 'px-2 py-1 border border-[#333333] rounded-md bg-[#1a1a1a] text-white text-sm focus:outline-none focus:ring-1 focus:ring-[#c0ff54]';
+
+  return (
+    <div className="space-y-6">
+      <ol className="space-y-2">
+        {[...revisions].reverse().map(revision => (
+          <li key={revision.id} className="flex flex-col sm:flex-row sm:justify-between text-sm bg-[#232323] border border-[#333333] rounded-md p-3">
+            <div>
+              <span className="text-[#c0ff54] font-medium mr-2">#{revision.revision}</span>
+              <span className="text-gray-200">{actionLabels[revision.action]}</span>
+              <span className="text-gray-400"> by {revision.author}</span>
+              {revision.changedFields.length > 0 && (
+                <div className="text-xs text-gray-500 mt-1">
+                  Changed: {revision.changedFields.join(', ')}
+                </div>
+              )}
+            </div>
+            <span className="text-gray-500 whitespace-nowrap">{revision.createdAt.toLocaleString()}</span>
+          </li>
+        ))}
+      </ol>
+
+      <div>
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-sm text-gray-300">
+          <span>Compare</span>
+          <select
+            aria-label="Older revision"
+            value={fromRevision}
+            onChange={(e) => setFromRevision(Number(e.target.value))}
+            className={selectClassName}
+          >
+            <option value={0}>(empty)</option>
+            {revisions.map(revision => (
+              <option key={revision.id} value={revision.revision}>#{revision.revision}</option>
+            ))}
+          </select>
+          <span>with</span>
+          <select
+            aria-label="Newer revision"
+            value={toRevision}
+            onChange={(e) => setToRevision(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {revisions.map(revision => (
+              <option key={revision.id} value={revision.revision}>#{revision.revision}</option>
+            ))}
+          </select>
+        </div>
+
+        {changes.length === 0 ? (
+          <p className="text-gray-400 text-sm">No differences between these revisions.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-gray-400 border-b border-[#333333]">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Field</th>
+                  <th className="py-2 pr-4 font-medium">Before</th>
+                  <th className="py-2 font-medium">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map(change => (
+                  <tr key={change.field} className="border-b border-[#232323] align-top">
+                    <td className="py-2 pr-4 text-gray-300">{change.field}</td>
+                    <td className="py-2 pr-4 text-red-300 whitespace-pre-line">{change.before || '-'}</td>
+                    <td className="py-2 text-[#c0ff54] whitespace-pre-line">{change.after || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
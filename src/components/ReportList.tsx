@@ -1,75 +1,113 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
-import { getAllReports, deleteReport, archiveReport, createPendingReport, getCurrentWeekAnyReportGlobal } from '@/lib/services';
+import {
+  subscribeToActiveReports,
+  deleteReport,
+  archiveReport,
+  archiveReports,
+  openCurrentWeekReport,
+  type ActiveReportsRequest
+} from '@/lib/services';
+import { getSubmissionStatus, getWeekDeadline } from '@/lib/deadlines';
+import { formatValueFor } from '@/lib/metricValues';
+import { loadOrganizationSettings } from '@/lib/orgSettings';
 import type { WeeklyReport } from '@/types';
+import { isEditableStatus } from '@/lib/reviewWorkflow';
 import { ArchivedReportsList } from './ArchivedReportsList';
+import { BulkArchivePanel } from './BulkArchivePanel';
+import { EditingPresence } from './EditingPresence';
+import { MentionsNotice } from './MentionsNotice';
+import { MissingReportsNotice } from './MissingReportsNotice';
+import { QuarantinedReportsNotice } from './QuarantinedReportsNotice';
+import { ReportFilterBar } from './ReportFilterBar';
+import { ReportStatusBadge } from './ReportStatusBadge';
+import { SubmissionStatusBadge } from './SubmissionStatusBadge';
 import { TrashIcon, ArchiveBoxIcon, ArrowRightIcon } from '@heroicons/react/24/outline';
 import Image from 'next/image';
 
-type ReportListProps = {
-  pendingReport?: WeeklyReport | null;
-};
+// Reports loaded per page; scrolling to the end of the list loads the next one
+const PAGE_SIZE = 10;
 
-export const ReportList = ({ pendingReport }: ReportListProps) => {
+export const ReportList = () => {
   const [reports, setReports] = useState<WeeklyReport[]>([]);
   const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState<Pick<ActiveReportsRequest, 'filters' | 'sort'>>({});
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [hasMore, setHasMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const [error, setError] = useState('');
   const [showArchived, setShowArchived] = useState(false);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
   const [isArchiving, setIsArchiving] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isBulkArchiving, setIsBulkArchiving] = useState(false);
+  // Bumped to remount the archived list after bulk changes
+  const [archivedListKey, setArchivedListKey] = useState(0);
   const [showDialog, setShowDialog] = useState(false);
   const [existingReportId, setExistingReportId] = useState('');
-  const [existingReportStatus, setExistingReportStatus] = useState('');
+  const [existingReportStatus, setExistingReportStatus] = useState<WeeklyReport['status']>('pending');
+  const [existingReportDeleted, setExistingReportDeleted] = useState(false);
+  // Deadlines depend on the organization's calendar settings
+  const [deadlinesLoaded, setDeadlinesLoaded] = useState(false);
 
-  const fetchReports = useCallback(async () => {
-    try {
-      const allReports = await getAllReports();
-      console.log('Fetched all reports:', allReports);
-      setReports(allReports);
-    } catch (err) {
-      console.error('Error fetching reports:', err);
-      setError('Failed to load reports. Please try again later.');
-    } finally {
-      setLoading(false);
-    }
+  useEffect(() => {
+    loadOrganizationSettings()
+      .then(() => setDeadlinesLoaded(true))
+      .catch(err => console.error('Error loading organization settings:', err));
   }, []);
 
-  // Immediately add the pendingReport when it changes
+  // Live list: submissions, archives and new pending reports from anyone show up immediately
   useEffect(() => {
-    if (pendingReport) {
-      console.log('ReportList received pendingReport:', pendingReport);
-      
-      // Add it directly without checking if it exists - we'll handle duplicates below
-      setReports(prevReports => {
-        // Check if the report is already in the list to avoid duplicates
-        const exists = prevReports.some(r => r.id === pendingReport.id);
-        
-        // If it exists, don't add it again
-        if (exists) {
-          console.log('Report already exists in list, not adding duplicate');
-          return prevReports;
-        }
-        
-        console.log('Adding pendingReport to reports list');
-        return [pendingReport, ...prevReports];
-      });
-    }
-  }, [pendingReport]);
+    return subscribeToActiveReports(
+      { ...query, limit },
+      (page) => {
+        setReports(page.reports);
+        setHasMore(page.hasMore);
+        setError('');
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load reports. Please try again later.');
+        setLoading(false);
+      }
+    );
+  }, [query, limit]);
 
+  // Infinite scroll: load the next page once the end of the list comes into view
   useEffect(() => {
-    fetchReports();
-  }, [fetchReports]);
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || showArchived) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setLimit(prev => prev + PAGE_SIZE);
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, showArchived, reports.length]);
+
+  const handleFilterChange = (next: Pick<ActiveReportsRequest, 'filters' | 'sort'>) => {
+    setQuery(next);
+    setLimit(PAGE_SIZE);
+    setSelectedIds([]);
+  };
+
+  const hasFilters = Object.keys(query.filters ?? {}).length > 0;
 
   const handleDelete = async (reportId: string) => {
-    if (window.confirm('Are you sure you want to delete this report? This cannot be undone.')) {
+    if (window.confirm('Move this report to the trash? It can be restored from the trash until it is purged.')) {
       try {
         setIsDeleting(reportId);
         await deleteReport(reportId);
         
-        // Remove the deleted report from the state
+        // Remove the trashed report from the state
         setReports(prev => prev.filter(report => report.id !== reportId));
+        setSelectedIds(prev => prev.filter(id => id !== reportId));
       } catch (err) {
         console.error('Error deleting report:', err);
         alert('Failed to delete report. Please try again.');
@@ -86,6 +124,7 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
       
       // Remove the archived report from the list
       setReports(prev => prev.filter(report => report.id !== reportId));
+      setSelectedIds(prev => prev.filter(id => id !== reportId));
     } catch (err) {
       console.error('Error archiving report:', err);
       alert('Failed to archive report. Please try again.');
@@ -94,6 +133,34 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
     }
   };
 
+  const toggleSelected = (reportId: string) => {
+    setSelectedIds(prev => prev.includes(reportId)
+      ? prev.filter(id => id !== reportId)
+      : [...prev, reportId]);
+  };
+
+  const handleArchiveSelected = async () => {
+    try {
+      setIsBulkArchiving(true);
+      await archiveReports(selectedIds);
+      
+      // Remove the archived reports from the list
+      setReports(prev => prev.filter(report => !selectedIds.includes(report.id)));
+      setSelectedIds([]);
+    } catch (err) {
+      console.error('Error archiving reports:', err);
+      alert('Failed to archive the selected reports. Please try again.');
+    } finally {
+      setIsBulkArchiving(false);
+    }
+  };
+
+  // The active list updates itself; the archived list is paged and must be reloaded
+  const handleBulkComplete = () => {
+    setSelectedIds([]);
+    setArchivedListKey(prev => prev + 1);
+  };
+
   const handleCreateReport = async () => {
     try {
       // Get the username from localStorage
@@ -103,22 +170,20 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
         return;
       }
 
-      // Check if ANY report exists for this week (from any user)
-      const existingReport = await getCurrentWeekAnyReportGlobal();
-      
-      if (existingReport) {
+      // Each user has one report per week, including archived and trashed ones
+      const { report, created } = await openCurrentWeekReport(userName);
+
+      if (!created) {
         // If a report already exists, show dialog instead of creating a new one
-        setExistingReportId(existingReport.id);
-        setExistingReportStatus(existingReport.status);
+        setExistingReportId(report.id);
+        setExistingReportStatus(report.status);
+        setExistingReportDeleted(report.deletedAt !== null);
         setShowDialog(true);
         return;
       }
-      
-      // Create a pending report for the user
-      const pendingReport = await createPendingReport(userName);
-      
+
       // Navigate to the edit page for the newly created report
-      window.location.href = `/reports/${pendingReport.id}/edit`;
+      window.location.href = `/reports/${report.id}/edit`;
     } catch (error) {
       console.error('Error creating report:', error);
       alert('Failed to create report. Please try again.');
@@ -130,9 +195,12 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
   };
   
   const handleViewExistingReport = () => {
-    const url = existingReportStatus === 'pending' 
-      ? `/reports/${existingReportId}/edit` 
-      : `/reports/${existingReportId}`;
+    // Trashed reports are only shown in the trash, where they can be restored
+    const url = existingReportDeleted
+      ? '/trash'
+      : isEditableStatus(existingReportStatus)
+        ? `/reports/${existingReportId}/edit`
+        : `/reports/${existingReportId}`;
     
     window.location.href = url;
     setShowDialog(false);
@@ -146,10 +214,17 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
     return <div className="text-center py-8 text-red-400">{error}</div>;
   }
 
-  if (reports.length === 0 && !showArchived) {
+  if (reports.length === 0 && !showArchived && !hasFilters) {
     return (
       <div className="text-center py-8">
+        <QuarantinedReportsNotice />
         <p className="text-gray-400 mb-4">No reports have been submitted yet.</p>
+        <p className="text-gray-500 text-sm mb-4">
+          Looking for a deleted report? Check the <Link href="/trash" className="text-[#c0ff54] hover:text-[#9adf21]">trash</Link>.
+        </p>
+        <div className="max-w-2xl mx-auto mb-6 text-left">
+          <BulkArchivePanel onComplete={handleBulkComplete} />
+        </div>
         <button 
           type="button"
           onClick={handleCreateReport}
@@ -172,9 +247,11 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
               </div>
               <h2 className="text-xl font-bold text-[#c0ff54] mb-3">REPORT ALREADY EXISTS</h2>
               <p className="text-gray-300 mb-4">
-                {existingReportStatus === 'pending' 
-                  ? 'There is already a pending report for this week. Would you like to continue working on it?' 
-                  : 'A report has already been submitted for this week. Would you like to view it?'}
+                {existingReportDeleted
+                  ? 'Your report for this week is in the trash. Restore it from the trash to work on it again.'
+                  : isEditableStatus(existingReportStatus)
+                    ? 'You already have a pending report for this week. Would you like to continue working on it?'
+                    : 'You have already submitted your report for this week. Would you like to view it?'}
               </p>
               <div className="flex flex-col sm:flex-row gap-3 justify-end">
                 <button
@@ -189,7 +266,7 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
                   onClick={handleViewExistingReport}
                   className="px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium"
                 >
-                  {existingReportStatus === 'pending' ? 'CONTINUE REPORT' : 'VIEW REPORT'}
+                  {existingReportDeleted ? 'OPEN TRASH' : isEditableStatus(existingReportStatus) ? 'CONTINUE REPORT' : 'VIEW REPORT'}
                 </button>
               </div>
             </div>
@@ -200,8 +277,9 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
   }
 
   // Separate reports into pending and submitted
-  const pendingReports = reports.filter(report => report.status === 'pending');
-  const submittedReports = reports.filter(report => report.status === 'submitted');
+  // Reports returned for changes are back with their author
+  const pendingReports = reports.filter(report => isEditableStatus(report.status));
+  const submittedReports = reports.filter(report => !isEditableStatus(report.status));
 
   console.log('Pending reports:', pendingReports.length, 'Submitted reports:', submittedReports.length);
 
@@ -210,32 +288,60 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
       <div className="flex justify-between items-center">
         <h2 className="text-xl font-semibold text-[#c0ff54] mb-4">PERFORMANCE REPORTS</h2>
         
-        <button
-          type="button"
-          onClick={() => setShowArchived(!showArchived)}
-          className="px-4 py-2 bg-[#333333] text-white rounded-md hover:bg-[#444444] focus:outline-none text-sm"
-        >
-          {showArchived ? 'SHOW CURRENT REPORTS' : 'VIEW ARCHIVED REPORTS'}
-        </button>
+        <div className="flex space-x-2">
+          <Link
+            href="/trash"
+            className="px-4 py-2 bg-[#333333] text-white rounded-md hover:bg-[#444444] focus:outline-none text-sm"
+          >
+            TRASH
+          </Link>
+          <button
+            type="button"
+            onClick={() => setShowArchived(!showArchived)}
+            className="px-4 py-2 bg-[#333333] text-white rounded-md hover:bg-[#444444] focus:outline-none text-sm"
+          >
+            {showArchived ? 'SHOW CURRENT REPORTS' : 'VIEW ARCHIVED REPORTS'}
+          </button>
+        </div>
       </div>
       
+      <QuarantinedReportsNotice />
+      
+      <MissingReportsNotice />
+      
+      <MentionsNotice />
+      
+      <BulkArchivePanel onComplete={handleBulkComplete} />
+      
       {showArchived ? (
-        <ArchivedReportsList />
+        <ArchivedReportsList key={archivedListKey} />
       ) : (
         <>
+          <ReportFilterBar onChange={handleFilterChange} />
+          
+          {reports.length === 0 && (
+            <p className="text-center py-8 text-gray-400">No reports match these filters.</p>
+          )}
+          
           {pendingReports.length > 0 && (
             <div className="mb-8">
               <h3 className="text-lg font-medium text-gray-300 mb-4">PENDING REPORTS</h3>
               {pendingReports.map((report) => {
                 const weekEnding = new Date(report.weekEndingDate).toLocaleDateString();
+                const submissionStatus = deadlinesLoaded ? getSubmissionStatus(report) : null;
+                const due = deadlinesLoaded ? getWeekDeadline(report.weekId).due : null;
+                const returnedFor = report.status === 'returned'
+                  ? report.reviewHistory.filter(event => event.action === 'return').pop()
+                  : undefined;
                 
                 return (
                   <div key={report.id} className="bg-[#232323] rounded-lg shadow-md p-5 border border-[#333333] mb-4">
                     <div className="flex flex-col sm:flex-row justify-between items-start mb-3">
                       <div className="mb-2 sm:mb-0">
-                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-900 text-yellow-200 mr-2">
-                          PENDING
-                        </span>
+                        <ReportStatusBadge status={report.status} className="mr-2" />
+                        {submissionStatus === 'overdue' && (
+                          <SubmissionStatusBadge status={submissionStatus} className="mr-2" />
+                        )}
                         <h3 className="text-lg font-medium text-gray-300 inline">
                           Week Ending: {weekEnding}
                         </h3>
@@ -258,10 +364,19 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
                       </div>
                     </div>
                     
+                    {returnedFor && (
+                      <p className="text-orange-200 mb-2">
+                        Returned for changes by {returnedFor.by}: {returnedFor.reason}
+                      </p>
+                    )}
+                    
                     <p className="text-gray-400 mb-4">
-                      This report is waiting to be filled out.
+                      {returnedFor ? 'This report needs changes before it is submitted again.' : 'This report is waiting to be filled out.'}
+                      {due && !returnedFor && ` Due ${due.toLocaleString(undefined, { weekday: 'long', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}.`}
                     </p>
                     
+                    <EditingPresence reportId={report.id} className="mb-4" />
+                    
                     <Link
                       href={`/reports/${report.id}/edit`}
                       className="inline-flex items-center px-4 py-2 bg-[#c0ff54] text-black rounded-md hover:bg-[#9adf21] font-medium"
@@ -276,10 +391,23 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
           
           {submittedReports.length > 0 && (
             <div>
-              <h3 className="text-lg font-medium text-gray-300 mb-4">SUBMITTED REPORTS</h3>
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-medium text-gray-300">SUBMITTED REPORTS</h3>
+                {selectedIds.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={handleArchiveSelected}
+                    disabled={isBulkArchiving}
+                    className="px-4 py-2 bg-blue-800 text-white rounded-md hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+                  >
+                    {isBulkArchiving ? 'ARCHIVING...' : `ARCHIVE SELECTED (${selectedIds.length})`}
+                  </button>
+                )}
+              </div>
               {submittedReports.map((report) => {
                 const weekEnding = new Date(report.weekEndingDate).toLocaleDateString();
-                const submittedOn = new Date(report.createdAt).toLocaleDateString();
+                const submittedOn = new Date(report.submittedAt ?? report.createdAt).toLocaleDateString();
+                const submissionStatus = deadlinesLoaded ? getSubmissionStatus(report) : null;
                 
                 // Calculate overall progress
                 const totalTargetValue = report.metrics.reduce((acc, metric) => acc + (metric.targetValue || 0), 0);
@@ -289,9 +417,21 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
                 return (
                   <div key={report.id} className="bg-[#232323] rounded-lg shadow-md p-5 border border-[#333333] mb-4">
                     <div className="flex flex-col sm:flex-row justify-between items-start mb-3">
-                      <h3 className="text-lg font-medium text-gray-300 mb-2 sm:mb-0">
+                      <label className="flex items-center text-lg font-medium text-gray-300 mb-2 sm:mb-0">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(report.id)}
+                          onChange={() => toggleSelected(report.id)}
+                          className="mr-3 accent-[#c0ff54]"
+                        />
                         {report.userId} - Week Ending: {weekEnding}
-                      </h3>
+                        {report.status !== 'submitted' && (
+                          <ReportStatusBadge status={report.status} className="ml-2" />
+                        )}
+                        {(submissionStatus === 'late' || submissionStatus === 'within-grace') && (
+                          <SubmissionStatusBadge status={submissionStatus} className="ml-2" />
+                        )}
+                      </label>
                       
                       <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3 items-start sm:items-center">
                         <span className="text-sm text-gray-500 whitespace-nowrap">
@@ -363,8 +503,8 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
                               {isCompleted ? '✓' : '○'}
                             </span>
                             <span className="text-gray-300">{metric.title}:</span>
-                            <span className="ml-1 text-[#c0ff54]">{value}</span>
-                            <span className="text-gray-400 ml-1">/{target}</span>
+                            <span className="ml-1 text-[#c0ff54]">{formatValueFor(metric, value)}</span>
+                            <span className="text-gray-400 ml-1">/{formatValueFor(metric, target)}</span>
                           </div>
                         );
                       })}
@@ -382,6 +522,18 @@ export const ReportList = ({ pendingReport }: ReportListProps) => {
               })}
             </div>
           )}
+          
+          {hasMore && (
+            <div ref={loadMoreRef} className="text-center">
+              <button
+                type="button"
+                onClick={() => setLimit(prev => prev + PAGE_SIZE)}
+                className="px-4 py-2 bg-[#333333] text-white rounded-md hover:bg-[#444444] text-sm"
+              >
+                LOAD MORE
+              </button>
+            </div>
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { isReportConflictError, transitionReport } from '@/lib/services';
+import {
+  getAvailableActions,
+  getTransitionError,
+  REVIEW_ACTION_LABELS,
+  REVIEW_TRANSITIONS
+} from '@/lib/reviewWorkflow';
+import { USER_ROLE_LABELS, type Actor } from '@/lib/roles';
+import type { ReviewAction, WeeklyReport } from '@/types';
+import { ReportStatusBadge } from './ReportStatusBadge';
+
+type ReportReviewPanelProps = {
+  report: WeeklyReport;
+  // null while the current user's role is loading
+  actor: Actor | null;
+  onChange: (report: WeeklyReport) => void;
+};
+
+// Submitting and reopening for editing happen on the report form and the page header
+const PANEL_ACTIONS: ReviewAction[] = ['start-review', 'approve', 'return', 'reopen'];
+
+const ACTION_CLASS_NAMES: Record<ReviewAction, string> = {
+  submit: 'bg-[#c0ff54] text-black hover:bg-[#9adf21]',
+  withdraw: 'bg-yellow-900 text-yellow-200 hover:bg-yellow-800',
+  'start-review': 'bg-blue-800 text-white hover:bg-blue-700',
+  approve: 'bg-[#c0ff54] text-black hover:bg-[#9adf21]',
+  return: 'bg-orange-800 text-white hover:bg-orange-700',
+  reopen: 'bg-[#333333] text-white hover:bg-[#444444]'
+};
+
+export const ReportReviewPanel = ({ report, actor, onChange }: ReportReviewPanelProps) => {
+  const [reason, setReason] = useState('');
+  const [busyAction, setBusyAction] = useState<ReviewAction | null>(null);
+  const [error, setError] = useState('');
+
+  const actions = actor
+    ? getAvailableActions(report, actor).filter(action => PANEL_ACTIONS.includes(action))
+    : [];
+
+  const handleAction = async (action: ReviewAction) => {
+    if (!actor) return;
+    const transitionError = getTransitionError(report, action, actor, reason);
+    if (transitionError) {
+      setError(transitionError);
+      return;
+    }
+
+    try {
+      setBusyAction(action);
+      setError('');
+      onChange(await transitionReport(report.id, action, reason, report.version));
+      setReason('');
+    } catch (err) {
+      console.error('Error changing report status:', err);
+      setError(isReportConflictError(err)
+        ? 'This report was changed by someone else. Reload the page to see the latest version.'
+        : err instanceof Error ? err.message : 'Failed to change the report status.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <div className="bg-[#232323] p-4 rounded-md border border-[#333333] text-sm">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <ReportStatusBadge status={report.status} />
+        {actor && (
+          <span className="text-gray-500">
+            Signed in as {actor.userId} ({USER_ROLE_LABELS[actor.role]})
+          </span>
+        )}
+      </div>
+
+      {report.reviewHistory.length === 0 ? (
+        <p className="text-gray-500 mb-3">No review activity yet.</p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {report.reviewHistory.map(event => (
+            <li key={`${event.action}-${event.at.getTime()}`} className="text-gray-300">
+              <span className="text-gray-200 font-medium">{REVIEW_ACTION_LABELS[event.action]}</span>
+              {' '}by {event.by} ({USER_ROLE_LABELS[event.role]}) on {event.at.toLocaleString()}
+              {event.reason && <div className="text-gray-400 whitespace-pre-line mt-0.5">{event.reason}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div className="mb-3 p-3 bg-[#2c1618] text-[#f88e86] rounded-md border border-[#582427]">
+          {error}
+        </div>
+      )}
+
+      {actions.length > 0 && (
+        <div className="space-y-3">
+          <label htmlFor="reviewReason" className="block text-gray-300">
+            Comment{actions.some(action => REVIEW_TRANSITIONS[action].requiresReason) && ' (required to return or reopen)'}
+          </label>
+          <textarea
+            id="reviewReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 border border-[#333333] rounded-md bg-[#1a1a1a] text-white focus:outline-none focus:ring-1 focus:ring-[#c0ff54]"
+          />
+          <div className="flex flex-wrap gap-2">
+            {actions.map(action => (
+              <button
+                key={action}
+                type="button"
+                onClick={() => handleAction(action)}
+                disabled={busyAction !== null}
+                className={`px-4 py-2 rounded-md font-medium disabled:opacity-50 ${ACTION_CLASS_NAMES[action]}`}
+              >
+                {busyAction === action ? 'SAVING...' : REVIEW_TRANSITIONS[action].label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
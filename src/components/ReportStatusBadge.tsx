@@ -0,0 +1,18 @@
+import { REPORT_STATUS_LABELS } from '@/lib/reviewWorkflow';
+import type { ReportStatus } from '@/types';
+
+const STATUS_CLASS_NAMES: Record<ReportStatus, string> = {
+  pending: 'bg-yellow-900 text-yellow-200',
+  submitted: 'bg-[#333333] text-gray-300',
+  'under-review': 'bg-blue-900 text-blue-200',
+  approved: 'bg-[#2a3a10] text-[#c0ff54]',
+  returned: 'bg-orange-900 text-orange-200'
+};
+
+export const ReportStatusBadge = ({ status, className = '' }: { status: ReportStatus; className?: string }) => {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASS_NAMES[status]} ${className}`}>
+      {REPORT_STATUS_LABELS[status]}
+    </span>
+  );
+};
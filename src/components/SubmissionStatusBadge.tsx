@@ -0,0 +1,19 @@
+import { SUBMISSION_STATUS_LABELS, type SubmissionStatus } from '@/lib/deadlines';
+
+const STATUS_CLASS_NAMES: Record<SubmissionStatus, string> = {
+  'on-time': 'bg-[#2a3a10] text-[#c0ff54]',
+  'within-grace': 'bg-yellow-900 text-yellow-200',
+  late: 'bg-orange-900 text-orange-200',
+  open: 'bg-[#333333] text-gray-300',
+  overdue: 'bg-red-900 text-red-200',
+  missing: 'bg-red-900 text-red-200',
+  'on-leave': 'bg-blue-900 text-blue-200'
+};
+
+export const SubmissionStatusBadge = ({ status, className = '' }: { status: SubmissionStatus; className?: string }) => {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASS_NAMES[status]} ${className}`}>
+      {SUBMISSION_STATUS_LABELS[status]}
+    </span>
+  );
+};
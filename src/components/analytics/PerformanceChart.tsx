@@ -3,7 +3,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import { 
   ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, 
-  ResponsiveContainer, Area, Legend
+  ResponsiveContainer, Area, Legend, ReferenceLine
 } from 'recharts';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -11,12 +11,16 @@ type DataPoint = {
   date: string;
   value: number;
   target?: number;
+  // Holidays or time off in the period, e.g. "Thanksgiving (2 of 5 days off)"
+  timeOff?: string;
 };
 
 type MetricData = {
   title: string;
   color: string;
   data: DataPoint[];
+  // Formats values with the metric's unit and decimal places; plain numbers when omitted
+  formatValue?: (value: number) => string;
 };
 
 type PerformanceChartProps = {
@@ -30,6 +34,7 @@ type TooltipProps = {
     name: string;
     value: number;
     color: string;
+    payload?: DataPoint;
   }>;
   label?: string;
   activeMetricData?: MetricData;
@@ -137,16 +142,10 @@ export const PerformanceChart = ({ metrics, timeRange }: PerformanceChartProps)
     });
     
     // Process data based on time range
-    let aggregatedData = sortedData;
+    const aggregatedData = sortedData;
     
     if (timeRange === 'month') {
-      // For month view, we need exactly 4 data points (weekly reports)
-      // If we have less than 4, we'll keep what we have
-      // If we have more than 4, take the 4 most recent ones
-      if (sortedData.length > 4) {
-        aggregatedData = sortedData.slice(-4);
-      }
-      console.log(`Month view: Using ${aggregatedData.length} data points out of ${sortedData.length} available points`);
+      // For month view, use one point per week; fiscal periods have 4 or 5 weeks
     } else if (timeRange === 'quarter') {
       // For quarter, use the data as-is, typically representing 12-13 weeks
       console.log(`Quarter view: Using ${sortedData.length} data points`);
@@ -298,13 +297,25 @@ export const PerformanceChart = ({ metrics, timeRange }: PerformanceChartProps)
                 tick={{ fill: '#999999', fontSize: 11 }}
                 axisLine={{ stroke: '#444444' }}
                 tickLine={{ stroke: '#444444' }}
-                width={40}
+                width={activeMetricData.formatValue ? 64 : 40}
+                tickFormatter={activeMetricData.formatValue}
                 domain={[0, (dataMax: number) => Math.max(dataMax * 1.2, 10)]}
                 allowDataOverflow={false}
                 tickCount={5}
                 minTickGap={10}
               />
               
+              {/* Mark periods with holidays or time off; their targets are prorated */}
+              {processedData.filter(point => point.timeOff).map(point => (
+                <ReferenceLine
+                  key={`time-off-${point.date}`}
+                  x={point.formattedDate}
+                  stroke="#ffbe54"
+                  strokeDasharray="2 4"
+                  strokeOpacity={0.6}
+                />
+              ))}
+              
               <Tooltip
                 content={<CustomTooltip activeMetricData={activeMetricData} />}
                 cursor={{ fill: 'rgba(255, 255, 255, 0.05)' }}
@@ -378,7 +389,7 @@ export const PerformanceChart = ({ metrics, timeRange }: PerformanceChartProps)
 };
 
 // Custom components
-const CustomTooltip = ({ active, payload, label }: TooltipProps) => {
+const CustomTooltip = ({ active, payload, label, activeMetricData }: TooltipProps) => {
   if (active && payload && payload.length) {
     return (
       <div className="bg-[#111111] border border-[#444444] rounded-md p-3 shadow-xl text-sm">
@@ -391,10 +402,17 @@ const CustomTooltip = ({ active, payload, label }: TooltipProps) => {
             />
             <span className="text-gray-300">{entry.name}: </span>
             <span className="text-white font-medium">
-              {Number(entry.value).toLocaleString()}
+              {activeMetricData?.formatValue
+                ? activeMetricData.formatValue(Number(entry.value))
+                : Number(entry.value).toLocaleString()}
             </span>
           </div>
         ))}
+        {payload[0].payload?.timeOff && (
+          <p className="text-[#ffbe54] text-xs mt-2">
+            {payload[0].payload.timeOff}, target prorated
+          </p>
+        )}
       </div>
     );
   }
@@ -419,9 +437,17 @@ const CustomLegend = ({ activeMetric }: { activeMetric: MetricData }) => {
           </span>
         )}
       </div>
-      <div className="flex items-center gap-1">
-        <div className="w-6 h-[2px] bg-[#AAAAAA] dash-line" />
-        <span className="text-gray-300">Target</span>
+      <div className="flex items-center gap-3">
+        <div className="flex items-center gap-1">
+          <div className="w-6 h-[2px] bg-[#AAAAAA] dash-line" />
+          <span className="text-gray-300">Target</span>
+        </div>
+        {activeMetric.data.some(point => point.timeOff) && (
+          <div className="flex items-center gap-1">
+            <div className="w-[2px] h-3 bg-[#ffbe54]" />
+            <span className="text-gray-300">Holiday / time off</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,7 +1,19 @@
-import { collection, getDocs, query, where } from 'firebase/firestore';
-import { db } from './firebase';
-import { WeeklyReport } from '@/types';
-import { DEFAULT_METRICS } from '@/lib/services';
+import { getReportRepository } from './repository';
+import { MetricData, WeeklyReport } from '@/types';
+import {
+  DEFAULT_METRICS,
+  getMetricDefinitions,
+  getTargetForWeek,
+  type TargetedMetric
+} from '@/lib/metricDefinitions';
+import { EMPTY_QUOTA_BOOK, findQuota, getIndividualTargetValue, type QuotaBook } from '@/lib/quotas';
+import { combineRollupMetrics, getReportRollups, type ReportRollup } from '@/lib/rollups';
+import { getCalendarSettings, getWeekRange } from '@/lib/dateUtils';
+import { getCurrentFiscalPeriod, getFiscalQuarterRange } from '@/lib/fiscalCalendar';
+import { getProratedTarget, type TimeOffEntry } from '@/lib/timeOff';
+import { evaluateFormulas, getMetricFormulas } from '@/lib/metricFormulas';
+import { loadOrganizationSettings } from '@/lib/orgSettings';
+import { SUBMITTED_STATUSES } from '@/lib/reviewWorkflow';
 
 // Helper function to get date range based on time frame
 const getDateRange = (timeFrame: string): { startDate: Date; endDate: Date } => {
@@ -15,18 +27,16 @@ const getDateRange = (timeFrame: string): { startDate: Date; endDate: Date } =>
   
   switch (timeFrame) {
     case 'week': {
-      // Get the current day of the week (0 = Sunday, 1 = Monday, etc.)
-      const currentDay = now.getDay();
-      // Calculate days since last Monday (or Sunday if you prefer Sunday as week start)
-      const daysSinceMonday = currentDay === 0 ? 6 : currentDay - 1;
-      
-      // Start date is the previous Monday (or Sunday)
-      startDate = new Date(now);
-      startDate.setDate(now.getDate() - daysSinceMonday);
-      startDate.setHours(0, 0, 0, 0);
-      break;
+      // The whole current week, so reports ending on Sunday are included
+      const weekRange = getWeekRange();
+      return { startDate: weekRange.start, endDate: weekRange.end };
     }
     case 'month': {
+      // The current fiscal period when the organization uses a week-based fiscal calendar
+      if (getCalendarSettings().fiscalPattern !== 'calendar') {
+        const period = getCurrentFiscalPeriod();
+        return { startDate: period.start, endDate: period.end };
+      }
       // Start from 30 days ago
       startDate = new Date(now);
       startDate.setDate(now.getDate() - 30);
@@ -34,6 +44,11 @@ const getDateRange = (timeFrame: string): { startDate: Date; endDate: Date } =>
       break;
     }
     case 'quarter': {
+      // The current fiscal quarter, for week-based fiscal calendars
+      if (getCalendarSettings().fiscalPattern !== 'calendar') {
+        const quarter = getFiscalQuarterRange(getCurrentFiscalPeriod());
+        return { startDate: quarter.start, endDate: quarter.end };
+      }
       // Get 90 days ago
       startDate = new Date(now);
       startDate.setDate(now.getDate() - 90);
@@ -77,25 +92,12 @@ export const getReportsByDateRange = async (startDate: Date, endDate: Date): Pro
     });
     
     // Only query by status without using orderBy to avoid index issues
-    const q = query(
-      collection(db, 'weeklyReports'),
-      where('status', '==', 'submitted')
-    );
-    
-    const querySnapshot = await getDocs(q);
-    console.log(`Found ${querySnapshot.docs.length} total submitted reports`);
+    const submittedReports = await getReportRepository().queryReports({
+      status: SUBMITTED_STATUSES
+    });
     
     // Filter reports by date range in-memory to handle date complexities better
-    const filteredReports = querySnapshot.docs
-      .map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt.toDate(),
-          weekEndingDate: data.weekEndingDate.toDate(),
-        } as WeeklyReport;
-      })
+    const filteredReports = submittedReports
       .filter(report => {
         // Include reports where weekEndingDate is within the time range
         // or createdAt is within the time range
@@ -122,6 +124,7 @@ export const getReportsByDateRange = async (startDate: Date, endDate: Date): Pro
 // Get all reports for analytics data
 export const getReportsForAnalytics = async (timeFrame: string): Promise<WeeklyReport[]> => {
   try {
+    await loadOrganizationSettings();
     const { startDate, endDate } = getDateRange(timeFrame);
     return await getReportsByDateRange(startDate, endDate);
   } catch (error) {
@@ -130,170 +133,72 @@ export const getReportsForAnalytics = async (timeFrame: string): Promise<WeeklyR
   }
 };
 
-// Get overall metrics performance data
-export const getMetricsPerformance = async (timeFrame: string): Promise<{
-  byDate: { date: string; metrics: Record<string, number> }[];
-  totals: Record<string, number>;
-  averages: Record<string, number>;
-  completion: Record<string, number>;
-}> => {
+// Get the weekly rollups for analytics, across all users or for one rep
+export const getRollupsForAnalytics = async (timeFrame: string, userId?: string): Promise<ReportRollup[]> => {
   try {
-    const reports = await getReportsForAnalytics(timeFrame);
-    
-    // Process data
-    const metricNames = new Set<string>();
-    const metricsByDate: Record<string, Record<string, number>> = {};
-    const metricTotals: Record<string, { sum: number; target: number; count: number }> = {};
-    
-    // Process each report
-    reports.forEach(report => {
-      const dateKey = report.createdAt.toISOString().split('T')[0];
-      metricsByDate[dateKey] = metricsByDate[dateKey] || {};
-      
-      // Process each metric in the report
-      report.metrics?.forEach(metric => {
-        const { title, value = 0, targetValue = 0 } = metric;
-        metricNames.add(title);
-        
-        // Add to date-specific metrics
-        metricsByDate[dateKey][title] = (metricsByDate[dateKey][title] || 0) + value;
-        
-        // Add to totals
-        if (!metricTotals[title]) {
-          metricTotals[title] = { sum: 0, target: 0, count: 0 };
-        }
-        metricTotals[title].sum += value;
-        metricTotals[title].target += targetValue;
-        metricTotals[title].count += 1;
-      });
-    });
-    
-    // Format data for charts
-    const byDate = Object.keys(metricsByDate)
-      .sort()
-      .map(date => ({
-        date,
-        metrics: metricsByDate[date],
-      }));
-    
-    // Calculate totals and averages
-    const totals: Record<string, number> = {};
-    const averages: Record<string, number> = {};
-    const completion: Record<string, number> = {};
-    
-    Object.entries(metricTotals).forEach(([title, { sum, target, count }]) => {
-      totals[title] = sum;
-      averages[title] = count > 0 ? sum / count : 0;
-      completion[title] = target > 0 ? (sum / target) * 100 : 0;
-    });
-    
-    return { byDate, totals, averages, completion };
+    await loadOrganizationSettings();
+    const { startDate, endDate } = getDateRange(timeFrame);
+    return await getReportRollups({ period: 'week', userId, from: startDate, to: endDate });
   } catch (error) {
-    console.error('Error processing metrics performance:', error);
-    return { byDate: [], totals: {}, averages: {}, completion: {} };
+    console.error('Error fetching analytics rollups:', error);
+    return [];
   }
 };
 
+// Metrics with their formula, for derived metrics in rollups that do not store it
+type FormulaMetric = TargetedMetric & { formula?: string | null };
+
+// Summarize one metric over a list of weekly rollups; metrics supply the fallback target in force each week
+export const summarizeMetricPerformance = (
+  rollups: ReportRollup[],
+  metricTitle: string,
+  metrics: FormulaMetric[] = DEFAULT_METRICS
+): {
+  data: { date: string; value: number; target: number; timeOff?: string }[];
+  total: number;
+  average: number;
+  completionRate: number;
+} => {
+  // Find the default target for this metric, as in force in a week
+  const defaultMetric = metrics.find(m => m.title === metricTitle);
+  const getDefaultTarget = (weekId: string) => (defaultMetric ? getTargetForWeek(defaultMetric, weekId).targetValue : 0) || 10; // Ensure a reasonable default
+  
+  // One data point per week, dated by the end of the week; weeks with holidays or time off name them
+  const data = rollups
+    .filter(rollup => rollup.metrics[metricTitle])
+    .map(rollup => {
+      const totals = rollup.metrics[metricTitle];
+      
+      return {
+        date: rollup.periodEnd.toISOString(),
+        value: totals.value,
+        target: totals.maxTarget || getDefaultTarget(rollup.periodKey),
+        timeOff: rollup.timeOff
+          ? `${rollup.timeOff.labels.join(', ')} (${rollup.timeOff.daysOff} of ${rollup.timeOff.workingDays} days off)`
+          : undefined
+      };
+    });
+  
+  // A derived metric's total is already its value over the whole range, e.g. a rate
+  const { value, target, count, formula } = combineRollupMetrics(rollups, metrics)[metricTitle] ?? { value: 0, target: 0, count: 0 };
+  return {
+    data,
+    total: value,
+    average: formula ? value : count > 0 ? value / count : 0,
+    completionRate: target > 0 ? (value / target) * 100 : 0
+  };
+};
+
 // Get performance by metric
 export const getPerformanceByMetric = async (timeFrame: string, metricTitle: string): Promise<{
-  data: { date: string; value: number; target: number }[];
+  data: { date: string; value: number; target: number; timeOff?: string }[];
   total: number;
   average: number;
   completionRate: number;
 }> => {
   try {
-    const reports = await getReportsForAnalytics(timeFrame);
-    console.log(`Found ${reports.length} reports for metric ${metricTitle} in timeframe ${timeFrame}`);
-    
-    // Extract data for specific metric
-    const dataMap = new Map<string, { date: string; value: number; target: number }>();
-    let totalValue = 0;
-    let totalTarget = 0;
-    let count = 0;
-    
-    // Get date range for this timeframe
-    const { startDate, endDate } = getDateRange(timeFrame);
-    const startDateStr = startDate.toISOString().split('T')[0];
-    const endDateStr = endDate.toISOString().split('T')[0];
-    
-    console.log(`Using date range: ${startDateStr} to ${endDateStr} for ${metricTitle}`);
-    
-    // Find the default target for this metric
-    const defaultMetric = DEFAULT_METRICS.find(m => m.title === metricTitle);
-    const targetValue = defaultMetric?.targetValue || 10; // Ensure a reasonable default
-    
-    // Process the actual reports
-    for (const report of reports) {
-      // Use weekEndingDate for consistency - this is the date that matters for reporting
-      const dateObj = report.weekEndingDate || report.createdAt;
-      const dateKey = dateObj.toISOString().split('T')[0];
-      
-      console.log(`Processing report for ${metricTitle} on date ${dateKey}`, report);
-      
-      const metric = report.metrics?.find(m => m.title === metricTitle);
-      
-      if (metric) {
-        const value = typeof metric.value === 'number' ? metric.value : 0;
-        const target = typeof metric.targetValue === 'number' ? metric.targetValue : targetValue;
-        
-        // Combine values for the same date
-        if (dataMap.has(dateKey)) {
-          const existing = dataMap.get(dateKey);
-          if (existing) {
-            dataMap.set(dateKey, {
-              date: dateKey,
-              value: existing.value + value,
-              target: Math.max(existing.target, target)
-            });
-          }
-        } else {
-          dataMap.set(dateKey, {
-            date: dateKey,
-            value,
-            target
-          });
-        }
-        
-        totalValue += value;
-        totalTarget += target;
-        count += 1;
-      }
-    }
-    
-    // Convert to array and sort by date
-    const data = Array.from(dataMap.values()).sort((a, b) => 
-      new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
-    
-    const average = count > 0 ? totalValue / count : 0;
-    const completionRate = totalTarget > 0 ? (totalValue / totalTarget) * 100 : 0;
-    
-    // If there's absolutely no data, return an empty array
-    // This will trigger appropriate UI handling
-    if (data.length === 0) {
-      return {
-        data: [],
-        total: 0,
-        average: 0,
-        completionRate: 0
-      };
-    }
-    
-    // Final safety check to ensure data points have consistent structure
-    const cleanedData = data.map(point => ({
-      date: point.date,
-      value: typeof point.value === 'number' ? point.value : 0,
-      target: typeof point.target === 'number' ? point.target : targetValue
-    }));
-    
-    console.log(`Performance data for ${metricTitle}:`, cleanedData);
-    
-    return {
-      data: cleanedData,
-      total: totalValue,
-      average,
-      completionRate,
-    };
+    const [rollups, definitions] = await Promise.all([getRollupsForAnalytics(timeFrame), getMetricDefinitions()]);
+    return summarizeMetricPerformance(rollups, metricTitle, definitions);
   } catch (error) {
     console.error(`Error getting performance for metric ${metricTitle}:`, error);
     
@@ -340,37 +245,32 @@ function ensureDataPointsForRange(
   return [];
 }
 
-// Calculate achievement percentage for metrics
-export const calculateAchievementPercentage = (reports: WeeklyReport[]): Record<string, { percentage: number; status: string }> => {
+// Start with all given metrics initialized with zero values
+const initMetricPerformance = (metrics: Pick<MetricData, 'title'>[]): Record<string, { sum: number; target: number }> => {
   const metricPerformance: Record<string, { sum: number; target: number }> = {};
-  
-  // Start with all default metrics initialized with zero values
-  DEFAULT_METRICS.forEach(metric => {
+  metrics.forEach(metric => {
     metricPerformance[metric.title] = { sum: 0, target: 0 };
   });
-  
-  // Accumulate values from reports
-  for (const report of reports) {
-    if (report.metrics) {
-      for (const metric of report.metrics) {
-        const { title, value = 0, targetValue = 0 } = metric;
-        
-        if (!metricPerformance[title]) {
-          metricPerformance[title] = { sum: 0, target: 0 };
-        }
-        
-        metricPerformance[title].sum += value;
-        metricPerformance[title].target += targetValue;
-      }
-    }
-  }
-  
-  // If no data was found for a metric, use the default target value
+  return metricPerformance;
+};
+
+// Turn accumulated values and targets into achievement percentages and statuses
+const rateAchievements = (
+  metricPerformance: Record<string, { sum: number; target: number }>,
+  metrics: TargetedMetric[],
+  weekIds: string[],
+  quotas: QuotaBook,
+  userId: string | null
+): Record<string, { percentage: number; status: string }> => {
+  // If no data was found for a metric, use the rep's quota or the target in force in the last week measured
+  const lastWeekId = [...weekIds].sort().pop();
   Object.keys(metricPerformance).forEach(title => {
     if (metricPerformance[title].target === 0) {
-      const defaultMetric = DEFAULT_METRICS.find(m => m.title === title);
-      if (defaultMetric && defaultMetric.targetValue) {
-        metricPerformance[title].target = defaultMetric.targetValue;
+      const defaultMetric = metrics.find(m => m.title === title);
+      const quota = userId && lastWeekId ? findQuota(quotas, title, userId, lastWeekId) : null;
+      const defaultTarget = quota?.targetValue ?? (defaultMetric && lastWeekId ? getTargetForWeek(defaultMetric, lastWeekId).targetValue : 0);
+      if (defaultTarget) {
+        metricPerformance[title].target = defaultTarget;
       }
     }
   });
@@ -393,4 +293,69 @@ export const calculateAchievementPercentage = (reports: WeeklyReport[]): Record<
   
   console.log('Achievement percentages:', result);
   return result;
-}; 
\ No newline at end of file
+};
+
+// Calculate achievement percentage for metrics, against each rep's quota or the targets in force in each report's week
+// prorated for the given holidays and time off
+export const calculateAchievementPercentage = (
+  reports: WeeklyReport[],
+  timeOff: TimeOffEntry[] = [],
+  metrics: TargetedMetric[] = DEFAULT_METRICS,
+  quotas: QuotaBook = EMPTY_QUOTA_BOOK
+): Record<string, { percentage: number; status: string }> => {
+  const metricPerformance = initMetricPerformance(metrics);
+  
+  // Accumulate values from reports
+  for (const report of reports) {
+    if (report.metrics) {
+      for (const metric of report.metrics) {
+        const { title, value = 0 } = metric;
+        
+        if (!metricPerformance[title]) {
+          metricPerformance[title] = { sum: 0, target: 0 };
+        }
+        
+        metricPerformance[title].sum += value;
+        const targetValue = getIndividualTargetValue(metrics, quotas, metric, report.userId, report.weekId);
+        metricPerformance[title].target += getProratedTarget(timeOff, report.userId, report.weekId, { ...metric, targetValue });
+      }
+    }
+  }
+  
+  // Derived metrics are computed from the totals, as in the rollups
+  const reportMetrics = reports.flatMap(report => report.metrics ?? []);
+  const formulas = getMetricFormulas(reportMetrics);
+  const derived = evaluateFormulas(
+    Object.fromEntries(Object.entries(metricPerformance).map(([title, { sum }]) => [title, sum])),
+    formulas
+  );
+  for (const title of Object.keys(formulas)) {
+    const count = reportMetrics.filter(metric => metric.title === title).length;
+    if (metricPerformance[title] && count > 0) {
+      metricPerformance[title] = { sum: derived[title], target: metricPerformance[title].target / count };
+    }
+  }
+  
+  // The reports of one rep fall back to their quota for metrics they did not report
+  const userIds = Array.from(new Set(reports.map(report => report.userId)));
+  const userId = userIds.length === 1 ? userIds[0] : null;
+  return rateAchievements(metricPerformance, metrics, reports.map(report => report.weekId), quotas, userId);
+};
+
+// Calculate achievement percentages from precomputed rollups; metrics are listed even without data.
+// Pass the rep and their quotas for one rep's rollups, so metrics without data use the rep's quota.
+export const calculateAchievementFromRollups = (
+  rollups: ReportRollup[],
+  metrics: FormulaMetric[] = DEFAULT_METRICS,
+  quotas: QuotaBook = EMPTY_QUOTA_BOOK,
+  userId: string | null = null
+): Record<string, { percentage: number; status: string }> => {
+  const metricPerformance = initMetricPerformance(metrics);
+  
+  // Derived metrics are computed over all the rollups, against the formula's target
+  Object.entries(combineRollupMetrics(rollups, metrics)).forEach(([title, { value, target }]) => {
+    metricPerformance[title] = { sum: value, target };
+  });
+  
+  return rateAchievements(metricPerformance, metrics, rollups.map(rollup => rollup.periodKey), quotas, userId);
+};
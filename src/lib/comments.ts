@@ -0,0 +1,247 @@
+import { getRecordStore, type StoredRecord, type Unsubscribe } from './repository';
+import { getCurrentAuthor } from './currentUser';
+import { getCurrentActor, isReviewer, type Actor } from './roles';
+
+/**
+ * Comment threads on reports, either on the report as a whole or on one of
+ * its metrics. A thread is its first comment plus the replies to it; only
+ * the first comment carries the resolved state. People are mentioned with
+ * @ followed by the name they report under, e.g. "@Ann Smith".
+ */
+
+const COMMENTS_COLLECTION = 'reportComments';
+
+export type ReportComment = StoredRecord & {
+  reportId: string;
+  // The MetricData id the thread is about, null for the whole report
+  metricId: string | null;
+  // The first comment of the thread, null for that first comment itself
+  parentId: string | null;
+  author: string;
+  body: string;
+  // Names mentioned in the body
+  mentions: string[];
+  createdAt: Date;
+  // Set on the first comment of a resolved thread
+  resolvedAt: Date | null;
+  resolvedBy: string | null;
+};
+
+export type CommentThread = {
+  root: ReportComment;
+  // Oldest first
+  replies: ReportComment[];
+};
+
+export type NewComment = {
+  reportId: string;
+  metricId?: string | null;
+  // Reply to this thread; omit to start a new thread
+  parentId?: string | null;
+  body: string;
+};
+
+const commentsCollection = () => getRecordStore().collection<ReportComment>(COMMENTS_COLLECTION);
+
+const byCreatedAt = (a: ReportComment, b: ReportComment) => a.createdAt.getTime() - b.createdAt.getTime();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Find the people mentioned in a comment
+ * @param body The comment text
+ * @param knownUsers Names that can be mentioned; longer names win, so "@Ann Smith" is not read as "Ann"
+ * @returns The mentioned names, as spelled in knownUsers, or as written for names not in the list
+ */
+export const extractMentions = (body: string, knownUsers: string[]): string[] => {
+  const mentions = new Set<string>();
+  let remaining = body;
+
+  const users = Array.from(new Set(knownUsers.map(user => user.trim()).filter(Boolean)))
+    .sort((a, b) => b.length - a.length);
+  for (const user of users) {
+    const pattern = new RegExp(`(?<!\\w)@${escapeRegExp(user)}(?!\\w)`, 'gi');
+    if (pattern.test(remaining)) {
+      mentions.add(user);
+      remaining = remaining.replace(pattern, ' ');
+    }
+  }
+
+  // Single-word names of people not in the list yet
+  for (const match of Array.from(remaining.matchAll(/(?:^|\s)@([\w.-]*\w)/g))) {
+    mentions.add(match[1]);
+  }
+
+  return Array.from(mentions);
+};
+
+/**
+ * Split a comment into plain text and mentions, for display
+ * @returns Parts in order; mentions sit at odd indexes
+ */
+export const splitOnMentions = (comment: Pick<ReportComment, 'body' | 'mentions'>): string[] => {
+  if (comment.mentions.length === 0) return [comment.body];
+  const names = [...comment.mentions].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return comment.body.split(new RegExp(`((?<!\\w)@(?:${names.join('|')})(?!\\w))`, 'gi'));
+};
+
+/**
+ * Group a report's comments into threads
+ * @returns Threads, oldest first; replies whose thread is missing are dropped
+ */
+export const groupThreads = (comments: ReportComment[]): CommentThread[] => {
+  const sorted = [...comments].sort(byCreatedAt);
+  const threads = new Map<string, CommentThread>();
+
+  for (const comment of sorted) {
+    if (comment.parentId === null) {
+      threads.set(comment.id, { root: comment, replies: [] });
+    }
+  }
+  for (const comment of sorted) {
+    if (comment.parentId !== null) {
+      threads.get(comment.parentId)?.replies.push(comment);
+    }
+  }
+
+  return Array.from(threads.values());
+};
+
+// Managers and admins, and whoever started the thread, can resolve it
+export const canResolveThread = (root: ReportComment, actor: Actor) => {
+  return isReviewer(actor.role) || root.author === actor.userId;
+};
+
+/**
+ * Follow the comments of a report
+ * @returns Stops the subscription
+ */
+export const subscribeToReportComments = (
+  reportId: string,
+  onChange: (comments: ReportComment[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return commentsCollection().subscribe(
+    { reportId },
+    comments => onChange([...comments].sort(byCreatedAt)),
+    onError
+  );
+};
+
+/**
+ * Follow the unresolved threads that mention someone
+ * @param userId The mentioned name, as it is spelled in the comments' mentions
+ * @returns Stops the subscription
+ */
+export const subscribeToMentions = (
+  userId: string,
+  onChange: (comments: ReportComment[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const collection = commentsCollection();
+  // Replies do not carry the resolved state, so each change reads their threads' first comments;
+  // only the latest read is reported
+  let latestRead = 0;
+  const unsubscribe = collection.subscribeContaining('mentions', userId.trim(), comments => {
+    const read = ++latestRead;
+    const threadIds = Array.from(new Set(comments.flatMap(comment => comment.parentId ?? [])));
+    Promise.all(threadIds.map(threadId => collection.get(threadId)))
+      .then(roots => {
+        if (read !== latestRead) return;
+        const resolvedThreads = new Set([...comments, ...roots]
+          .filter((comment): comment is ReportComment => !!comment?.resolvedAt)
+          .map(comment => comment.id));
+        onChange(comments
+          .filter(comment => !resolvedThreads.has(comment.parentId ?? comment.id))
+          .sort(byCreatedAt)
+          .reverse());
+      })
+      .catch(error => onError?.(error instanceof Error ? error : new Error(String(error))));
+  }, onError);
+
+  return () => {
+    // Drop reads still in flight
+    latestRead = -1;
+    unsubscribe();
+  };
+};
+
+/**
+ * Comment on a report as the current user
+ * @param comment The comment; pass a parentId to reply to a thread
+ * @param knownUsers Names that can be mentioned, see extractMentions
+ */
+export const addComment = async (comment: NewComment, knownUsers: string[] = []): Promise<ReportComment> => {
+  const body = comment.body.trim();
+  if (!body) {
+    throw new Error('Write a comment first');
+  }
+
+  try {
+    const collection = commentsCollection();
+    let metricId = comment.metricId ?? null;
+
+    // Replies belong to the report and metric of their thread
+    if (comment.parentId) {
+      const parent = await collection.get(comment.parentId);
+      if (!parent || parent.reportId !== comment.reportId || parent.parentId !== null) {
+        throw new Error('The thread you replied to no longer exists');
+      }
+      metricId = parent.metricId;
+    }
+
+    return await collection.add({
+      reportId: comment.reportId,
+      metricId,
+      parentId: comment.parentId ?? null,
+      author: getCurrentAuthor(),
+      body,
+      mentions: extractMentions(body, knownUsers),
+      createdAt: new Date(),
+      resolvedAt: null,
+      resolvedBy: null
+    });
+  } catch (error) {
+    console.error('Error adding comment:', error);
+    throw error;
+  }
+};
+
+/**
+ * Resolve or reopen a thread as the current user
+ * @param threadId The id of the thread's first comment
+ */
+export const setThreadResolved = async (threadId: string, resolved: boolean) => {
+  try {
+    const collection = commentsCollection();
+    const root = await collection.get(threadId);
+    if (!root || root.parentId !== null) {
+      throw new Error('The thread no longer exists');
+    }
+    if (!canResolveThread(root, await getCurrentActor())) {
+      throw new Error('Only managers, admins and the person who started the thread can resolve it');
+    }
+    await collection.update(threadId, resolved
+      ? { resolvedAt: new Date(), resolvedBy: getCurrentAuthor() }
+      : { resolvedAt: null, resolvedBy: null });
+  } catch (error) {
+    console.error('Error resolving comment thread:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove every comment of a report, when the report itself is deleted for good
+ * @param reportId The report
+ */
+export const deleteReportComments = async (reportId: string) => {
+  try {
+    const collection = commentsCollection();
+    for (const comment of await collection.list({ reportId })) {
+      await collection.delete(comment.id);
+    }
+  } catch (error) {
+    console.error('Error deleting report comments:', error);
+    throw error;
+  }
+};
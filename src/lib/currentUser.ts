@@ -0,0 +1,23 @@
+/**
+ * The app identifies people by the name they entered on the dashboard,
+ * stored in localStorage under `userName`.
+ */
+import * as StorageUtils from './storageUtils';
+
+const USER_NAME_KEY = 'userName';
+
+/**
+ * Get the name of the person using this browser
+ * @returns The stored name, or null if none was entered yet
+ */
+export const getCurrentUserName = (): string | null => {
+  return StorageUtils.getItem(USER_NAME_KEY);
+};
+
+/**
+ * Get a name to attribute changes to, falling back for anonymous sessions
+ * @returns The stored name, or 'Unknown'
+ */
+export const getCurrentAuthor = (): string => {
+  return getCurrentUserName() || 'Unknown';
+};
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  configureCalendar,
+  DEFAULT_CALENDAR_SETTINGS,
+  fromOrgTimeDate,
+  getWeekDatesForId,
+  getWeekId,
+  getWeekIdForDay,
+  getWeekRangeForId,
+  isWeekId,
+  parseDateRangeInput,
+  parseTimeOfDay,
+  shiftWeekId,
+  toOrgTimeDate
+} from './dateUtils';
+
+// Tests run with TZ=UTC (vitest.config.mjs); the reporting time zone is New York
+beforeEach(() => {
+  configureCalendar(DEFAULT_CALENDAR_SETTINGS);
+});
+
+describe('getWeekIdForDay', () => {
+  it('numbers weeks like ISO weeks with the default Monday start', () => {
+    expect(getWeekIdForDay(new Date(2024, 0, 1))).toBe('2024-W01');
+    expect(getWeekIdForDay(new Date(2024, 0, 7))).toBe('2024-W01');
+    expect(getWeekIdForDay(new Date(2024, 0, 8))).toBe('2024-W02');
+  });
+
+  it('puts days around New Year in the week of its fourth day', () => {
+    // Friday 1 January 2021 belongs to the last week of 2020
+    expect(getWeekIdForDay(new Date(2021, 0, 1))).toBe('2020-W53');
+    expect(getWeekIdForDay(new Date(2021, 0, 4))).toBe('2021-W01');
+    // Monday 30 December 2024 starts the first week of 2025
+    expect(getWeekIdForDay(new Date(2024, 11, 29))).toBe('2024-W52');
+    expect(getWeekIdForDay(new Date(2024, 11, 30))).toBe('2025-W01');
+  });
+
+  it('follows the configured week start day', () => {
+    configureCalendar({ ...DEFAULT_CALENDAR_SETTINGS, weekStartDay: 0 });
+    // Sunday 7 January 2024 starts a new week
+    expect(getWeekIdForDay(new Date(2024, 0, 6))).toBe('2024-W01');
+    expect(getWeekIdForDay(new Date(2024, 0, 7))).toBe('2024-W02');
+    expect(getWeekDatesForId('2024-W02').start).toEqual(new Date(2024, 0, 7));
+  });
+});
+
+describe('getWeekId', () => {
+  it('reads the week of an instant in the reporting time zone', () => {
+    // 03:00 UTC on 1 January 2025 is still 31 December in New York, in the same week
+    expect(getWeekId(new Date('2025-01-01T03:00:00Z'))).toBe('2025-W01');
+    // 02:00 UTC on Monday 8 January 2024 is still Sunday evening in New York
+    expect(getWeekId(new Date('2024-01-08T02:00:00Z'))).toBe('2024-W01');
+    expect(getWeekId(new Date('2024-01-08T05:00:00Z'))).toBe('2024-W02');
+  });
+
+  it('switches weeks at local midnight across daylight saving changes', () => {
+    // Clocks go forward on Sunday 10 March 2024, so the week ends at 04:00 UTC
+    expect(getWeekId(new Date('2024-03-11T03:59:59Z'))).toBe('2024-W10');
+    expect(getWeekId(new Date('2024-03-11T04:00:00Z'))).toBe('2024-W11');
+    // Clocks go back on Sunday 3 November 2024, so the week ends at 05:00 UTC
+    expect(getWeekId(new Date('2024-11-04T04:59:59Z'))).toBe('2024-W44');
+    expect(getWeekId(new Date('2024-11-04T05:00:00Z'))).toBe('2024-W45');
+  });
+});
+
+describe('getWeekRangeForId', () => {
+  it('returns the instants of local midnight at both ends of the week', () => {
+    const range = getWeekRangeForId('2024-W02');
+    expect(range.start.toISOString()).toBe('2024-01-08T05:00:00.000Z');
+    expect(range.end.toISOString()).toBe('2024-01-15T04:59:59.999Z');
+  });
+
+  it('accounts for the offset changing within the week', () => {
+    const spring = getWeekRangeForId('2024-W10');
+    expect(spring.start.toISOString()).toBe('2024-03-04T05:00:00.000Z');
+    expect(spring.end.toISOString()).toBe('2024-03-11T03:59:59.999Z');
+
+    const autumn = getWeekRangeForId('2024-W44');
+    expect(autumn.start.toISOString()).toBe('2024-10-28T04:00:00.000Z');
+    expect(autumn.end.toISOString()).toBe('2024-11-04T04:59:59.999Z');
+  });
+
+  it('gives back the id of the week it covers', () => {
+    for (const weekId of ['2020-W53', '2024-W01', '2024-W10', '2025-W01']) {
+      const range = getWeekRangeForId(weekId);
+      expect(getWeekId(range.start)).toBe(weekId);
+      expect(getWeekId(range.end)).toBe(weekId);
+    }
+  });
+});
+
+describe('shiftWeekId', () => {
+  it('moves across year boundaries', () => {
+    expect(shiftWeekId('2020-W53', 1)).toBe('2021-W01');
+    expect(shiftWeekId('2021-W01', -1)).toBe('2020-W53');
+    expect(shiftWeekId('2025-W01', -1)).toBe('2024-W52');
+    expect(shiftWeekId('2024-W10', 52)).toBe('2025-W10');
+  });
+
+  it('moves across daylight saving changes', () => {
+    expect(shiftWeekId('2024-W10', 1)).toBe('2024-W11');
+    expect(shiftWeekId('2024-W45', -1)).toBe('2024-W44');
+  });
+});
+
+describe('isWeekId', () => {
+  it('accepts only weeks that exist', () => {
+    expect(isWeekId('2024-W05')).toBe(true);
+    expect(isWeekId('2020-W53')).toBe(true);
+    expect(isWeekId('2021-W53')).toBe(false);
+    expect(isWeekId('2024-W00')).toBe(false);
+    expect(isWeekId('2024-5')).toBe(false);
+    expect(isWeekId(202405)).toBe(false);
+  });
+});
+
+describe('toOrgTimeDate and fromOrgTimeDate', () => {
+  it('convert between instants and the reporting wall clock', () => {
+    const instant = new Date('2024-07-01T16:30:00Z');
+    const wallClock = toOrgTimeDate(instant);
+    expect(wallClock).toEqual(new Date(2024, 6, 1, 12, 30));
+    expect(fromOrgTimeDate(wallClock)).toEqual(instant);
+  });
+
+  it('round-trip on both sides of a daylight saving change', () => {
+    // Outside the hour repeated on 3 November, whose wall-clock times are ambiguous
+    for (const iso of ['2024-03-10T06:59:00Z', '2024-03-10T07:00:00Z', '2024-11-03T04:30:00Z', '2024-11-03T07:30:00Z']) {
+      const instant = new Date(iso);
+      expect(fromOrgTimeDate(toOrgTimeDate(instant))).toEqual(instant);
+    }
+  });
+});
+
+describe('parseDateRangeInput', () => {
+  it('covers whole days in the reporting time zone', () => {
+    const range = parseDateRangeInput('2024-03-10', '2024-03-10');
+    expect(range.from?.toISOString()).toBe('2024-03-10T05:00:00.000Z');
+    expect(range.to?.toISOString()).toBe('2024-03-11T03:59:59.999Z');
+  });
+
+  it('leaves empty ends open', () => {
+    expect(parseDateRangeInput('', '')).toEqual({ from: undefined, to: undefined });
+  });
+});
+
+describe('parseTimeOfDay', () => {
+  it('parses HH:mm into minutes', () => {
+    expect(parseTimeOfDay('06:00')).toBe(360);
+    expect(parseTimeOfDay('9:05')).toBe(545);
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('noon')).toBeNull();
+  });
+});
@@ -1,57 +1,178 @@
 /**
- * Utility functions for handling dates and times in Eastern Time (ET)
+ * Utility functions for handling dates and times in the organization's
+ * reporting time zone. The calendar settings default to Eastern Time with
+ * weeks starting Monday; lib/orgSettings loads the stored organization
+ * settings and applies them with configureCalendar.
+ *
+ * Two kinds of Date appear here. Instants, such as a report's
+ * weekEndingDate or the bounds of a query, are real points in time and are
+ * the same in every browser. Wall-clock dates (toOrgTimeDate) hold a day and
+ * time in the reporting time zone in their local fields, for calendar
+ * arithmetic such as "the Friday of this week". Week boundaries are
+ * computed on the wall clock and stored as instants.
  */
 
+// How the year is divided into monthly periods; the week patterns are 4-4-5 style fiscal calendars
+export type FiscalPattern = 'calendar' | '4-4-5' | '4-5-4' | '5-4-4';
+
+export type CalendarSettings = {
+  // IANA time zone, e.g. America/Chicago
+  timeZone: string;
+  // First day of the reporting week, 0 = Sunday ... 6 = Saturday
+  weekStartDay: number;
+  // Local time (HH:mm) on the week start day when the new week's report opens
+  reportOpenTime: string;
+  // Monthly periods used for monthly targets, pacing and analytics, see lib/fiscalCalendar
+  fiscalPattern: FiscalPattern;
+  // Month the fiscal year starts in, 1 = January
+  fiscalYearStartMonth: number;
+  // Day within the reporting week a report is due, 0 = Sunday ... 6 = Saturday
+  dueDay: number;
+  // Local time (HH:mm) on the due day, see lib/deadlines
+  dueTime: string;
+  // Hours after the due time that a submission still counts as within grace
+  gracePeriodHours: number;
+};
+
+export const DEFAULT_CALENDAR_SETTINGS: CalendarSettings = {
+  timeZone: 'America/New_York',
+  weekStartDay: 1,
+  reportOpenTime: '06:00',
+  fiscalPattern: 'calendar',
+  fiscalYearStartMonth: 1,
+  dueDay: 5,
+  dueTime: '17:00',
+  gracePeriodHours: 0
+};
+
+let calendarSettings: CalendarSettings = { ...DEFAULT_CALENDAR_SETTINGS };
+
 /**
- * Get the current date in Eastern Time
- * @returns Date object in Eastern Time
+ * Replace the calendar settings used by every function in this module
+ * @param settings The organization's calendar settings
  */
-export const getEasternTimeDate = (): Date => {
-  const date = new Date();
-  
-  // Convert to Eastern Time by getting the Eastern timezone offset
-  // This correctly accounts for standard time (EST) and daylight time (EDT)
-  const etFormatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: 'America/New_York',
+export const configureCalendar = (settings: CalendarSettings) => {
+  calendarSettings = { ...settings };
+};
+
+// The calendar settings currently in effect
+export const getCalendarSettings = (): CalendarSettings => ({ ...calendarSettings });
+
+/**
+ * Get the wall-clock time of an instant in the reporting time zone
+ * @param date The instant
+ * @returns Date whose local fields hold the time in the reporting time zone
+ */
+export const toOrgTimeDate = (date: Date): Date => {
+  // Read the wall-clock fields in the reporting time zone;
+  // this correctly accounts for standard and daylight time
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: calendarSettings.timeZone,
     year: 'numeric',
     month: 'numeric',
     day: 'numeric',
     hour: 'numeric',
     minute: 'numeric',
     second: 'numeric',
-    hour12: false,
+    hourCycle: 'h23',
   });
 
-  const etParts = etFormatter.formatToParts(date);
-  const etValues: Record<string, number> = {};
+  const parts = formatter.formatToParts(date);
+  const values: Record<string, number> = {};
   
-  for (const part of etParts) {
+  for (const part of parts) {
     if (part.type !== 'literal') {
-      etValues[part.type] = Number.parseInt(part.value, 10);
+      values[part.type] = Number.parseInt(part.value, 10);
     }
   }
   
-  // Create a new Date object with Eastern Time components
+  // Create a new Date object with the reporting time zone components
   return new Date(
-    etValues.year,
-    etValues.month - 1, // JavaScript months are 0-indexed
-    etValues.day,
-    etValues.hour,
-    etValues.minute,
-    etValues.second
+    values.year,
+    values.month - 1, // JavaScript months are 0-indexed
+    values.day,
+    values.hour,
+    values.minute,
+    values.second
+  );
+};
+
+/**
+ * Get the instant at which the reporting time zone shows a wall-clock time;
+ * the inverse of toOrgTimeDate
+ * @param wallClock Date whose local fields hold the time in the reporting time zone
+ * @returns The instant
+ */
+export const fromOrgTimeDate = (wallClock: Date): Date => {
+  const target = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds()
   );
+
+  // Start from the wall-clock time read as UTC and correct by the zone offset;
+  // the second pass settles offsets that change in between (daylight time)
+  let instant = target;
+  for (let pass = 0; pass < 2; pass += 1) {
+    const shown = toOrgTimeDate(new Date(instant));
+    const shownAsUtc = Date.UTC(
+      shown.getFullYear(),
+      shown.getMonth(),
+      shown.getDate(),
+      shown.getHours(),
+      shown.getMinutes(),
+      shown.getSeconds()
+    );
+    instant += target - shownAsUtc;
+  }
+
+  return new Date(instant + wallClock.getMilliseconds());
 };
 
 /**
- * Check if it's time to create a new report (Monday at 6 AM Eastern Time)
+ * Get the current wall-clock time in the reporting time zone
+ * @returns Date whose local fields hold the time in the reporting time zone
+ */
+export const getOrgTimeDate = (): Date => toOrgTimeDate(new Date());
+
+/**
+ * Parse an HH:mm time of day
+ * @returns Minutes since midnight, or null if the value is not a valid time
+ */
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+/**
+ * Check if it's time to create a new report (the week start day at the
+ * report-open time, in the reporting time zone)
  * @returns boolean
  */
 export const shouldCreateNewReport = (): boolean => {
-  const date = getEasternTimeDate();
-  const day = date.getDay(); // 0 is Sunday, 1 is Monday, etc.
-  const hour = date.getHours();
+  const date = getOrgTimeDate();
+  const openMinutes = parseTimeOfDay(calendarSettings.reportOpenTime) ?? 0;
   
-  return day === 1 && hour >= 6; // Monday after 6 AM Eastern Time
+  return date.getDay() === calendarSettings.weekStartDay &&
+    date.getHours() * 60 + date.getMinutes() >= openMinutes;
+};
+
+/**
+ * Get when a week's report opens: the week start day at the report-open time
+ * @param weekId The week id, see getWeekId
+ * @returns Date whose local fields hold the time in the reporting time zone
+ */
+export const getWeekOpenTime = (weekId: string): Date => {
+  const { start } = getWeekDatesForId(weekId);
+  const openMinutes = parseTimeOfDay(calendarSettings.reportOpenTime) ?? 0;
+  return new Date(start.getFullYear(), start.getMonth(), start.getDate(), 0, openMinutes);
 };
 
 /**
@@ -61,32 +182,149 @@ export const shouldCreateNewReport = (): boolean => {
  */
 export const formatDate = (date: Date): string => {
   return new Intl.DateTimeFormat('en-US', {
-    timeZone: 'America/New_York',
+    timeZone: calendarSettings.timeZone,
     year: 'numeric',
     month: 'long',
     day: 'numeric',
   }).format(date);
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEK_ID_PATTERN = /^(\d{4})-W(\d{2})$/;
+
+// Days since the start of the reporting week, 0-6
+const getDayOfWeek = (date: Date) => (date.getDay() - calendarSettings.weekStartDay + 7) % 7;
+
+/**
+ * Canonical identity of the week a day falls in, e.g. "2024-W05". Weeks
+ * are numbered like ISO weeks: a week belongs to the year of its fourth day,
+ * and week 1 is the week containing January 4th. With the default Monday
+ * week start the ids are exactly ISO week ids. Every report stores the id of
+ * its week, and every "which week is this" check compares ids.
+ * @param date A wall-clock date in the reporting time zone, see toOrgTimeDate
+ * @returns The week id
+ */
+export const getWeekIdForDay = (date: Date): string => {
+  // The fourth day of a week decides which year the week belongs to
+  const middle = new Date(date.getFullYear(), date.getMonth(), date.getDate() - getDayOfWeek(date) + 3);
+  const year = middle.getFullYear();
+
+  // January 4th always falls in week 1
+  const january4 = new Date(year, 0, 4);
+  const firstMiddle = new Date(year, 0, 4 - getDayOfWeek(january4) + 3);
+  // Rounding absorbs daylight saving shifts between the two dates
+  const week = 1 + Math.round((middle.getTime() - firstMiddle.getTime()) / (7 * DAY_MS));
+
+  return `${year}-W${String(week).padStart(2, '0')}`;
+};
+
 /**
- * Get the week range (Monday to Sunday) for a given date
+ * Get the id of the week an instant falls in, in the reporting time zone, so
+ * a stored weekEndingDate gives the same week in every browser
+ * @param date The instant, e.g. a report's weekEndingDate
+ * @returns The week id
+ */
+export const getWeekId = (date: Date): string => getWeekIdForDay(toOrgTimeDate(date));
+
+/**
+ * Check whether a value is a well-formed week id
+ * @param value The value to check
+ */
+export const isWeekId = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  const match = WEEK_ID_PATTERN.exec(value);
+  if (!match) return false;
+  const week = Number(match[2]);
+  return week >= 1 && week <= 53 && getWeekDatesForId(value).weekId === value;
+};
+
+/**
+ * Get the days of a week on the reporting wall clock, for calendar arithmetic
+ * @param weekId A week id such as "2024-W05"
+ * @returns Start (week start day 00:00) and end (last day 23:59:59.999) as wall-clock dates, see toOrgTimeDate
+ */
+export const getWeekDatesForId = (weekId: string): { start: Date; end: Date; weekId: string } => {
+  const match = WEEK_ID_PATTERN.exec(weekId);
+  if (!match) {
+    throw new Error(`Invalid week id: ${weekId}`);
+  }
+
+  const year = Number(match[1]);
+  const week = Number(match[2]);
+  const january4 = new Date(year, 0, 4);
+  const firstDayOfWeek = 4 - getDayOfWeek(january4) + (week - 1) * 7;
+
+  const start = new Date(year, 0, firstDayOfWeek, 0, 0, 0, 0);
+  const end = new Date(year, 0, firstDayOfWeek + 6, 23, 59, 59, 999);
+
+  // Week 53 does not exist in every year, so report the week the range really is
+  return { start, end, weekId: getWeekIdForDay(start) };
+};
+
+/**
+ * Get the date range of a week, as stored on reports and used in queries
+ * @param weekId A week id such as "2024-W05"
+ * @returns Instants of the start (week start day 00:00) and end (last day
+ * 23:59:59.999) in the reporting time zone, the same in every browser
+ */
+export const getWeekRangeForId = (weekId: string): { start: Date; end: Date; weekId: string } => {
+  const days = getWeekDatesForId(weekId);
+  return { start: fromOrgTimeDate(days.start), end: fromOrgTimeDate(days.end), weekId: days.weekId };
+};
+
+/**
+ * Get the id of a week some weeks before or after another
+ * @param weekId The week id
+ * @param weeks Weeks to move; negative for earlier weeks
+ */
+export const shiftWeekId = (weekId: string, weeks: number): string => {
+  const { start } = getWeekDatesForId(weekId);
+  return getWeekIdForDay(new Date(start.getFullYear(), start.getMonth(), start.getDate() + weeks * 7));
+};
+
+/**
+ * Get the id of the current week in the reporting time zone
+ * @returns The week id
+ */
+export const getCurrentWeekId = (): string => {
+  return getWeekIdForDay(getOrgTimeDate());
+};
+
+/**
+ * Get the range of the current week in the reporting time zone
  * @returns Object with start and end dates
  */
 export const getWeekRange = (): { start: Date; end: Date } => {
-  const etDate = getEasternTimeDate();
-  const day = etDate.getDay();
-  
-  // Calculate days to Monday (start of week)
-  const daysToMonday = day === 0 ? 6 : day - 1;
-  
-  // Create new date objects for start (Monday) and end (Sunday)
-  const start = new Date(etDate);
-  start.setDate(etDate.getDate() - daysToMonday);
-  start.setHours(0, 0, 0, 0);
-  
-  const end = new Date(start);
-  end.setDate(start.getDate() + 6);
-  end.setHours(23, 59, 59, 999);
-  
+  const { start, end } = getWeekRangeForId(getCurrentWeekId());
   return { start, end };
-}; 
\ No newline at end of file
+};
+
+/**
+ * Parse a yyyy-mm-dd value from a date input as a wall-clock day, see toOrgTimeDate
+ * @param value The input value, may be empty
+ * @param endOfDay Return the last millisecond of the day instead of midnight
+ * @returns The date, or undefined for an empty value
+ */
+export const parseDateInput = (value: string, endOfDay = false): Date | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999)
+    : new Date(year, month - 1, day, 0, 0, 0, 0);
+};
+
+/**
+ * Turn the days picked in a from/to pair of date inputs into a query range
+ * @param from First day as yyyy-mm-dd, may be empty
+ * @param to Last day as yyyy-mm-dd, may be empty
+ * @returns Instants from the start of the first day to the end of the last day in the reporting time zone
+ */
+export const parseDateRangeInput = (from: string, to: string): { from?: Date; to?: Date } => {
+  const start = parseDateInput(from);
+  const end = parseDateInput(to, true);
+  return {
+    from: start && fromOrgTimeDate(start),
+    to: end && fromOrgTimeDate(end)
+  };
+};
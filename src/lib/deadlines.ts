@@ -0,0 +1,182 @@
+import { getReportRepository } from './repository';
+import type { WeeklyReport } from '@/types';
+import {
+  getCalendarSettings,
+  getCurrentWeekId,
+  getWeekDatesForId,
+  getWeekRangeForId,
+  parseTimeOfDay,
+  shiftWeekId,
+  toOrgTimeDate
+} from './dateUtils';
+import { loadOrganizationSettings } from './orgSettings';
+import { isSubmittedStatus } from './reviewWorkflow';
+import { getAvailability, getTimeOffEntries } from './timeOff';
+import { ACTIVE_USER_WEEKS } from './weeklyReportJob';
+
+/**
+ * Submission deadlines. Each reporting week's report is due on the configured
+ * due day and time of that week, with an optional grace period after it.
+ * Lateness is computed from `submittedAt` whenever it is needed rather than
+ * stored, so changing the deadline settings re-rates every week.
+ */
+
+export type SubmissionStatus =
+  // Submitted by the due time
+  | 'on-time'
+  // Submitted after the due time but before the grace period ended
+  | 'within-grace'
+  // Submitted after the grace period
+  | 'late'
+  // Not submitted yet, grace period still running
+  | 'open'
+  // Pending report not submitted by the end of the grace period
+  | 'overdue'
+  // No report at all after the grace period
+  | 'missing'
+  // No report, but the user was off for the whole week
+  | 'on-leave';
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  'on-time': 'ON TIME',
+  'within-grace': 'IN GRACE PERIOD',
+  late: 'LATE',
+  open: 'OPEN',
+  overdue: 'OVERDUE',
+  missing: 'MISSING',
+  'on-leave': 'ON LEAVE'
+};
+
+// Statuses that count against a rep
+export const NON_COMPLIANT_STATUSES: SubmissionStatus[] = ['late', 'overdue', 'missing'];
+
+export type WeekDeadline = {
+  weekId: string;
+  // Wall-clock times in the reporting time zone
+  due: Date;
+  graceEnds: Date;
+};
+
+export type ComplianceEntry = {
+  userId: string;
+  weekId: string;
+  status: SubmissionStatus;
+  // null when the user has no report for the week
+  report: WeeklyReport | null;
+};
+
+/**
+ * Get when a week's report is due
+ * @param weekId The week id, see getWeekId in lib/dateUtils
+ */
+export const getWeekDeadline = (weekId: string): WeekDeadline => {
+  const { weekStartDay, dueDay, dueTime, gracePeriodHours } = getCalendarSettings();
+  const { start } = getWeekDatesForId(weekId);
+  const dueMinutes = parseTimeOfDay(dueTime) ?? 0;
+  const day = start.getDate() + (dueDay - weekStartDay + 7) % 7;
+
+  return {
+    weekId,
+    due: new Date(start.getFullYear(), start.getMonth(), day, 0, dueMinutes),
+    graceEnds: new Date(start.getFullYear(), start.getMonth(), day, gracePeriodHours, dueMinutes)
+  };
+};
+
+// Rate a submission time (or its absence) against a deadline, all in reporting wall-clock time
+const rateSubmission = (deadline: WeekDeadline, submittedAt: Date | null, now: Date): SubmissionStatus => {
+  if (submittedAt) {
+    if (submittedAt <= deadline.due) return 'on-time';
+    return submittedAt <= deadline.graceEnds ? 'within-grace' : 'late';
+  }
+  return now <= deadline.graceEnds ? 'open' : 'overdue';
+};
+
+/**
+ * Get whether a report was submitted on time
+ * @param report The report; pending reports are open until the grace period ends
+ * @param now The current time
+ */
+export const getSubmissionStatus = (
+  report: Pick<WeeklyReport, 'weekId' | 'status' | 'submittedAt' | 'createdAt'>,
+  now: Date = new Date()
+): SubmissionStatus => {
+  // Documents not yet migrated have no submittedAt; createdAt is the closest known time
+  const submittedAt = isSubmittedStatus(report.status) ? report.submittedAt ?? report.createdAt : null;
+  return rateSubmission(
+    getWeekDeadline(report.weekId),
+    submittedAt ? toOrgTimeDate(submittedAt) : null,
+    toOrgTimeDate(now)
+  );
+};
+
+/**
+ * Get the ids of the weeks up to and including a week
+ * @param count Number of weeks
+ * @param lastWeekId The last week, the current week by default
+ * @returns Week ids, oldest first
+ */
+export const getRecentWeekIds = (count: number, lastWeekId: string = getCurrentWeekId()): string[] => {
+  return Array.from({ length: count }, (_, index) => shiftWeekId(lastWeekId, index - (count - 1)));
+};
+
+/**
+ * Get the submission status of every active user in a range of weeks
+ * @param weekIds The weeks to check, oldest first
+ * @returns One entry per user and week, ordered by user then week; weeks before
+ * a user's first report in the range or the weeks before it are left out
+ */
+export const getCompliance = async (weekIds: string[]): Promise<ComplianceEntry[]> => {
+  try {
+    await loadOrganizationSettings();
+    if (weekIds.length === 0) return [];
+
+    // Reports from before the range tell who was already active when it started
+    const known = await getReportRepository().queryReports({
+      weekEndingDate: {
+        from: getWeekRangeForId(shiftWeekId(weekIds[0], -ACTIVE_USER_WEEKS)).start,
+        to: getWeekRangeForId(weekIds[weekIds.length - 1]).end
+      }
+    });
+    const reports = known.filter(report => weekIds.includes(report.weekId));
+
+    // First week each user reported, so weeks before they joined are not missing
+    // (week ids sort chronologically as strings)
+    const firstWeeks = new Map<string, string>();
+    known.forEach(report => {
+      const userId = report.userId.trim();
+      const first = firstWeeks.get(userId);
+      if (userId && (!first || report.weekId < first)) {
+        firstWeeks.set(userId, report.weekId);
+      }
+    });
+
+    const timeOff = await getTimeOffEntries();
+    const now = new Date();
+    const entries: ComplianceEntry[] = [];
+    for (const [userId, firstWeek] of Array.from(firstWeeks).sort(([a], [b]) => a.localeCompare(b))) {
+      for (const weekId of weekIds) {
+        if (weekId < firstWeek) continue;
+
+        // With several reports for the week, the first submission counts
+        const report = reports
+          .filter(candidate => candidate.userId.trim() === userId && candidate.weekId === weekId)
+          .sort((a, b) => (a.submittedAt ?? a.createdAt).getTime() - (b.submittedAt ?? b.createdAt).getTime())
+          .sort((a, b) => Number(isSubmittedStatus(b.status)) - Number(isSubmittedStatus(a.status)))[0] ?? null;
+
+        let status: SubmissionStatus;
+        if (report) {
+          status = getSubmissionStatus(report, now);
+        } else if (getAvailability(timeOff, userId, [weekId]).factor === 0) {
+          status = 'on-leave';
+        } else {
+          status = rateSubmission(getWeekDeadline(weekId), null, toOrgTimeDate(now)) === 'overdue' ? 'missing' : 'open';
+        }
+        entries.push({ userId, weekId, status, report });
+      }
+    }
+    return entries;
+  } catch (error) {
+    console.error('Error getting report compliance:', error);
+    throw error;
+  }
+};
@@ -1,7 +1,7 @@
 import { initializeApp, getApps, getApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
+import { getAuth, type Auth } from 'firebase/auth';
 import { getFirestore } from 'firebase/firestore';
-import { getAnalytics } from 'firebase/analytics';
+import { getAnalytics, type Analytics } from 'firebase/analytics';
 
 // Your web app's Firebase configuration
 const firebaseConfig = {
@@ -14,15 +14,20 @@ const firebaseConfig = {
   measurementId: process.env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID
 };
 
+// The app can run on a local report backend, in which case no Firebase config is provided
+const isFirebaseConfigured = !!firebaseConfig.apiKey;
+
 // Initialize Firebase
 const app = !getApps().length ? initializeApp(firebaseConfig) : getApp();
-const auth = getAuth(app);
 const db = getFirestore(app);
 
+// Auth validates the API key eagerly, so it is only created when configured
+const auth: Auth | null = isFirebaseConfigured ? getAuth(app) : null;
+
 // Analytics only works in browser environment
-let analytics = null;
-if (typeof window !== 'undefined') {
+let analytics: Analytics | null = null;
+if (typeof window !== 'undefined' && isFirebaseConfigured && firebaseConfig.measurementId) {
   analytics = getAnalytics(app);
 }
 
-export { app, auth, db, analytics }; 
\ No newline at end of file
+export { app, auth, db, analytics, isFirebaseConfigured };
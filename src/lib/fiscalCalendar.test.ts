@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { configureCalendar, DEFAULT_CALENDAR_SETTINGS, type CalendarSettings } from './dateUtils';
+import { getFiscalPeriodForWeek, getFiscalQuarterRange, getPeriodPacing } from './fiscalCalendar';
+
+const useCalendar = (settings: Partial<CalendarSettings>) => {
+  configureCalendar({ ...DEFAULT_CALENDAR_SETTINGS, ...settings });
+};
+
+beforeEach(() => {
+  configureCalendar(DEFAULT_CALENDAR_SETTINGS);
+});
+
+describe('calendar months', () => {
+  it('give each week to the month its last day falls in', () => {
+    // 29 January to 4 February 2024
+    const period = getFiscalPeriodForWeek('2024-W05');
+    expect(period.key).toBe('2024-02');
+    expect(period.label).toBe('February 2024');
+    expect(period.weekIds).toEqual(['2024-W05', '2024-W06', '2024-W07', '2024-W08']);
+    expect(period.start.toISOString()).toBe('2024-01-29T05:00:00.000Z');
+    expect(period.end.toISOString()).toBe('2024-02-26T04:59:59.999Z');
+  });
+
+  it('number periods from the fiscal year start month', () => {
+    useCalendar({ fiscalYearStartMonth: 4 });
+    const february = getFiscalPeriodForWeek('2024-W05');
+    expect(february.periodNumber).toBe(11);
+    expect(february.quarter).toBe(4);
+    // The fiscal year that started in April 2023 is named after 2024
+    expect(february.fiscalYear).toBe(2024);
+  });
+});
+
+describe('4-4-5 periods', () => {
+  beforeEach(() => {
+    useCalendar({ fiscalPattern: '4-4-5' });
+  });
+
+  it('split each quarter into 4, 4 and 5 weeks', () => {
+    expect(getFiscalPeriodForWeek('2024-W01').weekIds).toEqual(['2024-W01', '2024-W02', '2024-W03', '2024-W04']);
+    expect(getFiscalPeriodForWeek('2024-W05').key).toBe('FY2024-P02');
+    const third = getFiscalPeriodForWeek('2024-W13');
+    expect(third.key).toBe('FY2024-P03');
+    expect(third.weekIds).toEqual(['2024-W09', '2024-W10', '2024-W11', '2024-W12', '2024-W13']);
+    expect(getFiscalPeriodForWeek('2024-W14').key).toBe('FY2024-P04');
+  });
+
+  it('start the fiscal year with the week containing its first day', () => {
+    // 1 January 2023 is a Sunday, so FY2023 starts on Monday 26 December 2022
+    const first = getFiscalPeriodForWeek('2022-W52');
+    expect(first.key).toBe('FY2023-P01');
+    expect(first.start.toISOString()).toBe('2022-12-26T05:00:00.000Z');
+  });
+
+  it('add the 53rd week of a long year to the last period', () => {
+    const last = getFiscalPeriodForWeek('2023-W52');
+    expect(last.key).toBe('FY2023-P12');
+    expect(last.weekIds).toEqual(['2023-W47', '2023-W48', '2023-W49', '2023-W50', '2023-W51', '2023-W52']);
+    expect(getFiscalPeriodForWeek('2024-W01').key).toBe('FY2024-P01');
+  });
+
+  it('pace a week within its period', () => {
+    const pacing = getPeriodPacing('2024-W11');
+    expect(pacing.weekNumber).toBe(3);
+    expect(pacing.weekCount).toBe(5);
+    expect(pacing.period.key).toBe('FY2024-P03');
+  });
+
+  it('span a quarter from its first to its last period', () => {
+    const quarter = getFiscalQuarterRange(getFiscalPeriodForWeek('2024-W06'));
+    expect(quarter.start).toEqual(getFiscalPeriodForWeek('2024-W01').start);
+    expect(quarter.end).toEqual(getFiscalPeriodForWeek('2024-W13').end);
+  });
+});
+
+describe('5-4-4 periods', () => {
+  it('put the five-week period first', () => {
+    useCalendar({ fiscalPattern: '5-4-4' });
+    expect(getFiscalPeriodForWeek('2024-W05').key).toBe('FY2024-P01');
+    expect(getFiscalPeriodForWeek('2024-W06').key).toBe('FY2024-P02');
+  });
+});
@@ -0,0 +1,207 @@
+import {
+  fromOrgTimeDate,
+  getCalendarSettings,
+  getCurrentWeekId,
+  getWeekDatesForId,
+  getWeekId,
+  getWeekIdForDay,
+  shiftWeekId,
+  type FiscalPattern
+} from './dateUtils';
+
+/**
+ * Monthly periods of the organization's fiscal calendar. With the default
+ * `calendar` pattern a period is a calendar month and a week belongs to the
+ * month its last day falls in. The 4-4-5 style patterns split the fiscal
+ * year into quarters of 13 whole weeks; the fiscal year starts with the week
+ * containing the first day of the configured start month, and the extra
+ * week of a 53-week year goes to the last period. Periods are worked out
+ * on the reporting wall clock, and their start and end are instants in the
+ * reporting time zone like the week ranges in lib/dateUtils.
+ */
+
+export const FISCAL_PATTERNS: { id: FiscalPattern; label: string }[] = [
+  { id: 'calendar', label: 'Calendar months' },
+  { id: '4-4-5', label: '4-4-5 weeks' },
+  { id: '4-5-4', label: '4-5-4 weeks' },
+  { id: '5-4-4', label: '5-4-4 weeks' }
+];
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export type FiscalPeriod = {
+  // yyyy-mm for calendar months, FY2025-P01 for fiscal periods
+  key: string;
+  label: string;
+  fiscalYear: number;
+  // 1-12 within the fiscal year
+  periodNumber: number;
+  quarter: number;
+  // Start of the first week and end of the last week of the period, as instants
+  start: Date;
+  end: Date;
+  // Ids of the weeks in the period, in order
+  weekIds: string[];
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Weeks per period of one quarter for each week pattern
+const QUARTER_WEEKS: Record<Exclude<FiscalPattern, 'calendar'>, number[]> = {
+  '4-4-5': [4, 4, 5],
+  '4-5-4': [4, 5, 4],
+  '5-4-4': [5, 4, 4]
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+
+const weeksBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / (7 * 24 * 60 * 60 * 1000));
+
+// Fiscal year number of a period; years that do not start in January are named after the year they end in
+const toFiscalYear = (startYear: number, startMonth: number) => startMonth === 1 ? startYear : startYear + 1;
+
+// Week ids of consecutive weeks starting at a week start
+const listWeekIds = (start: Date, weekCount: number) => {
+  return Array.from({ length: weekCount }, (_, index) => getWeekIdForDay(addDays(start, index * 7)));
+};
+
+// The first and last day of a period on the wall clock, as instants
+const toInstants = (start: Date, lastDay: Date) => ({
+  start: fromOrgTimeDate(start),
+  end: fromOrgTimeDate(endOfDay(lastDay))
+});
+
+const getCalendarMonthPeriod = (weekId: string): FiscalPeriod => {
+  const { fiscalYearStartMonth } = getCalendarSettings();
+  const weekEnd = getWeekDatesForId(weekId).end;
+  const year = weekEnd.getFullYear();
+  const month = weekEnd.getMonth();
+
+  // Every week whose last day falls in the month
+  const weekIds: string[] = [];
+  // The week containing the 1st always ends within the month
+  let weekStart = getWeekDatesForId(getWeekIdForDay(new Date(year, month, 1))).start;
+  const start = weekStart;
+  while (addDays(weekStart, 6).getMonth() === month) {
+    weekIds.push(getWeekIdForDay(weekStart));
+    weekStart = addDays(weekStart, 7);
+  }
+
+  const periodNumber = ((month + 1 - fiscalYearStartMonth + 12) % 12) + 1;
+  const startYear = month + 1 >= fiscalYearStartMonth ? year : year - 1;
+
+  return {
+    key: `${year}-${pad(month + 1)}`,
+    label: `${MONTH_NAMES[month]} ${year}`,
+    fiscalYear: toFiscalYear(startYear, fiscalYearStartMonth),
+    periodNumber,
+    quarter: Math.ceil(periodNumber / 3),
+    ...toInstants(start, addDays(weekStart, -1)),
+    weekIds
+  };
+};
+
+/**
+ * Get the first day of a fiscal year for the week patterns
+ * @param startYear Calendar year in which the fiscal year starts
+ * @returns The day as a wall-clock date, see toOrgTimeDate in lib/dateUtils
+ */
+export const getFiscalYearStart = (startYear: number): Date => {
+  const { fiscalYearStartMonth } = getCalendarSettings();
+  return getWeekDatesForId(getWeekIdForDay(new Date(startYear, fiscalYearStartMonth - 1, 1))).start;
+};
+
+const getWeekPatternPeriod = (weekId: string, pattern: Exclude<FiscalPattern, 'calendar'>): FiscalPeriod => {
+  const { fiscalYearStartMonth } = getCalendarSettings();
+  const weekStart = getWeekDatesForId(weekId).start;
+
+  let startYear = weekStart.getFullYear();
+  if (weekStart < getFiscalYearStart(startYear)) {
+    startYear -= 1;
+  } else if (weekStart >= getFiscalYearStart(startYear + 1)) {
+    startYear += 1;
+  }
+
+  const yearStart = getFiscalYearStart(startYear);
+  const yearWeeks = weeksBetween(yearStart, getFiscalYearStart(startYear + 1));
+  const weekIndex = weeksBetween(yearStart, weekStart);
+
+  // Four quarters of the pattern, with a 53rd week added to the last period
+  const periodWeeks = [0, 1, 2, 3].flatMap(() => QUARTER_WEEKS[pattern]);
+  periodWeeks[periodWeeks.length - 1] += yearWeeks - 52;
+
+  let firstWeek = 0;
+  let periodIndex = 0;
+  while (weekIndex >= firstWeek + periodWeeks[periodIndex] && periodIndex < periodWeeks.length - 1) {
+    firstWeek += periodWeeks[periodIndex];
+    periodIndex += 1;
+  }
+
+  const start = addDays(yearStart, firstWeek * 7);
+  const weekCount = periodWeeks[periodIndex];
+  const fiscalYear = toFiscalYear(startYear, fiscalYearStartMonth);
+  const periodNumber = periodIndex + 1;
+
+  return {
+    key: `FY${fiscalYear}-P${pad(periodNumber)}`,
+    label: `P${periodNumber} FY${fiscalYear}`,
+    fiscalYear,
+    periodNumber,
+    quarter: Math.ceil(periodNumber / 3),
+    ...toInstants(start, addDays(start, weekCount * 7 - 1)),
+    weekIds: listWeekIds(start, weekCount)
+  };
+};
+
+/**
+ * Get the monthly period a week belongs to
+ * @param weekId The week id, see getWeekId in lib/dateUtils
+ */
+export const getFiscalPeriodForWeek = (weekId: string): FiscalPeriod => {
+  const { fiscalPattern } = getCalendarSettings();
+  return fiscalPattern === 'calendar'
+    ? getCalendarMonthPeriod(weekId)
+    : getWeekPatternPeriod(weekId, fiscalPattern);
+};
+
+// Get the monthly period containing an instant
+export const getFiscalPeriod = (date: Date): FiscalPeriod => getFiscalPeriodForWeek(getWeekId(date));
+
+// Get the monthly period containing today in the reporting time zone
+export const getCurrentFiscalPeriod = (): FiscalPeriod => getFiscalPeriodForWeek(getCurrentWeekId());
+
+/**
+ * Get the range of the quarter a period belongs to
+ * @returns Start of its first period and end of its last period
+ */
+export const getFiscalQuarterRange = (period: FiscalPeriod): { start: Date; end: Date } => {
+  // Step through the neighbouring periods by their first and last weeks
+  let first = period;
+  while (first.periodNumber > (first.quarter - 1) * 3 + 1) {
+    first = getFiscalPeriodForWeek(shiftWeekId(first.weekIds[0], -1));
+  }
+  let last = period;
+  while (last.periodNumber < last.quarter * 3) {
+    last = getFiscalPeriodForWeek(shiftWeekId(last.weekIds[last.weekIds.length - 1], 1));
+  }
+  return { start: first.start, end: last.end };
+};
+
+/**
+ * Where a week stands within its monthly period, used to pace monthly targets
+ * @param weekId The week id, see getWeekId in lib/dateUtils
+ * @returns The 1-based week number, the number of weeks in the period and the period
+ */
+export const getPeriodPacing = (weekId: string): { weekNumber: number; weekCount: number; period: FiscalPeriod } => {
+  const period = getFiscalPeriodForWeek(weekId);
+  return {
+    weekNumber: period.weekIds.indexOf(weekId) + 1,
+    weekCount: period.weekIds.length,
+    period
+  };
+};
@@ -0,0 +1,50 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { getConfiguredBackend } from './repository';
+
+/**
+ * Access check shared by the scheduled job routes under app/api/jobs. The
+ * jobs read and write Firestore with the same client SDK as the browser, not
+ * the Admin SDK, so they have no privileges of their own and only work while
+ * firestore.rules leave the collections they touch open. The bearer secret
+ * decides who can trigger a job through the app; it does not stop anyone
+ * with the public Firebase config from writing those collections directly.
+ */
+
+// Shorter secrets are refused so a job cannot be triggered with a guessable one
+export const MIN_JOB_SECRET_LENGTH = 32;
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Check that a job request carries the REPORT_JOB_SECRET bearer token and
+ * that the configured backend can run jobs
+ * @returns The response to send instead of running the job, or null when it may run
+ */
+export const checkJobRequest = (request: Request): NextResponse | null => {
+  const secret = process.env.REPORT_JOB_SECRET;
+  if (!secret || secret.length < MIN_JOB_SECRET_LENGTH) {
+    return NextResponse.json(
+      { error: `REPORT_JOB_SECRET must be set to at least ${MIN_JOB_SECRET_LENGTH} characters` },
+      { status: 503 }
+    );
+  }
+
+  // Compare digests so the time taken does not reveal how much of the token matched
+  const token = request.headers.get('authorization') ?? '';
+  if (!timingSafeEqual(digest(token), digest(`Bearer ${secret}`))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // The local backend keeps reports in the browser, out of the server's reach, and the
+  // memory backend would run against a store that is gone when the request ends
+  const backend = getConfiguredBackend();
+  if (backend !== 'firestore') {
+    return NextResponse.json(
+      { error: `Scheduled jobs need the firestore backend; the ${backend} backend would not persist anything` },
+      { status: 409 }
+    );
+  }
+
+  return null;
+};
@@ -0,0 +1,568 @@
+import { getRecordStore, type StoredRecord, type Unsubscribe } from './repository';
+import type { MetricData, MetricValueType } from '@/types';
+import { getCurrentWeekId, getWeekDatesForId } from './dateUtils';
+import { loadOrganizationSettings } from './orgSettings';
+import { toDateKey } from './timeOff';
+import { getFormulaReferences, validateFormula } from './metricFormulas';
+import { getValueFormat, toMetricFormatFields, validateValueFormat } from './metricValues';
+
+/**
+ * The registry of metrics reps report on. New reports get the metrics active
+ * in their week, in registry order; the report form and analytics read
+ * targets, order and colors from here. A metric is active from its
+ * activation date until it is retired; retiring keeps it, and the values
+ * already reported for it, in analytics. Reports and rollups refer to
+ * metrics by title, so a renamed metric starts a new series. Targets are
+ * effective-dated: a target change applies from the week containing its
+ * effective date, and analytics measure every week against the target in
+ * force that week. The registry is seeded with the built-in metrics the first
+ * time it is read.
+ */
+
+const METRIC_DEFINITIONS_COLLECTION = 'metricDefinitions';
+
+export const METRIC_FREQUENCIES = ['Weekly', 'Monthly'];
+
+// Used for metrics without a valid color
+export const DEFAULT_METRIC_COLOR = '#c0ff54';
+
+// Built-in metrics, used to seed the registry
+export const DEFAULT_METRICS: MetricData[] = [
+  {
+    id: '1',
+    title: 'New Accounts Outreach',
+    target: '10 per week',
+    frequency: 'Weekly',
+    trackingMethod: 'CRM/Spreadsheet (Date, Company, Contact, Outcome)',
+    completed: false,
+    value: 0,
+    targetValue: 10,
+    previousValue: 0,
+    valueType: 'count',
+    unit: '',
+    precision: 0,
+    min: 0
+  },
+  {
+    id: '2',
+    title: 'Acres Secured',
+    target: '5 per month',
+    frequency: 'Monthly',
+    trackingMethod: 'Signed Contracts, Internal Records',
+    completed: false,
+    value: 0,
+    targetValue: 5,
+    previousValue: 0,
+    valueType: 'area',
+    unit: 'acres',
+    precision: 1,
+    min: 0
+  },
+  {
+    id: '3',
+    title: 'Quotations Sent',
+    target: '20 per month',
+    frequency: 'Monthly',
+    trackingMethod: 'CRM/Spreadsheet (Date, Recipient, Acreage)',
+    completed: false,
+    value: 0,
+    targetValue: 20,
+    previousValue: 0,
+    valueType: 'count',
+    unit: '',
+    precision: 0,
+    min: 0
+  },
+  {
+    id: '5',
+    title: 'Contracts Signed',
+    target: '4 per month',
+    frequency: 'Monthly',
+    trackingMethod: 'Signed Contracts',
+    completed: false,
+    value: 0,
+    targetValue: 4,
+    previousValue: 0,
+    valueType: 'count',
+    unit: '',
+    precision: 0,
+    min: 0
+  },
+  {
+    id: '4',
+    title: 'Quotation Closing Rate',
+    target: '20%',
+    frequency: 'Monthly',
+    trackingMethod: '(Contracts Signed / Quotations Sent) * 100',
+    completed: false,
+    value: 0,
+    targetValue: 20,
+    previousValue: 0,
+    formula: '{Contracts Signed} / {Quotations Sent} * 100',
+    valueType: 'percent',
+    unit: '%',
+    precision: 1,
+    min: 0
+  }
+];
+
+const DEFAULT_METRIC_COLORS: Record<string, string> = {
+  'New Accounts Outreach': '#c0ff54', // Neon green
+  'Acres Secured': '#54e8ff', // Cyan
+  'Quotations Sent': '#ffbe54', // Orange
+  'Contracts Signed': '#a854ff', // Purple
+  'Quotation Closing Rate': '#ff5494' // Pink
+};
+
+// A new target from a date on
+export type TargetChange = {
+  // yyyy-mm-dd; the change applies from the week containing this day
+  effectiveFrom: string;
+  target: string;
+  targetValue: number;
+};
+
+// Anything with a dated target: a definition, or a built-in metric
+export type TargetedMetric = Pick<MetricData, 'title' | 'target' | 'targetValue'> & { targetChanges?: TargetChange[] };
+
+export type MetricDefinition = StoredRecord & {
+  title: string;
+  // Shown to reps, e.g. "10 per week" or "20%"; a target ending in % is a rate and is not prorated
+  target: string;
+  targetValue: number;
+  // Later targets, oldest first; target and targetValue apply until the first of them
+  targetChanges: TargetChange[];
+  frequency: string;
+  trackingMethod: string;
+  // Computes the value from other metrics instead of the rep entering it, see lib/metricFormulas
+  formula: string | null;
+  // How values are entered and shown, see lib/metricValues
+  valueType: MetricValueType;
+  // Currency code for currency values, otherwise shown after the value, e.g. acres
+  unit: string;
+  // Decimal places
+  precision: number;
+  // Allowed range; null for no limit
+  min: number | null;
+  max: number | null;
+  // Chart color as #rrggbb
+  color: string;
+  // Position on reports and in analytics, lowest first
+  order: number;
+  // First day (yyyy-mm-dd) of the first week the metric is reported in; null for always
+  activeFrom: string | null;
+  // First day (yyyy-mm-dd) the metric is no longer reported; null while in use
+  retiredFrom: string | null;
+  updatedAt: Date;
+};
+
+export type MetricDefinitionInput = Omit<MetricDefinition, 'id' | 'order' | 'updatedAt'>;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const definitionsCollection = () => getRecordStore().collection<MetricDefinition>(METRIC_DEFINITIONS_COLLECTION);
+
+const byOrder = (a: MetricDefinition, b: MetricDefinition) => a.order - b.order || a.title.localeCompare(b.title);
+
+// Seeding runs once per page load and is shared by every caller
+let seedPromise: Promise<void> | null = null;
+
+// The built-in metrics as stored definitions, keeping their ids so existing reports still match
+const toDefaultDefinitions = (): MetricDefinition[] => DEFAULT_METRICS.map((metric, index) => ({
+  ...getValueFormat(metric),
+  id: metric.id,
+  title: metric.title,
+  target: metric.target,
+  targetValue: metric.targetValue ?? 0,
+  targetChanges: [],
+  frequency: metric.frequency,
+  trackingMethod: metric.trackingMethod,
+  formula: metric.formula ?? null,
+  color: DEFAULT_METRIC_COLORS[metric.title] ?? DEFAULT_METRIC_COLOR,
+  order: index,
+  activeFrom: null,
+  retiredFrom: null,
+  updatedAt: new Date()
+}));
+
+// Write the built-in metrics when the registry is empty; the last metric cannot be deleted, so empty means never seeded
+const seedMetricDefinitions = (): Promise<void> => {
+  if (!seedPromise) {
+    seedPromise = (async () => {
+      const collection = definitionsCollection();
+      if ((await collection.list()).length > 0) return;
+      for (const definition of toDefaultDefinitions()) {
+        await collection.set(definition);
+      }
+    })().catch(error => {
+      // Try again on the next call instead of caching the failure
+      seedPromise = null;
+      console.error('Error seeding metric definitions:', error);
+      throw error;
+    });
+  }
+  return seedPromise;
+};
+
+/**
+ * Check whether a metric is reported in a week
+ * @param weekId The week, see getWeekId in lib/dateUtils
+ */
+export const isMetricActiveInWeek = (definition: Pick<MetricDefinition, 'activeFrom' | 'retiredFrom'>, weekId: string) => {
+  const { start, end } = getWeekDatesForId(weekId);
+  if (definition.activeFrom && definition.activeFrom > toDateKey(end)) return false;
+  if (definition.retiredFrom && definition.retiredFrom <= toDateKey(start)) return false;
+  return true;
+};
+
+/**
+ * Get the target of a metric in force in a week
+ * @param weekId The week, see getWeekId in lib/dateUtils
+ */
+export const getTargetForWeek = (
+  definition: Omit<TargetedMetric, 'title'>,
+  weekId: string
+): { target: string; targetValue: number } => {
+  const weekEnd = toDateKey(getWeekDatesForId(weekId).end);
+  // Definitions stored before targets were dated have no changes
+  const change = (definition.targetChanges ?? []).filter(candidate => candidate.effectiveFrom <= weekEnd).pop();
+  return change
+    ? { target: change.target, targetValue: change.targetValue }
+    : { target: definition.target, targetValue: definition.targetValue ?? 0 };
+};
+
+/**
+ * Get the target value a report metric is measured against in its week: the
+ * registry's target in force that week, or the target the report was created
+ * with for metrics no longer in the registry
+ * @param definitions The whole registry, see getMetricDefinitions
+ */
+export const getTargetValueInForce = (
+  definitions: TargetedMetric[],
+  metric: Pick<MetricData, 'title' | 'targetValue'>,
+  weekId: string
+): number => {
+  const definition = definitions.find(candidate => candidate.title === metric.title);
+  return definition ? getTargetForWeek(definition, weekId).targetValue : metric.targetValue ?? 0;
+};
+
+/**
+ * A fresh, empty report metric for a definition
+ * @param weekId The report's week, which decides the target
+ */
+export const toReportMetric = (definition: MetricDefinition, weekId: string): MetricData => ({
+  id: definition.id,
+  title: definition.title,
+  ...getTargetForWeek(definition, weekId),
+  frequency: definition.frequency,
+  trackingMethod: definition.trackingMethod,
+  completed: false,
+  value: 0,
+  previousValue: 0,
+  // Definitions stored before formulas existed have no formula field
+  ...(definition.formula ? { formula: definition.formula } : {}),
+  // Nor a value format before value types existed
+  ...toMetricFormatFields(getValueFormat(definition))
+});
+
+/**
+ * Check a metric definition before it is saved
+ * @param others The other definitions, whose titles must not be reused
+ * @returns Problems found, empty when the definition is valid
+ */
+export const validateMetricDefinition = (definition: MetricDefinitionInput, others: MetricDefinition[] = []): string[] => {
+  const issues: string[] = [];
+  const title = definition.title.trim();
+  if (!title) {
+    issues.push('Enter a title');
+  } else if (others.some(other => other.title.trim().toLowerCase() === title.toLowerCase())) {
+    issues.push(`There is already a metric called ${title}`);
+  }
+  if (!definition.target.trim()) {
+    issues.push('Describe the target, e.g. "10 per week"');
+  }
+  if (!Number.isFinite(definition.targetValue) || definition.targetValue < 0) {
+    issues.push('Target value must be zero or more');
+  }
+  definition.targetChanges.forEach((change, index) => {
+    const label = `Target change ${index + 1}`;
+    if (!DATE_KEY_PATTERN.test(change.effectiveFrom)) {
+      issues.push(`${label}: enter the date it takes effect`);
+    } else if (definition.targetChanges.some((other, otherIndex) => otherIndex < index && other.effectiveFrom === change.effectiveFrom)) {
+      issues.push(`${label}: there is already a change on that date`);
+    }
+    if (!change.target.trim()) {
+      issues.push(`${label}: describe the target`);
+    }
+    if (!Number.isFinite(change.targetValue) || change.targetValue < 0) {
+      issues.push(`${label}: the target value must be zero or more`);
+    }
+  });
+  if (!METRIC_FREQUENCIES.includes(definition.frequency)) {
+    issues.push(`Frequency must be one of ${METRIC_FREQUENCIES.join(', ')}`);
+  }
+  if (!COLOR_PATTERN.test(definition.color)) {
+    issues.push('Color must be a hex color such as #c0ff54');
+  }
+  if (definition.activeFrom !== null && !DATE_KEY_PATTERN.test(definition.activeFrom)) {
+    issues.push('Activation date must be a date');
+  }
+  if (definition.retiredFrom !== null && !DATE_KEY_PATTERN.test(definition.retiredFrom)) {
+    issues.push('Retirement date must be a date');
+  }
+  if (definition.activeFrom && definition.retiredFrom && definition.retiredFrom <= definition.activeFrom) {
+    issues.push('The retirement date must be after the activation date');
+  }
+  issues.push(...validateValueFormat(definition));
+  if (definition.formula) {
+    const formulas = Object.fromEntries(others.map(other => [other.title, other.formula ?? null]));
+    issues.push(...validateFormula(definition.formula, title, formulas).map(issue => `Formula: ${issue}`));
+  }
+  return issues;
+};
+
+// Titles of the metrics whose formula uses a metric
+const getDependents = (title: string, definitions: MetricDefinition[]) => {
+  return definitions
+    .filter(definition => definition.formula && getFormulaReferences(definition.formula).includes(title))
+    .map(definition => definition.title);
+};
+
+// Only the editable fields, so ids and order passed along by callers are not written
+const normalizeDefinition = (definition: MetricDefinitionInput): MetricDefinitionInput => ({
+  title: definition.title.trim(),
+  target: definition.target.trim(),
+  targetValue: definition.targetValue,
+  targetChanges: [...(definition.targetChanges ?? [])]
+    .map(change => ({ ...change, target: change.target.trim() }))
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)),
+  frequency: definition.frequency,
+  trackingMethod: definition.trackingMethod.trim(),
+  formula: definition.formula?.trim() || null,
+  ...getValueFormat({ ...definition, unit: definition.unit?.trim() }),
+  color: definition.color.toLowerCase(),
+  activeFrom: definition.activeFrom || null,
+  retiredFrom: definition.retiredFrom || null
+});
+
+/**
+ * Get every metric definition, including retired ones, in registry order
+ */
+export const getMetricDefinitions = async (): Promise<MetricDefinition[]> => {
+  try {
+    await seedMetricDefinitions();
+    const definitions = await definitionsCollection().list();
+    return definitions.sort(byOrder);
+  } catch (error) {
+    console.error('Error getting metric definitions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Follow every metric definition, including retired ones, in registry order
+ * @returns Stops the subscription
+ */
+export const subscribeToMetricDefinitions = (
+  onChange: (definitions: MetricDefinition[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  let unsubscribe: Unsubscribe | null = null;
+  let cancelled = false;
+
+  seedMetricDefinitions()
+    .then(() => {
+      if (cancelled) return;
+      unsubscribe = definitionsCollection().subscribe(
+        {},
+        definitions => onChange([...definitions].sort(byOrder)),
+        onError
+      );
+    })
+    .catch(error => onError?.(error));
+
+  return () => {
+    cancelled = true;
+    unsubscribe?.();
+  };
+};
+
+/**
+ * Get the metrics a new report for a week starts with
+ * @param weekId The report's week
+ */
+export const getMetricsForWeek = async (weekId: string): Promise<MetricData[]> => {
+  const definitions = await getMetricDefinitions();
+  return definitions
+    .filter(definition => isMetricActiveInWeek(definition, weekId))
+    .map(definition => toReportMetric(definition, weekId));
+};
+
+/**
+ * Add a metric at the end of the registry
+ * @param definition The new metric
+ */
+export const addMetricDefinition = async (definition: MetricDefinitionInput): Promise<MetricDefinition> => {
+  const existing = await getMetricDefinitions();
+  const normalized = normalizeDefinition(definition);
+  const issues = validateMetricDefinition(normalized, existing);
+  if (issues.length > 0) {
+    throw new Error(issues.join('. '));
+  }
+
+  try {
+    return await definitionsCollection().add({
+      ...normalized,
+      order: existing.reduce((max, other) => Math.max(max, other.order + 1), 0),
+      updatedAt: new Date()
+    });
+  } catch (error) {
+    console.error('Error adding metric definition:', error);
+    throw error;
+  }
+};
+
+/**
+ * Change a metric; reports already created keep the values they were created with.
+ * Target changes apply to analytics once the rollups are rebuilt.
+ * @param id The metric id
+ * @param definition The new definition
+ */
+export const updateMetricDefinition = async (id: string, definition: MetricDefinitionInput) => {
+  const existing = await getMetricDefinitions();
+  const normalized = normalizeDefinition(definition);
+  const others = existing.filter(other => other.id !== id);
+  const issues = validateMetricDefinition(normalized, others);
+  const current = existing.find(other => other.id === id);
+  const dependents = current && current.title !== normalized.title ? getDependents(current.title, others) : [];
+  if (dependents.length > 0) {
+    issues.push(`Rename it in the formula of ${dependents.join(', ')} first`);
+  }
+  if (issues.length > 0) {
+    throw new Error(issues.join('. '));
+  }
+
+  try {
+    await definitionsCollection().update(id, { ...normalized, updatedAt: new Date() });
+  } catch (error) {
+    console.error('Error updating metric definition:', error);
+    throw error;
+  }
+};
+
+/**
+ * Move a metric one place up or down in the registry
+ * @param id The metric id
+ * @param offset -1 to move it up, 1 to move it down
+ */
+export const moveMetricDefinition = async (id: string, offset: -1 | 1) => {
+  try {
+    const definitions = await getMetricDefinitions();
+    const index = definitions.findIndex(definition => definition.id === id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= definitions.length) return;
+
+    [definitions[index], definitions[target]] = [definitions[target], definitions[index]];
+    const collection = definitionsCollection();
+    for (const [order, definition] of Array.from(definitions.entries())) {
+      if (definition.order !== order) {
+        await collection.update(definition.id, { order });
+      }
+    }
+  } catch (error) {
+    console.error('Error reordering metric definitions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Bring a registry seeded before formulas existed up to the built-in
+ * metrics: add Contracts Signed, reported from the current week on, when no
+ * metric has that title, and derive Quotation Closing Rate from it when the
+ * closing rate has no formula. Safe to run again; metrics the registry
+ * already has are left as they are. Reports already created keep their
+ * entered closing rates.
+ * @returns What was changed, empty when the registry was up to date
+ */
+export const upgradeMetricRegistry = async (): Promise<string[]> => {
+  try {
+    await loadOrganizationSettings();
+    const builtIns = toDefaultDefinitions();
+    const contracts = builtIns.find(definition => definition.title === 'Contracts Signed');
+    const closingRate = builtIns.find(definition => definition.title === 'Quotation Closing Rate');
+    if (!contracts || !closingRate?.formula) return [];
+
+    const collection = definitionsCollection();
+    const changes: string[] = [];
+    let definitions = await getMetricDefinitions();
+    const findByTitle = (title: string) => definitions.find(definition => definition.title.trim().toLowerCase() === title.toLowerCase());
+
+    if (!findByTitle(contracts.title)) {
+      // Right before the closing rate, which is derived from it
+      const order = findByTitle(closingRate.title)?.order
+        ?? definitions.reduce((max, other) => Math.max(max, other.order + 1), 0);
+      for (const definition of definitions.filter(other => other.order >= order)) {
+        await collection.update(definition.id, { order: definition.order + 1 });
+      }
+
+      const { id, ...builtIn } = contracts;
+      const added = {
+        ...builtIn,
+        order,
+        activeFrom: toDateKey(getWeekDatesForId(getCurrentWeekId()).start),
+        updatedAt: new Date()
+      };
+      // Keep the built-in id unless an added metric already took it
+      if (definitions.some(definition => definition.id === id)) {
+        await collection.add(added);
+      } else {
+        await collection.set({ id, ...added });
+      }
+      changes.push(`Added ${contracts.title}`);
+      definitions = await getMetricDefinitions();
+    }
+
+    const rate = findByTitle(closingRate.title);
+    if (rate && !rate.formula) {
+      const others = definitions.filter(definition => definition.id !== rate.id);
+      const formulas = Object.fromEntries(others.map(other => [other.title, other.formula ?? null]));
+      const issues = validateFormula(closingRate.formula, rate.title, formulas);
+      if (issues.length > 0) {
+        changes.push(`Left ${rate.title} without a formula: ${issues.join('. ')}`);
+      } else {
+        await collection.update(rate.id, { formula: closingRate.formula, updatedAt: new Date() });
+        changes.push(`Derived ${rate.title} from ${closingRate.formula}`);
+      }
+    }
+
+    return changes;
+  } catch (error) {
+    console.error('Error upgrading the metric registry:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a metric from the registry. Reports that have it keep it; retire
+ * the metric instead to keep it listed in analytics.
+ * @param id The metric id
+ */
+export const deleteMetricDefinition = async (id: string) => {
+  const definitions = await getMetricDefinitions();
+  if (definitions.length <= 1) {
+    throw new Error('The last metric cannot be deleted; retire it instead');
+  }
+  const definition = definitions.find(other => other.id === id);
+  const dependents = definition ? getDependents(definition.title, definitions) : [];
+  if (dependents.length > 0) {
+    throw new Error(`${definition?.title} is used in the formula of ${dependents.join(', ')}`);
+  }
+
+  try {
+    await definitionsCollection().delete(id);
+  } catch (error) {
+    console.error('Error deleting metric definition:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { MetricData } from '@/types';
+import { applyFormulas, evaluateFormulas, getFormulaReferences, getMetricFormulas, validateFormula } from './metricFormulas';
+
+const CLOSING_RATE = '{Contracts Signed} / {Quotations Sent} * 100';
+
+describe('evaluateFormulas', () => {
+  it('computes derived values from the other values', () => {
+    const values = evaluateFormulas({ 'Contracts Signed': 3, 'Quotations Sent': 8 }, { 'Closing Rate': CLOSING_RATE });
+    expect(values['Closing Rate']).toBe(37.5);
+    expect(values['Quotations Sent']).toBe(8);
+  });
+
+  it('follows operator precedence, parentheses and unary minus', () => {
+    const values = evaluateFormulas({ a: 2, b: 3 }, {
+      sum: '{a} + {b} * 4',
+      grouped: '({a} + {b}) * 4',
+      negated: '-{a} - -1'
+    });
+    expect(values.sum).toBe(14);
+    expect(values.grouped).toBe(20);
+    expect(values.negated).toBe(-1);
+  });
+
+  it('gives 0 for division by zero and missing metrics', () => {
+    const values = evaluateFormulas({ 'Contracts Signed': 3, 'Quotations Sent': 0 }, {
+      'Closing Rate': CLOSING_RATE,
+      missing: '{Nowhere} + 1'
+    });
+    expect(values['Closing Rate']).toBe(0);
+    expect(values.missing).toBe(1);
+  });
+
+  it('computes formulas that use other formulas first', () => {
+    const values = evaluateFormulas({ a: 10 }, { double: '{half} * 4', half: '{a} / 2' });
+    expect(values.half).toBe(5);
+    expect(values.double).toBe(20);
+  });
+
+  it('rounds to two decimal places', () => {
+    expect(evaluateFormulas({ a: 1, b: 3 }, { third: '{a} / {b}' }).third).toBe(0.33);
+  });
+
+  it('gives 0 for formulas that do not parse or depend on themselves', () => {
+    const values = evaluateFormulas({ a: 1, b: 1 }, { broken: '{a} +', b: '{c}', c: '{b} + 1', d: '{c} + 2' });
+    expect(values.broken).toBe(0);
+    expect(values.b).toBe(0);
+    expect(values.c).toBe(0);
+    // Formulas using a cycle still compute, with the cycle at 0
+    expect(values.d).toBe(2);
+  });
+});
+
+describe('validateFormula', () => {
+  const known = { 'Contracts Signed': null, 'Quotations Sent': null };
+
+  it('accepts a formula over known metrics', () => {
+    expect(validateFormula(CLOSING_RATE, 'Closing Rate', known)).toEqual([]);
+  });
+
+  it('reports syntax errors', () => {
+    expect(validateFormula('', 'x', known)).toEqual(['The formula is empty']);
+    expect(validateFormula('{Contracts Signed', 'x', known)).toEqual(['A metric reference is missing its closing }']);
+    expect(validateFormula('({Contracts Signed}', 'x', known)).toEqual(['A parenthesis is not closed']);
+    expect(validateFormula('{Contracts Signed} 2', 'x', known)).toEqual(['The formula has extra text at the end']);
+    expect(validateFormula('Contracts * 2', 'x', known)[0]).toMatch(/^Unexpected "C" at position 1/);
+  });
+
+  it('rejects unknown metrics and references to itself', () => {
+    expect(validateFormula('{Acres} * 2', 'x', known)).toEqual(['Unknown metric: Acres']);
+    expect(validateFormula('{x} + 1', 'x', { ...known, x: null })).toEqual(['A formula cannot reference its own metric']);
+  });
+
+  it('rejects formulas that depend on themselves through others', () => {
+    const formulas = { ...known, a: '{b} + 1', b: '{c}', c: null };
+    expect(validateFormula('{a} * 2', 'c', formulas)).toEqual(['The formula depends on itself through other formulas']);
+  });
+});
+
+describe('getFormulaReferences', () => {
+  it('lists each referenced title once', () => {
+    expect(getFormulaReferences('{a} + {b} * {a}')).toEqual(['a', 'b']);
+    expect(getFormulaReferences('{a} +')).toEqual([]);
+  });
+});
+
+describe('applyFormulas', () => {
+  const metric = (title: string, value: number, extra: Partial<MetricData> = {}): MetricData => ({
+    id: title,
+    title,
+    target: '',
+    frequency: 'Weekly',
+    trackingMethod: '',
+    completed: false,
+    value,
+    ...extra
+  });
+
+  it('replaces derived values and marks them completed against their target', () => {
+    const metrics = applyFormulas([
+      metric('Contracts Signed', 1),
+      metric('Quotations Sent', 3),
+      metric('Closing Rate', 99, { formula: CLOSING_RATE, targetValue: 20, valueType: 'percent', precision: 1 })
+    ]);
+    expect(metrics[2].value).toBe(33.3);
+    expect(metrics[2].completed).toBe(true);
+    expect(metrics[0]).toEqual(metric('Contracts Signed', 1));
+  });
+
+  it('returns the same metrics when none is derived', () => {
+    const metrics = [metric('Quotations Sent', 3)];
+    expect(applyFormulas(metrics)).toBe(metrics);
+  });
+
+  it('takes the first formula found for a title', () => {
+    expect(getMetricFormulas([
+      { title: 'rate', formula: '{a}' },
+      { title: 'rate', formula: '{b}' },
+      { title: 'a' }
+    ])).toEqual({ rate: '{a}' });
+  });
+});
@@ -0,0 +1,313 @@
+import type { MetricData } from '@/types';
+import { getValueFormat, roundMetricValue } from './metricValues';
+
+/**
+ * Formulas for derived metrics, such as a closing rate computed from two
+ * other metrics of the same report. A formula references metrics by title in
+ * braces and supports numbers, + - * /, unary minus and parentheses:
+ *
+ *   {Contracts Signed} / {Quotations Sent} * 100
+ *
+ * Formulas are parsed into a small expression tree and evaluated by walking
+ * it; nothing is ever passed to eval. Division by zero and references to
+ * missing metrics evaluate to 0, so a half-filled report still computes.
+ */
+
+type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'reference'; title: string }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode };
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'reference'; title: string }
+  | { kind: 'operator'; value: '+' | '-' | '*' | '/' }
+  | { kind: 'paren'; value: '(' | ')' };
+
+// Derived values are kept to two decimal places
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < formula.length) {
+    const char = formula[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '{') {
+      const end = formula.indexOf('}', index);
+      if (end === -1) {
+        throw new Error('A metric reference is missing its closing }');
+      }
+      const title = formula.slice(index + 1, end).trim();
+      if (!title) {
+        throw new Error('A metric reference is empty');
+      }
+      tokens.push({ kind: 'reference', title });
+      index = end + 1;
+    } else if (/[\d.]/.test(char)) {
+      const match = /^\d*\.?\d+|^\d+\.?/.exec(formula.slice(index));
+      const value = match ? Number(match[0]) : Number.NaN;
+      if (!match || Number.isNaN(value)) {
+        throw new Error(`Invalid number at position ${index + 1}`);
+      }
+      tokens.push({ kind: 'number', value });
+      index += match[0].length;
+    } else if (char === '+' || char === '-' || char === '*' || char === '/') {
+      tokens.push({ kind: 'operator', value: char });
+      index += 1;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', value: char });
+      index += 1;
+    } else {
+      throw new Error(`Unexpected "${char}" at position ${index + 1}; wrap metric titles in braces, e.g. {Quotations Sent}`);
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse a formula
+ * @throws Error describing the first problem found
+ */
+const parseFormula = (formula: string): FormulaNode => {
+  const tokens = tokenize(formula);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    for (let token = peek(); token?.kind === 'operator' && (token.value === '+' || token.value === '-'); token = peek()) {
+      position += 1;
+      node = { kind: 'binary', operator: token.value, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  // term := factor (('*' | '/') factor)*
+  const parseTerm = (): FormulaNode => {
+    let node = parseFactor();
+    for (let token = peek(); token?.kind === 'operator' && (token.value === '*' || token.value === '/'); token = peek()) {
+      position += 1;
+      node = { kind: 'binary', operator: token.value, left: node, right: parseFactor() };
+    }
+    return node;
+  };
+
+  // factor := number | reference | '-' factor | '(' expression ')'
+  const parseFactor = (): FormulaNode => {
+    const token = peek();
+    position += 1;
+    if (!token) {
+      throw new Error('The formula ends too early');
+    }
+    if (token.kind === 'number') {
+      return { kind: 'number', value: token.value };
+    }
+    if (token.kind === 'reference') {
+      return { kind: 'reference', title: token.title };
+    }
+    if (token.kind === 'operator' && token.value === '-') {
+      return { kind: 'negate', operand: parseFactor() };
+    }
+    if (token.kind === 'paren' && token.value === '(') {
+      const node = parseExpression();
+      const closing = peek();
+      if (closing?.kind !== 'paren' || closing.value !== ')') {
+        throw new Error('A parenthesis is not closed');
+      }
+      position += 1;
+      return node;
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('The formula is empty');
+  }
+  const tree = parseExpression();
+  if (position < tokens.length) {
+    throw new Error('The formula has extra text at the end');
+  }
+  return tree;
+};
+
+const collectReferences = (node: FormulaNode, titles: Set<string>) => {
+  if (node.kind === 'reference') {
+    titles.add(node.title);
+  } else if (node.kind === 'negate') {
+    collectReferences(node.operand, titles);
+  } else if (node.kind === 'binary') {
+    collectReferences(node.left, titles);
+    collectReferences(node.right, titles);
+  }
+};
+
+const evaluateNode = (node: FormulaNode, values: Record<string, number>): number => {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'reference':
+      return values[node.title] ?? 0;
+    case 'negate':
+      return -evaluateNode(node.operand, values);
+    case 'binary': {
+      const left = evaluateNode(node.left, values);
+      const right = evaluateNode(node.right, values);
+      if (node.operator === '+') return left + right;
+      if (node.operator === '-') return left - right;
+      if (node.operator === '*') return left * right;
+      return right === 0 ? 0 : left / right;
+    }
+  }
+};
+
+/**
+ * Get the metric titles a formula references
+ * @returns The titles, or an empty list when the formula does not parse
+ */
+export const getFormulaReferences = (formula: string): string[] => {
+  try {
+    const titles = new Set<string>();
+    collectReferences(parseFormula(formula), titles);
+    return Array.from(titles);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Check a metric's formula
+ * @param title The metric the formula belongs to
+ * @param formulas Formulas of every metric it may reference, by title; metrics without a formula map to null
+ * @returns Problems found, empty when the formula is valid
+ */
+export const validateFormula = (formula: string, title: string, formulas: Record<string, string | null>): string[] => {
+  let tree: FormulaNode;
+  try {
+    tree = parseFormula(formula);
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  const issues: string[] = [];
+  const references = new Set<string>();
+  collectReferences(tree, references);
+  for (const reference of Array.from(references)) {
+    if (reference === title) {
+      issues.push('A formula cannot reference its own metric');
+    } else if (!(reference in formulas)) {
+      issues.push(`Unknown metric: ${reference}`);
+    }
+  }
+
+  // Follow the references to catch formulas that depend on each other
+  const graph: Record<string, string | null> = { ...formulas, [title]: formula };
+  const seen = new Set<string>();
+  const reachesTitle = (current: string): boolean => {
+    for (const next of getFormulaReferences(graph[current] ?? '')) {
+      if (next === title) return true;
+      if (!seen.has(next)) {
+        seen.add(next);
+        if (reachesTitle(next)) return true;
+      }
+    }
+    return false;
+  };
+  if (issues.length === 0 && reachesTitle(title)) {
+    issues.push('The formula depends on itself through other formulas');
+  }
+
+  return issues;
+};
+
+/**
+ * Compute derived values from named values
+ * @param values Values by metric title, including the current values of derived metrics
+ * @param formulas Formulas by metric title
+ * @returns All values, with every derived value recomputed; formulas that do not parse or depend on themselves give 0
+ */
+export const evaluateFormulas = (values: Record<string, number>, formulas: Record<string, string>): Record<string, number> => {
+  const result = { ...values };
+  const trees = new Map<string, FormulaNode | null>();
+  for (const [title, formula] of Object.entries(formulas)) {
+    try {
+      trees.set(title, parseFormula(formula));
+    } catch {
+      trees.set(title, null);
+    }
+  }
+
+  // Derived metrics may reference other derived metrics; compute those first
+  const done = new Set<string>();
+  // Formulas being computed, outermost first
+  const inProgress: string[] = [];
+  const cyclic = new Set<string>();
+  const compute = (title: string) => {
+    if (done.has(title)) return;
+    const tree = trees.get(title);
+    if (tree === undefined) return;
+    const cycleStart = inProgress.indexOf(title);
+    if (cycleStart >= 0) {
+      // Every formula from here on the way back to this one depends on itself
+      inProgress.slice(cycleStart).forEach(member => cyclic.add(member));
+      return;
+    }
+    if (tree === null) {
+      result[title] = 0;
+      done.add(title);
+      return;
+    }
+    inProgress.push(title);
+    const references = new Set<string>();
+    collectReferences(tree, references);
+    references.forEach(compute);
+    inProgress.pop();
+    result[title] = cyclic.has(title) ? 0 : round(evaluateNode(tree, result));
+    done.add(title);
+  };
+  Array.from(trees.keys()).forEach(compute);
+
+  return result;
+};
+
+/**
+ * Get the formulas of the derived metrics among some metrics, e.g. of all the
+ * reports added up in a rollup; the first formula found for a title wins
+ * @returns Formulas by metric title
+ */
+export const getMetricFormulas = (metrics: Pick<MetricData, 'title' | 'formula'>[]): Record<string, string> => {
+  const formulas: Record<string, string> = {};
+  for (const metric of metrics) {
+    if (metric.formula && !(metric.title in formulas)) {
+      formulas[metric.title] = metric.formula;
+    }
+  }
+  return formulas;
+};
+
+/**
+ * Recompute the derived metrics of a report from its other metrics
+ * @returns The metrics with the values of metrics that have a formula replaced
+ */
+export const applyFormulas = (metrics: MetricData[]): MetricData[] => {
+  const formulas = getMetricFormulas(metrics);
+  if (Object.keys(formulas).length === 0) {
+    return metrics;
+  }
+
+  const values = evaluateFormulas(
+    Object.fromEntries(metrics.map(metric => [metric.title, metric.value ?? 0])),
+    formulas
+  );
+  return metrics.map(metric => {
+    if (!metric.formula) return metric;
+    const value = roundMetricValue(values[metric.title], getValueFormat(metric));
+    return { ...metric, value, completed: value >= (metric.targetValue ?? 0) };
+  });
+};
@@ -0,0 +1,178 @@
+import type { MetricData, MetricValueType } from '@/types';
+
+/**
+ * How a metric's value is entered and shown: its type (count, decimal,
+ * percent, currency or area), unit, number of decimal places and allowed
+ * range. Declared on the metric definition (lib/metricDefinitions) and copied
+ * onto each report metric, so a report keeps the format it was filled in with.
+ * Metrics stored before value types existed are read as whole counts, or as
+ * percentages when their target is a rate.
+ */
+
+export const METRIC_VALUE_TYPES: MetricValueType[] = ['count', 'decimal', 'percent', 'currency', 'area'];
+
+export const METRIC_VALUE_TYPE_LABELS: Record<MetricValueType, string> = {
+  count: 'Count',
+  decimal: 'Decimal',
+  percent: 'Percent',
+  currency: 'Currency',
+  area: 'Area'
+};
+
+export type MetricValueFormat = {
+  valueType: MetricValueType;
+  // Currency code for currency values, e.g. USD; shown after the number otherwise, e.g. acres
+  unit: string;
+  // Decimal places
+  precision: number;
+  // Lowest and highest allowed value; null for no limit
+  min: number | null;
+  max: number | null;
+};
+
+// The format a metric gets when only its type is chosen
+export const DEFAULT_VALUE_FORMATS: Record<MetricValueType, MetricValueFormat> = {
+  count: { valueType: 'count', unit: '', precision: 0, min: 0, max: null },
+  decimal: { valueType: 'decimal', unit: '', precision: 2, min: 0, max: null },
+  percent: { valueType: 'percent', unit: '%', precision: 1, min: 0, max: 100 },
+  currency: { valueType: 'currency', unit: 'USD', precision: 2, min: 0, max: null },
+  area: { valueType: 'area', unit: 'acres', precision: 1, min: 0, max: null }
+};
+
+// Enough for fractions of an acre or a cent
+export const MAX_PRECISION = 4;
+
+/**
+ * Get the value format of a metric, filling in what older metrics do not declare
+ */
+export const getValueFormat = (metric: {
+  target: string;
+  valueType?: MetricValueType;
+  unit?: string;
+  precision?: number;
+  min?: number | null;
+  max?: number | null;
+}): MetricValueFormat => {
+  const valueType = metric.valueType && METRIC_VALUE_TYPES.includes(metric.valueType)
+    ? metric.valueType
+    : metric.target.trim().endsWith('%') ? 'percent' : 'count';
+  const defaults = DEFAULT_VALUE_FORMATS[valueType];
+  return {
+    valueType,
+    unit: metric.unit ?? defaults.unit,
+    precision: metric.precision ?? defaults.precision,
+    min: metric.min !== undefined ? metric.min : defaults.min,
+    max: metric.max !== undefined ? metric.max : defaults.max
+  };
+};
+
+// The format's fields as stored on a report metric; limits that are not set are left out
+export const toMetricFormatFields = (format: MetricValueFormat): Pick<MetricData, 'valueType' | 'unit' | 'precision' | 'min' | 'max'> => ({
+  valueType: format.valueType,
+  unit: format.unit,
+  precision: format.precision,
+  ...(format.min !== null ? { min: format.min } : {}),
+  ...(format.max !== null ? { max: format.max } : {})
+});
+
+// Round a value to the format's decimal places
+export const roundMetricValue = (value: number, format: MetricValueFormat) => {
+  const factor = 10 ** format.precision;
+  return Math.round(value * factor) / factor;
+};
+
+// Smallest change the format allows, e.g. 0.1 for one decimal place
+export const getValueStep = (format: MetricValueFormat) => 10 ** -format.precision;
+
+/**
+ * Read a value typed into an input
+ * @returns The value rounded to the format, 0 for empty or unreadable input
+ */
+export const parseMetricValue = (input: string, format: MetricValueFormat) => {
+  const value = Number.parseFloat(input);
+  return Number.isFinite(value) ? roundMetricValue(value, format) : 0;
+};
+
+/**
+ * Format a value for display, e.g. "12.5 acres", "$1,200.00" or "33.3%"
+ */
+export const formatMetricValue = (value: number, format: MetricValueFormat) => {
+  const digits = { minimumFractionDigits: format.precision, maximumFractionDigits: format.precision };
+  if (format.valueType === 'currency') {
+    try {
+      return value.toLocaleString(undefined, { ...digits, style: 'currency', currency: format.unit || 'USD' });
+    } catch {
+      // An unknown currency code is shown as a unit instead
+    }
+  }
+  const number = value.toLocaleString(undefined, digits);
+  if (!format.unit) return number;
+  return format.valueType === 'percent' && format.unit === '%' ? `${number}%` : `${number} ${format.unit}`;
+};
+
+// Format an amount of a report metric, such as its value or target
+export const formatValueFor = (metric: MetricData, value: number) => formatMetricValue(value, getValueFormat(metric));
+
+/**
+ * Check a value against its metric's format
+ * @returns Problems found, empty when the value is valid
+ */
+export const validateMetricValue = (metric: MetricData): string[] => {
+  const format = getValueFormat(metric);
+  const value = metric.value ?? 0;
+  const issues: string[] = [];
+  if (!Number.isFinite(value)) {
+    issues.push(`${metric.title} must be a number`);
+    return issues;
+  }
+  if (format.min !== null && value < format.min) {
+    issues.push(`${metric.title} must be at least ${formatMetricValue(format.min, format)}`);
+  }
+  if (format.max !== null && value > format.max) {
+    issues.push(`${metric.title} must be at most ${formatMetricValue(format.max, format)}`);
+  }
+  if (roundMetricValue(value, format) !== value) {
+    issues.push(format.precision === 0
+      ? `${metric.title} must be a whole number`
+      : `${metric.title} can have at most ${format.precision} decimal ${format.precision === 1 ? 'place' : 'places'}`);
+  }
+  return issues;
+};
+
+/**
+ * Check the values of a report's metrics before it is submitted; derived metrics are computed and not checked
+ * @returns Problems found, empty when every value is valid
+ */
+export const validateMetricValues = (metrics: MetricData[]): string[] => {
+  return metrics.filter(metric => !metric.formula).flatMap(validateMetricValue);
+};
+
+/**
+ * Check a value format before it is saved on a metric definition
+ * @returns Problems found, empty when the format is valid
+ */
+export const validateValueFormat = (format: MetricValueFormat): string[] => {
+  const issues: string[] = [];
+  if (!METRIC_VALUE_TYPES.includes(format.valueType)) {
+    issues.push(`Value type must be one of ${METRIC_VALUE_TYPES.join(', ')}`);
+  }
+  if (!Number.isInteger(format.precision) || format.precision < 0 || format.precision > MAX_PRECISION) {
+    issues.push(`Decimal places must be a whole number from 0 to ${MAX_PRECISION}`);
+  }
+  if (format.valueType === 'count' && format.precision !== 0) {
+    issues.push('Counts have no decimal places; use the decimal type instead');
+  }
+  if (format.valueType === 'currency' && !/^[A-Z]{3}$/.test(format.unit)) {
+    issues.push('The unit of a currency must be a currency code such as USD');
+  }
+  if (format.min !== null && !Number.isFinite(format.min)) {
+    issues.push('Minimum must be a number');
+  }
+  if (format.max !== null && !Number.isFinite(format.max)) {
+    issues.push('Maximum must be a number');
+  }
+  if (format.min !== null && format.max !== null && format.max <= format.min) {
+    issues.push('The maximum must be more than the minimum');
+  }
+  return issues;
+};
@@ -0,0 +1,186 @@
+import { getRecordStore, getReportRepository, type RawReportDocument, type StoredRecord } from '@/lib/repository';
+import { loadOrganizationSettings } from '@/lib/orgSettings';
+import { parseWeeklyReport, REPORT_SCHEMA_VERSION } from '@/lib/reportSchema';
+import { REPORT_MIGRATIONS, type ReportMigration } from './reportMigrations';
+
+export { REPORT_MIGRATIONS, type ReportMigration } from './reportMigrations';
+
+const MIGRATION_RUNS_COLLECTION = 'migrationRuns';
+
+// Keep the stored run log small; the counters cover the rest
+const MAX_LOGGED_CHANGES = 200;
+
+export type MigrationChange = {
+  id: string;
+  fromVersion: number;
+  toVersion: number;
+  migrations: string[];
+  changedFields: string[];
+  // Validation issues that remain after migrating, if any
+  issues: string[];
+};
+
+export type MigrationRun = StoredRecord & {
+  dryRun: boolean;
+  targetVersion: number;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: Date;
+  finishedAt: Date | null;
+  scanned: number;
+  migrated: number;
+  upToDate: number;
+  invalid: number;
+  changes: MigrationChange[];
+  error?: string;
+};
+
+export type MigrationOptions = {
+  // Report what would change without writing anything (default true)
+  dryRun?: boolean;
+  batchSize?: number;
+  onProgress?: (run: MigrationRun) => void;
+};
+
+const getStoredVersion = (data: Record<string, unknown>): number => {
+  return typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+};
+
+// Top-level fields whose stored value differs between two versions of a document
+const getChangedFields = (before: Record<string, unknown>, after: Record<string, unknown>): string[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(fields)
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .sort();
+};
+
+/**
+ * Apply all pending migrations to a single raw document. Migrations that
+ * work out weeks use the calendar settings in effect, so load the
+ * organization settings first (runReportMigrations does).
+ * @returns The upgraded document and a description of the change, or null if already current
+ */
+export const migrateReportDocument = (
+  document: RawReportDocument,
+  migrations: ReportMigration[] = REPORT_MIGRATIONS
+): { document: RawReportDocument; change: MigrationChange } | null => {
+  const fromVersion = getStoredVersion(document.data);
+  const pending = migrations
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  if (pending.length === 0) {
+    return null;
+  }
+
+  let data = { ...document.data };
+  for (const migration of pending) {
+    data = migration.migrate(data);
+  }
+  const toVersion = pending[pending.length - 1].version;
+  data.schemaVersion = toVersion;
+
+  const result = parseWeeklyReport(document.id, data);
+
+  return {
+    document: { id: document.id, data },
+    change: {
+      id: document.id,
+      fromVersion,
+      toVersion,
+      migrations: pending.map(migration => migration.name),
+      changedFields: getChangedFields(document.data, data),
+      issues: result.success ? [] : result.issues
+    }
+  };
+};
+
+/**
+ * Upgrade every weeklyReports document to the current schema version in batches.
+ * Documents already at the target version are skipped, so the runner can be
+ * re-run safely; each run, including dry runs, is recorded in the run log.
+ * @returns The finished run log entry
+ */
+export const runReportMigrations = async (options: MigrationOptions = {}): Promise<MigrationRun> => {
+  const { dryRun = true, batchSize = 100, onProgress } = options;
+  const repository = getReportRepository();
+  const runs = getRecordStore().collection<MigrationRun>(MIGRATION_RUNS_COLLECTION);
+
+  const latestVersion = Math.max(...REPORT_MIGRATIONS.map(migration => migration.version));
+  if (latestVersion !== REPORT_SCHEMA_VERSION) {
+    throw new Error(`Migrations end at version ${latestVersion} but the schema is at ${REPORT_SCHEMA_VERSION}`);
+  }
+
+  // backfill-week-id derives week ids in the organization's time zone and week start
+  await loadOrganizationSettings();
+
+  const run = await runs.add({
+    dryRun,
+    targetVersion: REPORT_SCHEMA_VERSION,
+    status: 'running',
+    startedAt: new Date(),
+    finishedAt: null,
+    scanned: 0,
+    migrated: 0,
+    upToDate: 0,
+    invalid: 0,
+    changes: []
+  });
+
+  try {
+    let startAfterId: string | undefined;
+
+    while (true) {
+      const batch = await repository.listReportDocuments({ limit: batchSize, startAfterId });
+      if (batch.length === 0) {
+        break;
+      }
+
+      const upgraded: RawReportDocument[] = [];
+      for (const document of batch) {
+        run.scanned += 1;
+        const result = migrateReportDocument(document);
+        if (!result) {
+          run.upToDate += 1;
+          continue;
+        }
+
+        upgraded.push(result.document);
+        run.migrated += 1;
+        if (result.change.issues.length > 0) {
+          run.invalid += 1;
+        }
+        if (run.changes.length < MAX_LOGGED_CHANGES) {
+          run.changes.push(result.change);
+        }
+      }
+
+      if (!dryRun && upgraded.length > 0) {
+        await repository.writeReportDocuments(upgraded);
+      }
+
+      onProgress?.({ ...run });
+      startAfterId = batch[batch.length - 1].id;
+    }
+
+    run.status = 'completed';
+  } catch (error) {
+    console.error('Error running report migrations:', error);
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : String(error);
+  }
+
+  run.finishedAt = new Date();
+  await runs.set(run);
+  return run;
+};
+
+// Get the migration run log, most recent first
+export const getMigrationRuns = async (): Promise<MigrationRun[]> => {
+  try {
+    const runs = await getRecordStore().collection<MigrationRun>(MIGRATION_RUNS_COLLECTION).list();
+    return runs.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  } catch (error) {
+    console.error('Error getting migration runs:', error);
+    throw error;
+  }
+};
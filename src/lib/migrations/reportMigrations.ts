@@ -0,0 +1,163 @@
+import { DEFAULT_METRICS } from '@/lib/metricDefinitions';
+import { getWeekId, isWeekId } from '@/lib/dateUtils';
+import { parseDateValue } from '@/lib/reportSchema';
+
+/**
+ * Ordered upgrades for weeklyReports documents. Each migration receives the
+ * raw stored fields of a document below its version and returns the
+ * upgraded fields; the runner stamps `schemaVersion` afterwards. Migrations
+ * must be pure and safe to apply to documents that are already in shape.
+ */
+export type ReportMigration = {
+  version: number;
+  name: string;
+  description: string;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+};
+
+type RawMetric = Record<string, unknown>;
+
+const findDefaultMetric = (title: unknown) => {
+  return DEFAULT_METRICS.find(metric => metric.title === title);
+};
+
+// Numbers are sometimes stored as strings by older clients
+const toNumber = (value: unknown): unknown => {
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+};
+
+export const REPORT_MIGRATIONS: ReportMigration[] = [
+  {
+    version: 1,
+    name: 'backfill-archived',
+    description: 'Set archived to false on documents written before archiving existed',
+    migrate: (data) => ({
+      ...data,
+      archived: data.archived === true
+    })
+  },
+  {
+    version: 2,
+    name: 'normalize-metric-ids',
+    description: 'Store metric ids as unique strings and fill metric descriptions from the defaults',
+    migrate: (data) => {
+      if (!Array.isArray(data.metrics)) {
+        return data;
+      }
+
+      const usedIds = new Set<string>();
+      const metrics = (data.metrics as RawMetric[]).map((metric, index) => {
+        if (!metric || typeof metric !== 'object') {
+          return metric;
+        }
+
+        const defaults = findDefaultMetric(metric.title);
+        let id = typeof metric.id === 'number' || typeof metric.id === 'string' ? String(metric.id) : '';
+        // Missing or duplicated ids are re-derived from the metric title where possible
+        if (!id || usedIds.has(id)) {
+          id = defaults && !usedIds.has(defaults.id) ? defaults.id : `legacy-${index + 1}`;
+        }
+        usedIds.add(id);
+
+        return {
+          ...metric,
+          id,
+          target: typeof metric.target === 'string' ? metric.target : defaults?.target ?? '',
+          frequency: typeof metric.frequency === 'string' ? metric.frequency : defaults?.frequency ?? 'Weekly',
+          trackingMethod: typeof metric.trackingMethod === 'string'
+            ? metric.trackingMethod
+            : defaults?.trackingMethod ?? '',
+          value: toNumber(metric.value),
+          targetValue: toNumber(metric.targetValue),
+          previousValue: toNumber(metric.previousValue)
+        };
+      });
+
+      return { ...data, metrics };
+    }
+  },
+  {
+    version: 3,
+    name: 'fill-report-defaults',
+    description: 'Add missing report text, metric values and completion flags',
+    migrate: (data) => {
+      const metrics = Array.isArray(data.metrics)
+        ? (data.metrics as RawMetric[]).map(metric => {
+            if (!metric || typeof metric !== 'object') {
+              return metric;
+            }
+            const value = typeof metric.value === 'number' ? metric.value : 0;
+            const targetValue = typeof metric.targetValue === 'number'
+              ? metric.targetValue
+              : findDefaultMetric(metric.title)?.targetValue ?? 0;
+            return {
+              ...metric,
+              value,
+              targetValue,
+              previousValue: typeof metric.previousValue === 'number' ? metric.previousValue : 0,
+              completed: typeof metric.completed === 'boolean' ? metric.completed : value >= targetValue
+            };
+          })
+        : [];
+
+      return {
+        ...data,
+        reportText: typeof data.reportText === 'string' ? data.reportText : '',
+        metrics
+      };
+    }
+  },
+  {
+    version: 4,
+    name: 'backfill-deleted-at',
+    description: 'Set deletedAt to null on documents written before the trash existed',
+    migrate: (data) => ({
+      ...data,
+      deletedAt: data.deletedAt ?? null
+    })
+  },
+  {
+    version: 5,
+    name: 'backfill-edit-version',
+    description: 'Start the edit version counter at 0 on documents written before it existed',
+    migrate: (data) => ({
+      ...data,
+      version: typeof data.version === 'number' ? data.version : 0
+    })
+  },
+  {
+    version: 6,
+    name: 'backfill-week-id',
+    description: 'Store the ISO week id of the week ending date on every report',
+    migrate: (data) => {
+      const weekEndingDate = parseDateValue(data.weekEndingDate);
+      if (isWeekId(data.weekId) || !weekEndingDate) {
+        return data;
+      }
+      return { ...data, weekId: getWeekId(weekEndingDate) };
+    }
+  },
+  {
+    version: 7,
+    name: 'backfill-submitted-at',
+    description: 'Set submittedAt on submitted reports from createdAt, the earliest time they can have been submitted',
+    migrate: (data) => {
+      if (data.submittedAt !== undefined && data.submittedAt !== null) {
+        return data;
+      }
+      return { ...data, submittedAt: data.status === 'submitted' ? data.createdAt ?? null : null };
+    }
+  },
+  {
+    version: 8,
+    name: 'backfill-review-history',
+    description: 'Start an empty review history on reports written before the review workflow',
+    migrate: (data) => ({
+      ...data,
+      reviewHistory: Array.isArray(data.reviewHistory) ? data.reviewHistory : []
+    })
+  }
+];
@@ -2,7 +2,7 @@
  * Mock data generation utilities for development and testing
  */
 
-import { DEFAULT_METRICS } from './services';
+import { DEFAULT_METRICS } from './metricDefinitions';
 
 export const generateRealisticMetricData = (
   timeRange: string,
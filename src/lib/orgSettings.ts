@@ -0,0 +1,165 @@
+import { getRecordStore, getReportRepository, type StoredRecord } from './repository';
+import { FISCAL_PATTERNS } from './fiscalCalendar';
+import {
+  configureCalendar,
+  DEFAULT_CALENDAR_SETTINGS,
+  parseTimeOfDay,
+  type CalendarSettings
+} from './dateUtils';
+
+/**
+ * Organization-wide reporting calendar: the time zone reports are dated in,
+ * the day the reporting week starts, the time the new week's report opens,
+ * when reports are due and the fiscal calendar that defines monthly periods. Stored as one
+ * settings document and applied to lib/dateUtils, which every week and
+ * period calculation goes through.
+ */
+
+const SETTINGS_COLLECTION = 'settings';
+const ORGANIZATION_SETTINGS_ID = 'organization';
+
+export type OrganizationSettings = StoredRecord & CalendarSettings;
+
+// Time zones offered in the settings form; any IANA zone is accepted
+export const COMMON_TIME_ZONES = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu'
+];
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Settings are read once per page load and shared by every caller
+let loadPromise: Promise<CalendarSettings> | null = null;
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check calendar settings before they are saved
+ * @returns Problems found, empty when the settings are valid
+ */
+export const validateCalendarSettings = (settings: CalendarSettings): string[] => {
+  const issues: string[] = [];
+  if (!settings.timeZone || !isValidTimeZone(settings.timeZone)) {
+    issues.push(`Unknown time zone: ${settings.timeZone}`);
+  }
+  if (!Number.isInteger(settings.weekStartDay) || settings.weekStartDay < 0 || settings.weekStartDay > 6) {
+    issues.push('Week start day must be a day of the week');
+  }
+  if (parseTimeOfDay(settings.reportOpenTime) === null) {
+    issues.push('Report open time must be a time such as 06:00');
+  }
+  if (!FISCAL_PATTERNS.some(pattern => pattern.id === settings.fiscalPattern)) {
+    issues.push(`Unknown fiscal calendar: ${settings.fiscalPattern}`);
+  }
+  if (!Number.isInteger(settings.fiscalYearStartMonth) || settings.fiscalYearStartMonth < 1 || settings.fiscalYearStartMonth > 12) {
+    issues.push('Fiscal year start month must be a month');
+  }
+  if (!Number.isInteger(settings.dueDay) || settings.dueDay < 0 || settings.dueDay > 6) {
+    issues.push('Due day must be a day of the week');
+  }
+  if (parseTimeOfDay(settings.dueTime) === null) {
+    issues.push('Due time must be a time such as 17:00');
+  }
+  if (!Number.isInteger(settings.gracePeriodHours) || settings.gracePeriodHours < 0 || settings.gracePeriodHours > 168) {
+    issues.push('Grace period must be between 0 and 168 hours');
+  }
+  return issues;
+};
+
+// Fill missing or invalid stored fields with the defaults
+const toCalendarSettings = (stored: OrganizationSettings | null): CalendarSettings => {
+  const settings = { ...DEFAULT_CALENDAR_SETTINGS, ...stored };
+  return validateCalendarSettings(settings).length === 0
+    ? {
+        timeZone: settings.timeZone,
+        weekStartDay: settings.weekStartDay,
+        reportOpenTime: settings.reportOpenTime,
+        fiscalPattern: settings.fiscalPattern,
+        fiscalYearStartMonth: settings.fiscalYearStartMonth,
+        dueDay: settings.dueDay,
+        dueTime: settings.dueTime,
+        gracePeriodHours: settings.gracePeriodHours
+      }
+    : DEFAULT_CALENDAR_SETTINGS;
+};
+
+/**
+ * Load the organization's calendar settings and apply them to the date
+ * utilities. Safe to call often; the settings are only read once.
+ */
+export const loadOrganizationSettings = (): Promise<CalendarSettings> => {
+  if (!loadPromise) {
+    loadPromise = getRecordStore()
+      .collection<OrganizationSettings>(SETTINGS_COLLECTION)
+      .get(ORGANIZATION_SETTINGS_ID)
+      .then(stored => {
+        const settings = toCalendarSettings(stored);
+        configureCalendar(settings);
+        return settings;
+      })
+      .catch(error => {
+        // Try again on the next call instead of caching the failure
+        loadPromise = null;
+        console.error('Error loading organization settings:', error);
+        throw error;
+      });
+  }
+  return loadPromise;
+};
+
+/**
+ * Check whether the week start day can still change. Every stored report is
+ * keyed by the id of a week that starts on the current week start day, and
+ * its rollups, compliance and "one report per week" checks go by that id, so
+ * the day is fixed once any report exists, including archived and deleted ones.
+ */
+export const canChangeWeekStartDay = async (): Promise<boolean> => {
+  try {
+    const reports = await getReportRepository().listReportDocuments({ limit: 1 });
+    return reports.length === 0;
+  } catch (error) {
+    console.error('Error checking for stored reports:', error);
+    throw error;
+  }
+};
+
+/**
+ * Save the organization's calendar settings and apply them right away
+ * @param settings The new settings
+ */
+export const saveOrganizationSettings = async (settings: CalendarSettings) => {
+  const issues = validateCalendarSettings(settings);
+  if (issues.length > 0) {
+    throw new Error(issues.join('. '));
+  }
+
+  const current = await loadOrganizationSettings();
+  if (settings.weekStartDay !== current.weekStartDay && !(await canChangeWeekStartDay())) {
+    throw new Error(
+      `The week start day cannot change once reports exist; stored reports are filed under weeks starting on ${WEEKDAY_NAMES[current.weekStartDay]}`
+    );
+  }
+
+  try {
+    await getRecordStore()
+      .collection<OrganizationSettings>(SETTINGS_COLLECTION)
+      .set({ id: ORGANIZATION_SETTINGS_ID, ...settings });
+    configureCalendar(settings);
+    loadPromise = Promise.resolve(settings);
+  } catch (error) {
+    console.error('Error saving organization settings:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,126 @@
+import { generateId, getRecordStore, type StoredRecord, type Unsubscribe } from './repository';
+
+/**
+ * Who has a report open for editing right now. Each open editor keeps a
+ * heartbeat record up to date and removes it when the editor closes or the
+ * tab is hidden for good. Records that stop updating anyway, e.g. after a
+ * crash, are ignored after a timeout and deleted by the next editor to open.
+ */
+
+const PRESENCE_COLLECTION = 'reportPresence';
+
+// How often an open editor refreshes its record
+export const PRESENCE_HEARTBEAT_MS = 20 * 1000;
+// After this long without a heartbeat an editor counts as gone
+export const PRESENCE_TIMEOUT_MS = 60 * 1000;
+
+export type ReportPresence = StoredRecord & {
+  reportId: string;
+  userName: string;
+  // One per browser tab, so the same user in two tabs counts twice
+  sessionId: string;
+  lastSeen: Date;
+};
+
+// Identifies this tab for as long as the page is loaded
+const sessionId = generateId();
+
+const presenceCollection = () => getRecordStore().collection<ReportPresence>(PRESENCE_COLLECTION);
+
+const getPresenceId = (reportId: string) => `${reportId}_${sessionId}`;
+
+// Delete the heartbeats of editors that are gone, on any report
+const pruneExpiredPresence = async () => {
+  try {
+    const collection = presenceCollection();
+    const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+    for (const record of await collection.list()) {
+      if (record.lastSeen.getTime() < cutoff) {
+        await collection.delete(record.id);
+      }
+    }
+  } catch (error) {
+    console.error('Error pruning report presence:', error);
+  }
+};
+
+/**
+ * Announce that the current user is editing a report until the returned function is called
+ * @param reportId The report being edited
+ * @param userName Name shown to the other editors
+ * @returns Stops the heartbeat and removes the presence record
+ */
+export const trackReportPresence = (reportId: string, userName: string): (() => void) => {
+  const id = getPresenceId(reportId);
+
+  const heartbeat = async () => {
+    try {
+      await presenceCollection().set({ id, reportId, userName, sessionId, lastSeen: new Date() });
+    } catch (error) {
+      console.error('Error updating report presence:', error);
+    }
+  };
+
+  const clear = () => {
+    presenceCollection().delete(id).catch(error => {
+      console.error('Error clearing report presence:', error);
+    });
+  };
+
+  heartbeat().then(pruneExpiredPresence);
+  const interval = setInterval(heartbeat, PRESENCE_HEARTBEAT_MS);
+  // Closing the tab does not unmount the editor; a page restored from the back/forward cache
+  // writes its record again on the next heartbeat
+  window.addEventListener('pagehide', clear);
+
+  return () => {
+    clearInterval(interval);
+    window.removeEventListener('pagehide', clear);
+    clear();
+  };
+};
+
+/**
+ * Follow the names of everyone else currently editing a report
+ * @param reportId The report to watch
+ * @param onChange Called with the distinct editor names whenever they change
+ */
+export const subscribeToReportPresence = (
+  reportId: string,
+  onChange: (editors: string[]) => void
+): Unsubscribe => {
+  let records: ReportPresence[] = [];
+  let lastEditors = '';
+
+  const emit = () => {
+    const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+    const editors = Array.from(new Set(
+      records
+        .filter(record => record.sessionId !== sessionId && record.lastSeen.getTime() >= cutoff)
+        .map(record => record.userName)
+    )).sort();
+
+    const key = editors.join('\n');
+    if (key !== lastEditors) {
+      lastEditors = key;
+      onChange(editors);
+    }
+  };
+
+  const unsubscribe = presenceCollection().subscribe(
+    { reportId },
+    next => {
+      records = next;
+      emit();
+    },
+    error => console.error('Error listening to report presence:', error)
+  );
+
+  // Expired heartbeats produce no change event, so re-check periodically
+  const interval = setInterval(emit, PRESENCE_HEARTBEAT_MS);
+
+  return () => {
+    clearInterval(interval);
+    unsubscribe();
+  };
+};
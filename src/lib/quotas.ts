@@ -0,0 +1,259 @@
+import { getRecordStore, type StoredRecord, type Unsubscribe } from './repository';
+import type { MetricData } from '@/types';
+import { getWeekDatesForId } from './dateUtils';
+import { getMetricDefinitions, getTargetValueInForce, type TargetedMetric } from './metricDefinitions';
+import { formatValueFor } from './metricValues';
+import { toDateKey } from './timeOff';
+
+/**
+ * Individual quotas that override a metric's target for one rep, a team or a
+ * territory, e.g. a larger acreage quota for senior reps. A rep's quota is
+ * the first found of their own, their team's and their territory's; without
+ * one they are measured against the metric's target (lib/metricDefinitions).
+ * Quotas are in the metric's own frequency, per week or per month, and are
+ * still prorated for holidays and time off. Like targets they can be dated,
+ * so past weeks keep the quota in force then. Teams and territories are
+ * assigned by the name a rep reports under and are not dated.
+ */
+
+const QUOTAS_COLLECTION = 'quotas';
+const REP_ASSIGNMENTS_COLLECTION = 'repAssignments';
+
+export type QuotaScope = 'user' | 'team' | 'territory';
+
+// Most specific first, the order in which a rep's quota is looked up
+export const QUOTA_SCOPES: QuotaScope[] = ['user', 'team', 'territory'];
+
+export const QUOTA_SCOPE_LABELS: Record<QuotaScope, string> = {
+  user: 'Rep',
+  team: 'Team',
+  territory: 'Territory'
+};
+
+export type Quota = StoredRecord & {
+  metricTitle: string;
+  scope: QuotaScope;
+  // The rep's name, or the name of the team or territory
+  scopeId: string;
+  targetValue: number;
+  // yyyy-mm-dd; applies from the week containing this day, null when it always applied
+  effectiveFrom: string | null;
+  updatedAt: Date;
+};
+
+export type QuotaInput = Omit<Quota, 'id' | 'updatedAt'>;
+
+export type RepAssignment = StoredRecord & {
+  userId: string;
+  // Empty when the rep has no team or territory
+  team: string;
+  territory: string;
+  updatedAt: Date;
+};
+
+// Everything needed to find anyone's quota
+export type QuotaBook = {
+  quotas: Quota[];
+  assignments: RepAssignment[];
+};
+
+export const EMPTY_QUOTA_BOOK: QuotaBook = { quotas: [], assignments: [] };
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const quotasCollection = () => getRecordStore().collection<Quota>(QUOTAS_COLLECTION);
+const assignmentsCollection = () => getRecordStore().collection<RepAssignment>(REP_ASSIGNMENTS_COLLECTION);
+
+const sortQuotas = (quotas: Quota[]) => [...quotas].sort((a, b) => (
+  a.metricTitle.localeCompare(b.metricTitle) ||
+  QUOTA_SCOPES.indexOf(a.scope) - QUOTA_SCOPES.indexOf(b.scope) ||
+  a.scopeId.localeCompare(b.scopeId) ||
+  (a.effectiveFrom ?? '').localeCompare(b.effectiveFrom ?? '')
+));
+
+/**
+ * Find the quota a rep is measured against for a metric in a week
+ * @returns The quota in force, null when the metric's target applies
+ */
+export const findQuota = (book: QuotaBook, metricTitle: string, userId: string, weekId: string): Quota | null => {
+  const name = userId.trim();
+  const assignment = book.assignments.find(candidate => candidate.userId === name);
+  const scopeIds: Record<QuotaScope, string> = {
+    user: name,
+    team: assignment?.team ?? '',
+    territory: assignment?.territory ?? ''
+  };
+  const weekEnd = toDateKey(getWeekDatesForId(weekId).end);
+
+  for (const scope of QUOTA_SCOPES) {
+    if (!scopeIds[scope]) continue;
+    // The latest quota that started by the end of the week; undated quotas come first
+    const quota = book.quotas
+      .filter(candidate => (
+        candidate.metricTitle === metricTitle &&
+        candidate.scope === scope &&
+        candidate.scopeId === scopeIds[scope] &&
+        (candidate.effectiveFrom === null || candidate.effectiveFrom <= weekEnd)
+      ))
+      .sort((a, b) => (a.effectiveFrom ?? '').localeCompare(b.effectiveFrom ?? ''))
+      .pop();
+    if (quota) return quota;
+  }
+  return null;
+};
+
+/**
+ * Get the target value a rep's report metric is measured against in its week:
+ * their quota, otherwise the metric's target in force (see getTargetValueInForce)
+ */
+export const getIndividualTargetValue = (
+  definitions: TargetedMetric[],
+  book: QuotaBook,
+  metric: Pick<MetricData, 'title' | 'targetValue'>,
+  userId: string,
+  weekId: string
+): number => {
+  return findQuota(book, metric.title, userId, weekId)?.targetValue ?? getTargetValueInForce(definitions, metric, weekId);
+};
+
+/**
+ * Set a rep's quotas as the targets of their report's metrics, so the stored
+ * report shows what the rep was measured against
+ * @returns The metrics, with the target of those that have a quota replaced
+ */
+export const applyQuotas = (metrics: MetricData[], book: QuotaBook, userId: string, weekId: string): MetricData[] => {
+  return metrics.map(metric => {
+    const quota = findQuota(book, metric.title, userId, weekId);
+    // Rates keep their trailing %, so they are still not prorated
+    return quota
+      ? { ...metric, target: `Quota: ${formatValueFor(metric, quota.targetValue)}`, targetValue: quota.targetValue }
+      : metric;
+  });
+};
+
+/**
+ * Check a quota before it is saved
+ * @param metricTitles Titles of the metrics in the registry
+ * @returns Problems found, empty when the quota is valid
+ */
+export const validateQuota = (quota: QuotaInput, metricTitles: string[]): string[] => {
+  const issues: string[] = [];
+  if (!metricTitles.includes(quota.metricTitle)) {
+    issues.push('Choose a metric from the registry');
+  }
+  if (!QUOTA_SCOPES.includes(quota.scope)) {
+    issues.push(`A quota applies to one of ${QUOTA_SCOPES.join(', ')}`);
+  }
+  if (!quota.scopeId.trim()) {
+    issues.push(`Enter the name of the ${QUOTA_SCOPE_LABELS[quota.scope]?.toLowerCase() ?? 'rep'}`);
+  }
+  if (!Number.isFinite(quota.targetValue) || quota.targetValue < 0) {
+    issues.push('The quota must be a number of at least 0');
+  }
+  if (quota.effectiveFrom !== null && !DATE_KEY_PATTERN.test(quota.effectiveFrom)) {
+    issues.push('The start date must be a date');
+  }
+  return issues;
+};
+
+/**
+ * Read every quota and team and territory assignment
+ */
+export const loadQuotaBook = async (): Promise<QuotaBook> => {
+  try {
+    const [quotas, assignments] = await Promise.all([quotasCollection().list(), assignmentsCollection().list()]);
+    return { quotas: sortQuotas(quotas), assignments };
+  } catch (error) {
+    console.error('Error loading quotas:', error);
+    throw error;
+  }
+};
+
+/**
+ * Follow every quota, by metric, scope and name
+ * @returns Stops the subscription
+ */
+export const subscribeToQuotas = (
+  onChange: (quotas: Quota[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return quotasCollection().subscribe({}, quotas => onChange(sortQuotas(quotas)), onError);
+};
+
+/**
+ * Set a quota; an existing quota for the same metric, scope, name and start date is replaced
+ * @returns The saved quota
+ */
+export const setQuota = async (input: QuotaInput): Promise<Quota> => {
+  const definitions = await getMetricDefinitions();
+  const issues = validateQuota(input, definitions.map(definition => definition.title));
+  if (issues.length > 0) {
+    throw new Error(issues.join('. '));
+  }
+
+  try {
+    const collection = quotasCollection();
+    const quota = { ...input, scopeId: input.scopeId.trim() };
+    const existing = await collection.list({ metricTitle: quota.metricTitle, scope: quota.scope, scopeId: quota.scopeId });
+    for (const entry of existing.filter(candidate => candidate.effectiveFrom === quota.effectiveFrom)) {
+      await collection.delete(entry.id);
+    }
+    return await collection.add({ ...quota, updatedAt: new Date() });
+  } catch (error) {
+    console.error('Error setting quota:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a quota
+ * @param id The quota id
+ */
+export const deleteQuota = async (id: string) => {
+  try {
+    await quotasCollection().delete(id);
+  } catch (error) {
+    console.error('Error deleting quota:', error);
+    throw error;
+  }
+};
+
+/**
+ * Follow every team and territory assignment, by name
+ * @returns Stops the subscription
+ */
+export const subscribeToRepAssignments = (
+  onChange: (assignments: RepAssignment[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return assignmentsCollection().subscribe(
+    {},
+    assignments => onChange([...assignments].sort((a, b) => a.userId.localeCompare(b.userId))),
+    onError
+  );
+};
+
+/**
+ * Put a rep in a team and territory; with neither the assignment is removed
+ * @param userId The name the rep reports under
+ */
+export const setRepAssignment = async (userId: string, team: string, territory: string) => {
+  const name = userId.trim();
+  if (!name) {
+    throw new Error('Enter the name the rep reports under');
+  }
+
+  try {
+    const collection = assignmentsCollection();
+    const existing = await collection.list({ userId: name });
+    for (const entry of existing) {
+      await collection.delete(entry.id);
+    }
+    if (team.trim() || territory.trim()) {
+      await collection.add({ userId: name, team: team.trim(), territory: territory.trim(), updatedAt: new Date() });
+    }
+  } catch (error) {
+    console.error('Error setting rep assignment:', error);
+    throw error;
+  }
+};
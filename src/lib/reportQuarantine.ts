@@ -0,0 +1,70 @@
+/**
+ * Registry of stored reports that failed validation. Queries skip these
+ * documents instead of failing, and the UI reads this registry to tell users
+ * that some reports could not be shown.
+ */
+
+export type QuarantinedReport = {
+  id: string;
+  issues: string[];
+  detectedAt: Date;
+};
+
+type QuarantineListener = (reports: QuarantinedReport[]) => void;
+
+const quarantined = new Map<string, QuarantinedReport>();
+const listeners = new Set<QuarantineListener>();
+
+const notify = () => {
+  const reports = getQuarantinedReports();
+  for (const listener of listeners) {
+    listener(reports);
+  }
+};
+
+/**
+ * Record a report that failed validation
+ * @param id The document id
+ * @param issues Validation messages describing what is wrong
+ */
+export const quarantineReport = (id: string, issues: string[]): void => {
+  const existing = quarantined.get(id);
+  if (existing && existing.issues.join('\n') === issues.join('\n')) {
+    return;
+  }
+
+  console.warn(`Skipping invalid report ${id}:`, issues);
+  quarantined.set(id, { id, issues, detectedAt: new Date() });
+  notify();
+};
+
+/**
+ * Remove a report from quarantine, e.g. after it was fixed or deleted
+ * @param id The document id
+ */
+export const releaseReport = (id: string): void => {
+  if (quarantined.delete(id)) {
+    notify();
+  }
+};
+
+/**
+ * Get all reports currently in quarantine
+ * @returns Quarantined reports, most recently detected first
+ */
+export const getQuarantinedReports = (): QuarantinedReport[] => {
+  return Array.from(quarantined.values())
+    .sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime());
+};
+
+/**
+ * Listen for changes to the quarantine
+ * @param listener Called with the full list whenever it changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToQuarantine = (listener: QuarantineListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
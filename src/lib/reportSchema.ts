@@ -0,0 +1,299 @@
+import type { MetricData, MetricValueType, ReviewEvent, UserRole, WeeklyReport } from '@/types';
+import { getWeekId, isWeekId } from './dateUtils';
+
+/**
+ * Runtime validation for weekly report documents. Stored data may predate the
+ * current types or be edited by hand, so every backend parses raw documents
+ * through here instead of casting them.
+ */
+
+export type ParseResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: string[] };
+
+// Version written on new documents; older documents are upgraded by lib/migrations
+export const REPORT_SCHEMA_VERSION = 8;
+
+const REPORT_STATUSES: WeeklyReport['status'][] = ['pending', 'submitted', 'under-review', 'approved', 'returned'];
+
+const REVIEW_ACTIONS: ReviewEvent['action'][] = ['submit', 'withdraw', 'start-review', 'approve', 'return', 'reopen'];
+
+const USER_ROLES: UserRole[] = ['rep', 'manager', 'admin'];
+
+const METRIC_VALUE_TYPES: MetricValueType[] = ['count', 'decimal', 'percent', 'currency', 'area'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Read a date stored as a Firestore Timestamp, a Date, an ISO string or epoch millis
+ * @returns The date, or null if the value cannot be interpreted as a valid date
+ */
+export const parseDateValue = (value: unknown): Date | null => {
+  let date: Date | null = null;
+
+  if (value instanceof Date) {
+    date = value;
+  } else if (isRecord(value) && typeof value.toDate === 'function') {
+    date = (value.toDate as () => Date)();
+  } else if (typeof value === 'string' || typeof value === 'number') {
+    date = new Date(value);
+  }
+
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+};
+
+const optionalString = (value: unknown, field: string, issues: string[]): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') {
+    issues.push(`${field} must be a string`);
+    return '';
+  }
+  return value;
+};
+
+const optionalNumber = (value: unknown, field: string, issues: string[]): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    issues.push(`${field} must be a number`);
+    return undefined;
+  }
+  return value;
+};
+
+/**
+ * Validate a single metric entry
+ * @param raw The stored metric object
+ * @param path Field path used to prefix issue messages
+ */
+export const parseMetricData = (raw: unknown, path = 'metric'): ParseResult<MetricData> => {
+  if (!isRecord(raw)) {
+    return { success: false, issues: [`${path} must be an object`] };
+  }
+
+  const issues: string[] = [];
+
+  let id = '';
+  if (typeof raw.id === 'string' && raw.id) {
+    id = raw.id;
+  } else if (typeof raw.id === 'number') {
+    id = String(raw.id);
+  } else {
+    issues.push(`${path}.id is missing`);
+  }
+
+  if (typeof raw.title !== 'string' || !raw.title) {
+    issues.push(`${path}.title is missing`);
+  }
+
+  const metric: MetricData = {
+    id,
+    title: typeof raw.title === 'string' ? raw.title : '',
+    target: optionalString(raw.target, `${path}.target`, issues),
+    frequency: optionalString(raw.frequency, `${path}.frequency`, issues),
+    trackingMethod: optionalString(raw.trackingMethod, `${path}.trackingMethod`, issues),
+    completed: !!raw.completed
+  };
+
+  // Absent numbers are left out rather than set to undefined, which Firestore rejects on write
+  const value = optionalNumber(raw.value, `${path}.value`, issues);
+  if (value !== undefined) {
+    metric.value = value;
+  }
+  const targetValue = optionalNumber(raw.targetValue, `${path}.targetValue`, issues);
+  if (targetValue !== undefined) {
+    metric.targetValue = targetValue;
+  }
+  const previousValue = optionalNumber(raw.previousValue, `${path}.previousValue`, issues);
+  if (previousValue !== undefined) {
+    metric.previousValue = previousValue;
+  }
+
+  // Only derived metrics have a formula; the field is left out otherwise
+  const formula = optionalString(raw.formula, `${path}.formula`, issues);
+  if (formula.trim()) {
+    metric.formula = formula;
+  }
+
+  // The value format is left out on metrics stored before value types existed
+  if (raw.valueType !== undefined && raw.valueType !== null) {
+    if (METRIC_VALUE_TYPES.includes(raw.valueType as MetricValueType)) {
+      metric.valueType = raw.valueType as MetricValueType;
+    } else {
+      issues.push(`${path}.valueType must be one of ${METRIC_VALUE_TYPES.join(', ')}`);
+    }
+  }
+  if (raw.unit !== undefined && raw.unit !== null) {
+    metric.unit = optionalString(raw.unit, `${path}.unit`, issues);
+  }
+  const precision = optionalNumber(raw.precision, `${path}.precision`, issues);
+  if (precision !== undefined) {
+    metric.precision = precision;
+  }
+  const min = optionalNumber(raw.min, `${path}.min`, issues);
+  if (min !== undefined) {
+    metric.min = min;
+  }
+  const max = optionalNumber(raw.max, `${path}.max`, issues);
+  if (max !== undefined) {
+    metric.max = max;
+  }
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, value: metric };
+};
+
+/**
+ * Validate a single review history entry
+ * @param raw The stored event object
+ * @param path Field path used to prefix issue messages
+ */
+export const parseReviewEvent = (raw: unknown, path = 'reviewEvent'): ParseResult<ReviewEvent> => {
+  if (!isRecord(raw)) {
+    return { success: false, issues: [`${path} must be an object`] };
+  }
+
+  const issues: string[] = [];
+  const action = raw.action as ReviewEvent['action'];
+  if (!REVIEW_ACTIONS.includes(action)) {
+    issues.push(`${path}.action must be one of ${REVIEW_ACTIONS.join(', ')}`);
+  }
+  const from = raw.from as ReviewEvent['from'];
+  const to = raw.to as ReviewEvent['to'];
+  if (!REPORT_STATUSES.includes(from) || !REPORT_STATUSES.includes(to)) {
+    issues.push(`${path}.from and ${path}.to must be report statuses`);
+  }
+  const role = raw.role as UserRole;
+  if (!USER_ROLES.includes(role)) {
+    issues.push(`${path}.role must be one of ${USER_ROLES.join(', ')}`);
+  }
+  const at = parseDateValue(raw.at);
+  if (!at) {
+    issues.push(`${path}.at is missing or not a valid date`);
+  }
+  const by = optionalString(raw.by, `${path}.by`, issues);
+  const reason = optionalString(raw.reason, `${path}.reason`, issues);
+
+  if (issues.length > 0 || !at) {
+    return { success: false, issues };
+  }
+  return { success: true, value: { action, from, to, by, role, at, reason } };
+};
+
+/**
+ * Validate a stored weekly report document
+ * @param id The document id
+ * @param raw The stored document fields
+ */
+export const parseWeeklyReport = (id: string, raw: unknown): ParseResult<WeeklyReport> => {
+  if (!isRecord(raw)) {
+    return { success: false, issues: ['document has no data'] };
+  }
+
+  const issues: string[] = [];
+
+  if (typeof raw.userId !== 'string') {
+    issues.push('userId must be a string');
+  }
+
+  const createdAt = parseDateValue(raw.createdAt);
+  if (!createdAt) {
+    issues.push('createdAt is missing or not a valid date');
+  }
+
+  const weekEndingDate = parseDateValue(raw.weekEndingDate);
+  if (!weekEndingDate) {
+    issues.push('weekEndingDate is missing or not a valid date');
+  }
+
+  // Documents written before week ids existed get the id of their week ending date
+  let weekId = weekEndingDate ? getWeekId(weekEndingDate) : '';
+  if (raw.weekId !== undefined) {
+    if (isWeekId(raw.weekId)) {
+      weekId = raw.weekId;
+    } else {
+      issues.push('weekId must be an ISO week such as 2024-W05');
+    }
+  }
+
+  const status = raw.status as WeeklyReport['status'];
+  if (!REPORT_STATUSES.includes(status)) {
+    issues.push(`status must be one of ${REPORT_STATUSES.join(', ')}`);
+  }
+
+  const metrics: MetricData[] = [];
+  if (Array.isArray(raw.metrics)) {
+    raw.metrics.forEach((rawMetric, index) => {
+      const result = parseMetricData(rawMetric, `metrics[${index}]`);
+      if (result.success) {
+        metrics.push(result.value);
+      } else {
+        issues.push(...result.issues);
+      }
+    });
+  } else {
+    issues.push('metrics must be an array');
+  }
+
+  const reportText = optionalString(raw.reportText, 'reportText', issues);
+
+  if (raw.version !== undefined && (typeof raw.version !== 'number' || !Number.isInteger(raw.version))) {
+    issues.push('version must be an integer');
+  }
+
+  let submittedAt: Date | null = null;
+  if (raw.submittedAt !== undefined && raw.submittedAt !== null) {
+    submittedAt = parseDateValue(raw.submittedAt);
+    if (!submittedAt) {
+      issues.push('submittedAt is not a valid date');
+    }
+  }
+
+  // Documents written before the review workflow have no history
+  const reviewHistory: ReviewEvent[] = [];
+  if (Array.isArray(raw.reviewHistory)) {
+    raw.reviewHistory.forEach((rawEvent, index) => {
+      const result = parseReviewEvent(rawEvent, `reviewHistory[${index}]`);
+      if (result.success) {
+        reviewHistory.push(result.value);
+      } else {
+        issues.push(...result.issues);
+      }
+    });
+  } else if (raw.reviewHistory !== undefined && raw.reviewHistory !== null) {
+    issues.push('reviewHistory must be an array');
+  }
+
+  let deletedAt: Date | null = null;
+  if (raw.deletedAt !== undefined && raw.deletedAt !== null) {
+    deletedAt = parseDateValue(raw.deletedAt);
+    if (!deletedAt) {
+      issues.push('deletedAt is not a valid date');
+    }
+  }
+
+  if (issues.length > 0 || !createdAt || !weekEndingDate) {
+    return { success: false, issues };
+  }
+
+  return {
+    success: true,
+    value: {
+      id,
+      userId: raw.userId as string,
+      reportText,
+      metrics,
+      createdAt,
+      weekEndingDate,
+      weekId,
+      status,
+      submittedAt,
+      reviewHistory,
+      archived: !!raw.archived,
+      deletedAt,
+      version: typeof raw.version === 'number' ? raw.version : 0,
+      // Documents written before versioning count as version 0
+      schemaVersion: typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0
+    }
+  };
+};
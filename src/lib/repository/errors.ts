@@ -0,0 +1,39 @@
+/**
+ * Thrown when an update was based on an outdated version of a report,
+ * i.e. someone else saved the report in the meantime.
+ */
+export class ReportConflictError extends Error {
+  readonly reportId: string;
+  readonly expectedVersion: number;
+  readonly actualVersion: number;
+
+  constructor(reportId: string, expectedVersion: number, actualVersion: number) {
+    super(`Report ${reportId} was changed by someone else (expected version ${expectedVersion}, found ${actualVersion})`);
+    this.name = 'ReportConflictError';
+    this.reportId = reportId;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
+export const isReportConflictError = (error: unknown): error is ReportConflictError => {
+  return error instanceof ReportConflictError;
+};
+
+/**
+ * Thrown when a report is created under an id that is already taken,
+ * e.g. the week's report of a user that someone else just created.
+ */
+export class ReportExistsError extends Error {
+  readonly reportId: string;
+
+  constructor(reportId: string) {
+    super(`Report ${reportId} already exists`);
+    this.name = 'ReportExistsError';
+    this.reportId = reportId;
+  }
+}
+
+export const isReportExistsError = (error: unknown): error is ReportExistsError => {
+  return error instanceof ReportExistsError;
+};
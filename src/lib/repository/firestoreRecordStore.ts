@@ -0,0 +1,120 @@
+import {
+  collection,
+  addDoc,
+  query,
+  getDocs,
+  Timestamp,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  where,
+  onSnapshot,
+  type DocumentData,
+  type Firestore
+} from 'firebase/firestore';
+import type { RecordCollection, RecordStore, StoredRecord } from './types';
+
+// Recursively convert Dates to Timestamps before writing
+const toFirestoreValue = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return Timestamp.fromDate(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toFirestoreValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        // Firestore rejects undefined fields
+        .filter(([, fieldValue]) => fieldValue !== undefined)
+        .map(([key, fieldValue]) => [key, toFirestoreValue(fieldValue)])
+    );
+  }
+  return value;
+};
+
+// Recursively convert Timestamps back to Dates after reading
+const fromFirestoreValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) {
+    return value.toDate();
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromFirestoreValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, fieldValue]) => [key, fromFirestoreValue(fieldValue)])
+    );
+  }
+  return value;
+};
+
+const toRecord = <T extends StoredRecord>(id: string, data: DocumentData): T => {
+  return { ...(fromFirestoreValue(data) as object), id } as T;
+};
+
+export const createFirestoreRecordStore = (db: Firestore): RecordStore => ({
+  collection: <T extends StoredRecord>(name: string): RecordCollection<T> => {
+    const recordsCollection = collection(db, name);
+
+    const queryMatching = (filter: Partial<T>) => {
+      const constraints = Object.entries(filter)
+        .filter(([field]) => field !== 'id')
+        .map(([field, value]) => where(field, '==', toFirestoreValue(value)));
+      return query(recordsCollection, ...constraints);
+    };
+
+    return {
+      get: async (id: string) => {
+        const docSnap = await getDoc(doc(recordsCollection, id));
+        return docSnap.exists() ? toRecord<T>(docSnap.id, docSnap.data()) : null;
+      },
+
+      list: async (filter: Partial<T> = {}) => {
+        const querySnapshot = await getDocs(queryMatching(filter));
+        return querySnapshot.docs.map(snapshot => toRecord<T>(snapshot.id, snapshot.data()));
+      },
+
+      subscribe: (filter: Partial<T>, onChange: (records: T[]) => void, onError?: (error: Error) => void) => {
+        return onSnapshot(
+          queryMatching(filter),
+          querySnapshot => onChange(querySnapshot.docs.map(snapshot => toRecord<T>(snapshot.id, snapshot.data()))),
+          error => onError?.(error)
+        );
+      },
+
+      subscribeContaining: (
+        field: keyof T & string,
+        value: unknown,
+        onChange: (records: T[]) => void,
+        onError?: (error: Error) => void
+      ) => {
+        return onSnapshot(
+          query(recordsCollection, where(field, 'array-contains', toFirestoreValue(value))),
+          querySnapshot => onChange(querySnapshot.docs.map(snapshot => toRecord<T>(snapshot.id, snapshot.data()))),
+          error => onError?.(error)
+        );
+      },
+
+      add: async (data: Omit<T, 'id'>) => {
+        const docRef = await addDoc(recordsCollection, toFirestoreValue(data) as DocumentData);
+        return { ...data, id: docRef.id } as T;
+      },
+
+      set: async (record: T) => {
+        const { id, ...data } = record;
+        await setDoc(doc(recordsCollection, id), toFirestoreValue(data) as DocumentData);
+      },
+
+      update: async (id: string, update: Partial<Omit<T, 'id'>>) => {
+        await updateDoc(doc(recordsCollection, id), toFirestoreValue(update) as DocumentData);
+      },
+
+      delete: async (id: string) => {
+        await deleteDoc(doc(recordsCollection, id));
+      }
+    };
+  }
+});
@@ -0,0 +1,311 @@
+import {
+  collection,
+  addDoc,
+  query,
+  getDocs,
+  Timestamp,
+  orderBy,
+  doc,
+  getDoc,
+  updateDoc,
+  deleteDoc,
+  where,
+  limit,
+  startAfter,
+  endBefore,
+  limitToLast,
+  documentId,
+  writeBatch,
+  runTransaction,
+  increment,
+  onSnapshot,
+  type DocumentData,
+  type QuerySnapshot,
+  type Firestore,
+  type FirestoreDataConverter,
+  type QueryConstraint
+} from 'firebase/firestore';
+import type { WeeklyReport } from '@/types';
+import { parseWeeklyReport } from '@/lib/reportSchema';
+import { quarantineReport, releaseReport } from '@/lib/reportQuarantine';
+import { ReportConflictError, ReportExistsError } from './errors';
+import type {
+  CreateReportOptions,
+  NewWeeklyReport,
+  RawReportDocument,
+  ReportQuery,
+  ReportRepository,
+  ReportUpdate,
+  Unsubscribe,
+  UpdateReportOptions
+} from './types';
+
+const REPORTS_COLLECTION = 'weeklyReports';
+
+// Drop undefined fields at any depth, which Firestore rejects
+const withoutUndefined = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(withoutUndefined);
+  }
+  // Only plain objects; Dates and Firestore values such as Timestamps are kept as they are
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, fieldValue]) => fieldValue !== undefined)
+        .map(([key, fieldValue]) => [key, withoutUndefined(fieldValue)])
+    );
+  }
+  return value;
+};
+
+// Convert Date fields to Firestore Timestamps before writing
+const toFirestoreData = (data: ReportUpdate): DocumentData => {
+  const result = withoutUndefined(data) as DocumentData;
+  for (const [key, value] of Object.entries(result)) {
+    if (value instanceof Date) {
+      result[key] = Timestamp.fromDate(value);
+    }
+  }
+  return result;
+};
+
+// Convert top-level Timestamps to Dates for raw document access
+const fromFirestoreData = (data: DocumentData): Record<string, unknown> => {
+  const result: Record<string, unknown> = { ...data };
+  for (const [key, value] of Object.entries(result)) {
+    if (value instanceof Timestamp) {
+      result[key] = value.toDate();
+    }
+  }
+  return result;
+};
+
+/**
+ * Validating converter used by every read of the reports collection.
+ * Documents that fail validation are quarantined and read as null, so one
+ * malformed report cannot break a whole list.
+ */
+export const weeklyReportConverter: FirestoreDataConverter<WeeklyReport | null, DocumentData> = {
+  toFirestore: (report) => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { id, ...data } = report as WeeklyReport;
+    return toFirestoreData(data);
+  },
+  fromFirestore: (snapshot) => {
+    const result = parseWeeklyReport(snapshot.id, snapshot.data());
+    if (!result.success) {
+      quarantineReport(snapshot.id, result.issues);
+      return null;
+    }
+    releaseReport(snapshot.id);
+    return result.value;
+  }
+};
+
+export const createFirestoreReportRepository = (db: Firestore): ReportRepository => {
+  const reportsCollection = collection(db, REPORTS_COLLECTION);
+  const convertedCollection = reportsCollection.withConverter(weeklyReportConverter);
+
+  const getSnapshot = (id: string) => getDoc(doc(convertedCollection, id));
+
+  // Trashed reports (deletedAt set) and a second date range are filtered after the query
+  const needsMemoryFilter = (reportQuery: ReportQuery) => {
+    return !!reportQuery.weekEndingDate && !!reportQuery.createdAt;
+  };
+
+  // Translate the parts of a ReportQuery that Firestore can evaluate
+  const buildQuery = async (reportQuery: ReportQuery) => {
+    const constraints: QueryConstraint[] = [];
+
+    if (reportQuery.userId !== undefined) {
+      constraints.push(where('userId', '==', reportQuery.userId));
+    }
+    if (reportQuery.status !== undefined) {
+      constraints.push(Array.isArray(reportQuery.status)
+        ? where('status', 'in', reportQuery.status)
+        : where('status', '==', reportQuery.status));
+    }
+    if (reportQuery.weekId !== undefined) {
+      constraints.push(where('weekId', '==', reportQuery.weekId));
+    }
+    // Documents written before archiving and the trash existed get `archived` and
+    // `deletedAt` from migrations v1 and v4, so both flags can be queried
+    if (reportQuery.archived !== undefined) {
+      constraints.push(where('archived', '==', reportQuery.archived));
+    }
+    // Every query shape this produces needs its composite index in firestore.indexes.json
+    constraints.push(reportQuery.deleted ? where('deletedAt', '!=', null) : where('deletedAt', '==', null));
+
+    // Firestore only allows range filters on one field per query without extra indexes;
+    // the createdAt range is applied in memory when both are present
+    const rangeInQuery = reportQuery.weekEndingDate ? 'weekEndingDate' : 'createdAt';
+    const range = reportQuery[rangeInQuery];
+    if (range?.from) {
+      constraints.push(where(rangeInQuery, '>=', Timestamp.fromDate(range.from)));
+    }
+    if (range?.to) {
+      constraints.push(where(rangeInQuery, '<=', Timestamp.fromDate(range.to)));
+    }
+
+    if (reportQuery.orderBy) {
+      constraints.push(orderBy(reportQuery.orderBy.field, reportQuery.orderBy.direction));
+    }
+
+    if (reportQuery.startAfterId) {
+      constraints.push(startAfter(await getSnapshot(reportQuery.startAfterId)));
+    }
+    if (reportQuery.endBeforeId) {
+      constraints.push(endBefore(await getSnapshot(reportQuery.endBeforeId)));
+    }
+
+    // The limit can only be pushed down when every filter ran in Firestore
+    if (reportQuery.limit !== undefined && !needsMemoryFilter(reportQuery)) {
+      constraints.push(reportQuery.endBeforeId ? limitToLast(reportQuery.limit) : limit(reportQuery.limit));
+    }
+
+    return query(convertedCollection, ...constraints);
+  };
+
+  // Apply the filters Firestore could not, then the limit
+  const filterResults = (snapshot: QuerySnapshot<WeeklyReport | null>, reportQuery: ReportQuery): WeeklyReport[] => {
+    let reports = snapshot.docs
+      .map(docSnapshot => docSnapshot.data())
+      .filter((report): report is WeeklyReport => report !== null);
+    if (!needsMemoryFilter(reportQuery)) {
+      return reports;
+    }
+
+    reports = reports.filter(report => {
+      if (reportQuery.weekEndingDate && reportQuery.createdAt) {
+        const { from, to } = reportQuery.createdAt;
+        if (from && report.createdAt < from) return false;
+        if (to && report.createdAt > to) return false;
+      }
+      return true;
+    });
+
+    // The limit is applied after the in-memory filters above
+    if (reportQuery.limit !== undefined) {
+      reports = reportQuery.endBeforeId
+        ? reports.slice(-reportQuery.limit)
+        : reports.slice(0, reportQuery.limit);
+    }
+
+    return reports;
+  };
+
+  const queryReports = async (reportQuery: ReportQuery): Promise<WeeklyReport[]> => {
+    const querySnapshot = await getDocs(await buildQuery(reportQuery));
+    return filterResults(querySnapshot, reportQuery);
+  };
+
+  const subscribeReports = (
+    reportQuery: ReportQuery,
+    onChange: (reports: WeeklyReport[]) => void,
+    onError?: (error: Error) => void
+  ) => {
+    let unsubscribe: Unsubscribe | null = null;
+    let cancelled = false;
+
+    // Cursor lookups make building the query asynchronous
+    buildQuery(reportQuery)
+      .then(builtQuery => {
+        if (cancelled) return;
+        unsubscribe = onSnapshot(
+          builtQuery,
+          querySnapshot => onChange(filterResults(querySnapshot, reportQuery)),
+          error => onError?.(error)
+        );
+      })
+      .catch(error => onError?.(error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  };
+
+  return {
+    kind: 'firestore',
+
+    createReport: async (data: NewWeeklyReport, options: CreateReportOptions = {}) => {
+      if (options.id === undefined) {
+        const docRef = await addDoc(reportsCollection, toFirestoreData(data));
+        return { id: docRef.id, ...data };
+      }
+
+      // Check and write in one transaction so two creators cannot both succeed
+      const id = options.id;
+      const reportRef = doc(db, REPORTS_COLLECTION, id);
+      await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(reportRef);
+        if (snapshot.exists()) {
+          throw new ReportExistsError(id);
+        }
+        transaction.set(reportRef, toFirestoreData(data));
+      });
+      return { id, ...data };
+    },
+
+    getReport: async (id: string) => {
+      const docSnap = await getSnapshot(id);
+      // Missing and quarantined documents both read as null
+      return docSnap.exists() ? docSnap.data() : null;
+    },
+
+    queryReports,
+
+    subscribeReports,
+
+    updateReport: async (id: string, update: ReportUpdate, options: UpdateReportOptions = {}) => {
+      const reportRef = doc(db, REPORTS_COLLECTION, id);
+      const { expectedVersion } = options;
+
+      if (expectedVersion === undefined) {
+        await updateDoc(reportRef, { ...toFirestoreData(update), version: increment(1) });
+        return;
+      }
+
+      // Compare and write in one transaction so a concurrent save cannot slip in between
+      await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(reportRef);
+        if (!snapshot.exists()) {
+          throw new Error(`Report ${id} not found`);
+        }
+        const storedVersion = snapshot.data().version;
+        const actualVersion = typeof storedVersion === 'number' ? storedVersion : 0;
+        if (actualVersion !== expectedVersion) {
+          throw new ReportConflictError(id, expectedVersion, actualVersion);
+        }
+        transaction.update(reportRef, { ...toFirestoreData(update), version: expectedVersion + 1 });
+      });
+    },
+
+    deleteReport: async (id: string) => {
+      await deleteDoc(doc(db, REPORTS_COLLECTION, id));
+      releaseReport(id);
+    },
+
+    listReportDocuments: async ({ limit: pageSize, startAfterId }) => {
+      const constraints: QueryConstraint[] = [orderBy(documentId())];
+      if (startAfterId !== undefined) {
+        constraints.push(startAfter(startAfterId));
+      }
+      constraints.push(limit(pageSize));
+
+      const querySnapshot = await getDocs(query(reportsCollection, ...constraints));
+      return querySnapshot.docs.map(snapshot => ({
+        id: snapshot.id,
+        data: fromFirestoreData(snapshot.data())
+      }));
+    },
+
+    writeReportDocuments: async (documents: RawReportDocument[]) => {
+      const batch = writeBatch(db);
+      for (const document of documents) {
+        batch.set(doc(db, REPORTS_COLLECTION, document.id), toFirestoreData(document.data));
+      }
+      await batch.commit();
+    }
+  };
+};
@@ -0,0 +1,20 @@
+// Generate a Firestore-style random document id
+export const generateId = (): string => {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let id = '';
+  for (let i = 0; i < 20; i++) {
+    id += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return id;
+};
+
+/**
+ * Id of a user's report for a week. Creating reports under it makes "one
+ * report per user per week" hold at write time, whoever creates the report.
+ * @param userId The user's name
+ * @param weekId The week id, see getWeekId in lib/dateUtils
+ */
+export const getWeekReportId = (userId: string, weekId: string): string => {
+  // Names may contain characters that are not allowed in document ids, such as "/"
+  return `${encodeURIComponent(userId.trim())}_${weekId}`;
+};
@@ -0,0 +1,81 @@
+import { db } from '@/lib/firebase';
+import { createFirestoreReportRepository } from './firestoreReportRepository';
+import { createFirestoreRecordStore } from './firestoreRecordStore';
+import { createMemoryReportRepository } from './memoryReportRepository';
+import { createMemoryRecordStore } from './memoryRecordStore';
+import { createBrowserSnapshotStorage } from './snapshotStorage';
+import type { RecordStore, ReportBackend, ReportRepository } from './types';
+
+export type * from './types';
+export { createFirestoreReportRepository } from './firestoreReportRepository';
+export { createFirestoreRecordStore } from './firestoreRecordStore';
+export {
+  createMemoryReportRepository,
+  serializeReports,
+  deserializeReports
+} from './memoryReportRepository';
+export { createMemoryRecordStore } from './memoryRecordStore';
+export { createBrowserSnapshotStorage, type SnapshotStorage } from './snapshotStorage';
+export { ReportConflictError, isReportConflictError, ReportExistsError, isReportExistsError } from './errors';
+export { generateId, getWeekReportId } from './ids';
+
+/**
+ * Resolve the configured backend from NEXT_PUBLIC_REPORT_BACKEND:
+ * - `firestore` (default): Firebase Firestore
+ * - `local`: in-memory store persisted as JSON in the browser's localStorage
+ * - `memory`: in-memory store that resets on reload (demos and tests)
+ */
+export const getConfiguredBackend = (): ReportBackend => {
+  const backend = process.env.NEXT_PUBLIC_REPORT_BACKEND;
+  if (backend === 'local' || backend === 'memory') {
+    return backend;
+  }
+  return 'firestore';
+};
+
+let repository: ReportRepository | null = null;
+let recordStore: RecordStore | null = null;
+
+// Get the shared repository instance for the configured backend
+export const getReportRepository = (): ReportRepository => {
+  if (!repository) {
+    switch (getConfiguredBackend()) {
+      case 'local':
+        repository = createMemoryReportRepository({ storage: createBrowserSnapshotStorage('localReports') });
+        break;
+      case 'memory':
+        repository = createMemoryReportRepository();
+        break;
+      default:
+        repository = createFirestoreReportRepository(db);
+    }
+  }
+  return repository;
+};
+
+// Get the shared store for auxiliary collections, on the same backend as reports
+export const getRecordStore = (): RecordStore => {
+  if (!recordStore) {
+    switch (getConfiguredBackend()) {
+      case 'local':
+        recordStore = createMemoryRecordStore({ storage: createBrowserSnapshotStorage('localRecords') });
+        break;
+      case 'memory':
+        recordStore = createMemoryRecordStore();
+        break;
+      default:
+        recordStore = createFirestoreRecordStore(db);
+    }
+  }
+  return recordStore;
+};
+
+// Replace the shared repository, e.g. with a seeded memory store in tests
+export const setReportRepository = (next: ReportRepository | null) => {
+  repository = next;
+};
+
+// Replace the shared record store
+export const setRecordStore = (next: RecordStore | null) => {
+  recordStore = next;
+};
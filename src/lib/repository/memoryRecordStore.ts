@@ -0,0 +1,141 @@
+import { generateId } from './ids';
+import type { SnapshotStorage } from './snapshotStorage';
+import type { RecordCollection, RecordStore, StoredRecord } from './types';
+
+type MemoryRecordStoreOptions = {
+  // Where to persist the JSON snapshot; omit for a purely in-memory store
+  storage?: SnapshotStorage;
+};
+
+type Snapshot = Record<string, Record<string, StoredRecord>>;
+
+// Dates are tagged in the JSON snapshot so they survive a round trip
+const DATE_TAG = '$date';
+
+const serializeSnapshot = (snapshot: Snapshot): string => {
+  return JSON.stringify(snapshot, function (key, value) {
+    const raw = (this as Record<string, unknown>)[key];
+    return raw instanceof Date ? { [DATE_TAG]: raw.toISOString() } : value;
+  }, 2);
+};
+
+const deserializeSnapshot = (json: string): Snapshot => {
+  return JSON.parse(json, (_key, value) => {
+    if (value && typeof value === 'object' && typeof value[DATE_TAG] === 'string') {
+      return new Date(value[DATE_TAG]);
+    }
+    return value;
+  });
+};
+
+const isEqualValue = (a: unknown, b: unknown): boolean => {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return a === b;
+};
+
+export const createMemoryRecordStore = (options: MemoryRecordStoreOptions = {}): RecordStore => {
+  const { storage } = options;
+  const stored = storage?.load();
+  let snapshot: Snapshot = stored ? deserializeSnapshot(stored) : {};
+
+  // Subscribers re-read their collection after every change
+  const listeners = new Set<() => void>();
+  const notify = () => {
+    listeners.forEach(listener => listener());
+  };
+
+  const persist = () => {
+    storage?.save(serializeSnapshot(snapshot));
+    notify();
+  };
+
+  // Pick up snapshots written by other tabs
+  storage?.subscribe?.((json) => {
+    snapshot = json ? deserializeSnapshot(json) : {};
+    notify();
+  });
+
+  return {
+    collection: <T extends StoredRecord>(name: string): RecordCollection<T> => {
+      const records = (): Record<string, T> => {
+        snapshot[name] = snapshot[name] || {};
+        return snapshot[name] as Record<string, T>;
+      };
+
+      const listMatching = (filter: Partial<T>): T[] => {
+        const conditions = Object.entries(filter);
+        return Object.values(records())
+          .filter(record => conditions.every(([field, value]) =>
+            isEqualValue((record as Record<string, unknown>)[field], value)
+          ))
+          .map(record => structuredClone(record));
+      };
+
+      const listContaining = (field: keyof T & string, value: unknown): T[] => {
+        return Object.values(records())
+          .filter(record => {
+            const items = (record as Record<string, unknown>)[field];
+            return Array.isArray(items) && items.some(item => isEqualValue(item, value));
+          })
+          .map(record => structuredClone(record));
+      };
+
+      return {
+        get: async (id: string) => {
+          const record = records()[id];
+          return record ? structuredClone(record) : null;
+        },
+
+        list: async (filter: Partial<T> = {}) => {
+          return listMatching(filter);
+        },
+
+        subscribe: (filter: Partial<T>, onChange: (records: T[]) => void) => {
+          const listener = () => onChange(listMatching(filter));
+          listeners.add(listener);
+          listener();
+          return () => {
+            listeners.delete(listener);
+          };
+        },
+
+        subscribeContaining: (field: keyof T & string, value: unknown, onChange: (records: T[]) => void) => {
+          const listener = () => onChange(listContaining(field, value));
+          listeners.add(listener);
+          listener();
+          return () => {
+            listeners.delete(listener);
+          };
+        },
+
+        add: async (data: Omit<T, 'id'>) => {
+          const record = { ...structuredClone(data), id: generateId() } as T;
+          records()[record.id] = record;
+          persist();
+          return structuredClone(record);
+        },
+
+        set: async (record: T) => {
+          records()[record.id] = structuredClone(record);
+          persist();
+        },
+
+        update: async (id: string, update: Partial<Omit<T, 'id'>>) => {
+          const record = records()[id];
+          if (!record) {
+            throw new Error(`Record ${name}/${id} not found`);
+          }
+          records()[id] = { ...record, ...structuredClone(update) };
+          persist();
+        },
+
+        delete: async (id: string) => {
+          delete records()[id];
+          persist();
+        }
+      };
+    }
+  };
+};
@@ -0,0 +1,204 @@
+import type { WeeklyReport } from '@/types';
+import { parseWeeklyReport } from '@/lib/reportSchema';
+import { quarantineReport, releaseReport } from '@/lib/reportQuarantine';
+import { applyReportQuery } from './queryUtils';
+import { generateId } from './ids';
+import { ReportConflictError, ReportExistsError } from './errors';
+import type { SnapshotStorage } from './snapshotStorage';
+import type {
+  CreateReportOptions,
+  NewWeeklyReport,
+  RawReportDocument,
+  ReportBackend,
+  ReportQuery,
+  ReportRepository,
+  ReportUpdate,
+  UpdateReportOptions
+} from './types';
+
+type MemoryReportRepositoryOptions = {
+  // Reports to start with when the storage is empty
+  seed?: WeeklyReport[];
+  // Where to persist the JSON snapshot; omit for a purely in-memory store
+  storage?: SnapshotStorage;
+  kind?: ReportBackend;
+};
+
+type RawEntry = Record<string, unknown>;
+
+// Serialize reports to the JSON snapshot format (dates as ISO strings)
+export const serializeReports = (reports: WeeklyReport[]): string => {
+  return JSON.stringify(reports, null, 2);
+};
+
+// Read the entries of a JSON snapshot, giving entries without an id a stable placeholder
+const readSnapshotEntries = (json: string): RawEntry[] => {
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Report snapshot must be a JSON array');
+  }
+  return parsed.map((raw, index) => ({
+    ...raw,
+    id: typeof raw?.id === 'string' ? raw.id : `#${index}`
+  }));
+};
+
+// Parse a JSON snapshot back into reports; entries that fail validation are quarantined
+export const deserializeReports = (json: string): WeeklyReport[] => {
+  const reports: WeeklyReport[] = [];
+  for (const entry of readSnapshotEntries(json)) {
+    const result = parseWeeklyReport(entry.id as string, entry);
+    if (result.success) {
+      reports.push(result.value);
+    } else {
+      quarantineReport(entry.id as string, result.issues);
+    }
+  }
+  return reports;
+};
+
+// Copy a report so callers can never mutate the stored instance
+const cloneReport = (report: WeeklyReport): WeeklyReport => ({
+  ...report,
+  metrics: report.metrics.map(metric => ({ ...metric })),
+  createdAt: new Date(report.createdAt),
+  weekEndingDate: new Date(report.weekEndingDate),
+  submittedAt: report.submittedAt ? new Date(report.submittedAt) : null,
+  reviewHistory: report.reviewHistory.map(event => ({ ...event, at: new Date(event.at) })),
+  deletedAt: report.deletedAt ? new Date(report.deletedAt) : null
+});
+
+export const createMemoryReportRepository = (
+  options: MemoryReportRepositoryOptions = {}
+): ReportRepository => {
+  const { seed = [], storage, kind = storage ? 'local' : 'memory' } = options;
+  const reports = new Map<string, WeeklyReport>();
+  // Entries that failed validation, kept verbatim so migrations can still repair them
+  const rejected = new Map<string, RawEntry>();
+
+  // Validate a raw entry and file it under valid reports or rejected entries
+  const storeEntry = (id: string, entry: RawEntry) => {
+    const result = parseWeeklyReport(id, entry);
+    if (result.success) {
+      reports.set(id, result.value);
+      rejected.delete(id);
+      releaseReport(id);
+    } else {
+      reports.delete(id);
+      rejected.set(id, { ...entry, id });
+      quarantineReport(id, result.issues);
+    }
+  };
+
+  const stored = storage?.load();
+  if (stored) {
+    for (const entry of readSnapshotEntries(stored)) {
+      storeEntry(entry.id as string, entry);
+    }
+  } else {
+    for (const report of seed) {
+      reports.set(report.id, cloneReport(report));
+    }
+  }
+
+  // Subscribers re-run their query after every change
+  const listeners = new Set<() => void>();
+  const notify = () => {
+    listeners.forEach(listener => listener());
+  };
+
+  const persist = () => {
+    const entries = [...Array.from(reports.values()), ...Array.from(rejected.values())];
+    storage?.save(JSON.stringify(entries, null, 2));
+    notify();
+  };
+
+  // Pick up snapshots written by other tabs
+  storage?.subscribe?.((json) => {
+    reports.clear();
+    rejected.clear();
+    for (const entry of json ? readSnapshotEntries(json) : []) {
+      storeEntry(entry.id as string, entry);
+    }
+    notify();
+  });
+
+  return {
+    kind,
+
+    createReport: async (data: NewWeeklyReport, options: CreateReportOptions = {}) => {
+      if (options.id !== undefined && (reports.has(options.id) || rejected.has(options.id))) {
+        throw new ReportExistsError(options.id);
+      }
+      const report = cloneReport({ id: options.id ?? generateId(), ...data });
+      reports.set(report.id, report);
+      persist();
+      return cloneReport(report);
+    },
+
+    getReport: async (id: string) => {
+      const report = reports.get(id);
+      return report ? cloneReport(report) : null;
+    },
+
+    queryReports: async (query: ReportQuery) => {
+      return applyReportQuery(Array.from(reports.values()), query).map(cloneReport);
+    },
+
+    subscribeReports: (query: ReportQuery, onChange: (reports: WeeklyReport[]) => void) => {
+      const listener = () => {
+        onChange(applyReportQuery(Array.from(reports.values()), query).map(cloneReport));
+      };
+      listeners.add(listener);
+      listener();
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    updateReport: async (id: string, update: ReportUpdate, options: UpdateReportOptions = {}) => {
+      const report = reports.get(id);
+      if (!report) {
+        throw new Error(`Report ${id} not found`);
+      }
+      if (options.expectedVersion !== undefined && options.expectedVersion !== report.version) {
+        throw new ReportConflictError(id, options.expectedVersion, report.version);
+      }
+      reports.set(id, cloneReport({ ...report, ...update, version: report.version + 1 }));
+      persist();
+    },
+
+    deleteReport: async (id: string) => {
+      reports.delete(id);
+      rejected.delete(id);
+      releaseReport(id);
+      persist();
+    },
+
+    listReportDocuments: async ({ limit, startAfterId }) => {
+      const documents: RawReportDocument[] = [
+        ...Array.from(reports.values()).map(report => {
+          const { id, ...data } = cloneReport(report);
+          return { id, data };
+        }),
+        ...Array.from(rejected.entries()).map(([id, entry]) => {
+          const data = { ...entry };
+          delete data.id;
+          return { id, data };
+        })
+      ];
+
+      return documents
+        .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+        .filter(document => startAfterId === undefined || document.id > startAfterId)
+        .slice(0, limit);
+    },
+
+    writeReportDocuments: async (documents: RawReportDocument[]) => {
+      for (const document of documents) {
+        storeEntry(document.id, { ...document.data });
+      }
+      persist();
+    }
+  };
+};
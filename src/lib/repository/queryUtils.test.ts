@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { WeeklyReport } from '@/types';
+import { applyReportQuery, matchesReportQuery, sortReports } from './queryUtils';
+
+const makeReport = (id: string, overrides: Partial<WeeklyReport> = {}): WeeklyReport => ({
+  id,
+  userId: 'Ann',
+  reportText: '',
+  metrics: [],
+  createdAt: new Date('2024-03-04T12:00:00Z'),
+  weekEndingDate: new Date('2024-03-11T03:59:59.999Z'),
+  weekId: '2024-W10',
+  status: 'submitted',
+  submittedAt: null,
+  reviewHistory: [],
+  archived: false,
+  deletedAt: null,
+  version: 1,
+  schemaVersion: 1,
+  ...overrides
+});
+
+describe('matchesReportQuery', () => {
+  it('matches on user, week and any of several statuses', () => {
+    const report = makeReport('a');
+    expect(matchesReportQuery(report, { userId: 'Ann', weekId: '2024-W10', status: ['pending', 'submitted'] })).toBe(true);
+    expect(matchesReportQuery(report, { userId: 'Bob' })).toBe(false);
+    expect(matchesReportQuery(report, { status: 'pending' })).toBe(false);
+    expect(matchesReportQuery(report, { weekId: '2024-W11' })).toBe(false);
+  });
+
+  it('leaves trashed reports out unless the trash is asked for', () => {
+    const trashed = makeReport('a', { deletedAt: new Date('2024-03-12T00:00:00Z') });
+    expect(matchesReportQuery(trashed, {})).toBe(false);
+    expect(matchesReportQuery(trashed, { deleted: true })).toBe(true);
+    expect(matchesReportQuery(makeReport('b'), { deleted: true })).toBe(false);
+  });
+
+  it('filters on archived only when asked', () => {
+    const archived = makeReport('a', { archived: true });
+    expect(matchesReportQuery(archived, {})).toBe(true);
+    expect(matchesReportQuery(archived, { archived: false })).toBe(false);
+    expect(matchesReportQuery(archived, { archived: true })).toBe(true);
+  });
+
+  it('includes both ends of a date range', () => {
+    const report = makeReport('a');
+    const { weekEndingDate } = report;
+    expect(matchesReportQuery(report, { weekEndingDate: { from: weekEndingDate, to: weekEndingDate } })).toBe(true);
+    expect(matchesReportQuery(report, { weekEndingDate: { from: new Date(weekEndingDate.getTime() + 1) } })).toBe(false);
+    expect(matchesReportQuery(report, { createdAt: { to: new Date('2024-03-04T11:59:59Z') } })).toBe(false);
+  });
+});
+
+describe('sortReports', () => {
+  it('orders by the field and breaks ties by id', () => {
+    const week = (days: number) => new Date(Date.UTC(2024, 0, 7 + days * 7));
+    const reports = [
+      makeReport('c', { weekEndingDate: week(1) }),
+      makeReport('b', { weekEndingDate: week(0) }),
+      makeReport('a', { weekEndingDate: week(1) })
+    ];
+
+    const desc = sortReports(reports, { orderBy: { field: 'weekEndingDate', direction: 'desc' } });
+    expect(desc.map(report => report.id)).toEqual(['a', 'c', 'b']);
+
+    const asc = sortReports(reports, { orderBy: { field: 'weekEndingDate', direction: 'asc' } });
+    expect(asc.map(report => report.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('keeps the order when there is no ordering', () => {
+    const reports = [makeReport('b'), makeReport('a')];
+    expect(sortReports(reports, {})).toBe(reports);
+  });
+});
+
+describe('applyReportQuery', () => {
+  // Newest first: r5 (week 5) ... r1 (week 1)
+  const reports = [1, 2, 3, 4, 5].map(week => makeReport(`r${week}`, {
+    weekEndingDate: new Date(Date.UTC(2024, 0, week * 7))
+  }));
+  const newestFirst = { orderBy: { field: 'weekEndingDate', direction: 'desc' }, limit: 2 } as const;
+  const ids = (results: WeeklyReport[]) => results.map(report => report.id);
+
+  it('returns the first page', () => {
+    expect(ids(applyReportQuery(reports, newestFirst))).toEqual(['r5', 'r4']);
+  });
+
+  it('continues after a cursor', () => {
+    expect(ids(applyReportQuery(reports, { ...newestFirst, startAfterId: 'r4' }))).toEqual(['r3', 'r2']);
+    expect(ids(applyReportQuery(reports, { ...newestFirst, startAfterId: 'r2' }))).toEqual(['r1']);
+  });
+
+  it('goes back to the reports closest before a cursor', () => {
+    expect(ids(applyReportQuery(reports, { ...newestFirst, endBeforeId: 'r2' }))).toEqual(['r4', 'r3']);
+    expect(ids(applyReportQuery(reports, { ...newestFirst, endBeforeId: 'r4' }))).toEqual(['r5']);
+  });
+
+  it('filters before paging', () => {
+    const mixed = [...reports, makeReport('other', { userId: 'Bob', weekEndingDate: new Date(Date.UTC(2024, 1, 1)) })];
+    expect(ids(applyReportQuery(mixed, { ...newestFirst, userId: 'Ann' }))).toEqual(['r5', 'r4']);
+  });
+});
@@ -0,0 +1,58 @@
+import type { WeeklyReport } from '@/types';
+import type { DateRange, ReportQuery } from './types';
+
+/**
+ * In-memory evaluation of a ReportQuery, shared by the non-Firestore backends
+ */
+
+const isInRange = (date: Date, range?: DateRange): boolean => {
+  if (!range) return true;
+  const time = date.getTime();
+  if (range.from && time < range.from.getTime()) return false;
+  if (range.to && time > range.to.getTime()) return false;
+  return true;
+};
+
+// Check whether a report satisfies the filters of a query (ordering and paging excluded)
+export const matchesReportQuery = (report: WeeklyReport, query: ReportQuery): boolean => {
+  if (query.userId !== undefined && report.userId !== query.userId) return false;
+  if (query.status !== undefined && ![query.status].flat().includes(report.status)) return false;
+  if (query.weekId !== undefined && report.weekId !== query.weekId) return false;
+  if (query.archived !== undefined && !!report.archived !== query.archived) return false;
+  if (!!report.deletedAt !== !!query.deleted) return false;
+  if (!isInRange(report.weekEndingDate, query.weekEndingDate)) return false;
+  if (!isInRange(report.createdAt, query.createdAt)) return false;
+  return true;
+};
+
+// Sort reports according to the query ordering; ties are broken by id for stable cursors
+export const sortReports = (reports: WeeklyReport[], query: ReportQuery): WeeklyReport[] => {
+  if (!query.orderBy) return reports;
+  const { field, direction } = query.orderBy;
+  const sign = direction === 'asc' ? 1 : -1;
+
+  return [...reports].sort((a, b) => {
+    const diff = a[field].getTime() - b[field].getTime();
+    if (diff !== 0) return diff * sign;
+    return a.id.localeCompare(b.id);
+  });
+};
+
+// Apply filters, ordering, cursors and limit to a list of reports
+export const applyReportQuery = (reports: WeeklyReport[], query: ReportQuery): WeeklyReport[] => {
+  let results = sortReports(reports.filter(report => matchesReportQuery(report, query)), query);
+
+  if (query.startAfterId) {
+    const index = results.findIndex(report => report.id === query.startAfterId);
+    results = index >= 0 ? results.slice(index + 1) : results;
+  }
+
+  if (query.endBeforeId) {
+    const index = results.findIndex(report => report.id === query.endBeforeId);
+    results = index >= 0 ? results.slice(0, index) : results;
+    // Previous page: keep the reports closest to the cursor
+    return query.limit !== undefined ? results.slice(-query.limit) : results;
+  }
+
+  return query.limit !== undefined ? results.slice(0, query.limit) : results;
+};
@@ -0,0 +1,34 @@
+import * as StorageUtils from '@/lib/storageUtils';
+
+/**
+ * Persistence hook for the in-memory backends. Each store is kept as one JSON
+ * document, so a snapshot can be exported, edited by hand and loaded back as
+ * seed data.
+ */
+export type SnapshotStorage = {
+  load: () => string | null;
+  save: (json: string) => void;
+  // Notify about snapshots saved by someone else, e.g. another browser tab
+  subscribe?: (onChange: (json: string | null) => void) => () => void;
+};
+
+// localStorage-backed persistence for running the app without a network
+export const createBrowserSnapshotStorage = (key: string): SnapshotStorage => ({
+  load: () => StorageUtils.getItem(key),
+  save: (json: string) => {
+    StorageUtils.setItem(key, json);
+  },
+  subscribe: (onChange) => {
+    if (typeof window === 'undefined') {
+      return () => {};
+    }
+    // The storage event only fires for changes made in other tabs
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === key) {
+        onChange(event.newValue);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+});
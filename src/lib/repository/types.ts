@@ -0,0 +1,128 @@
+import type { WeeklyReport } from '@/types';
+
+/**
+ * Storage-agnostic contract for reading and writing weekly reports.
+ * Every backend (Firestore, local) speaks in plain domain objects with
+ * JavaScript Dates; conversion to and from the storage format stays inside
+ * the implementation.
+ */
+
+// Report fields as they are written on creation
+export type NewWeeklyReport = Omit<WeeklyReport, 'id'>;
+
+// Partial update applied to an existing report; the version is maintained by the repository
+export type ReportUpdate = Partial<Omit<NewWeeklyReport, 'version'>>;
+
+export type CreateReportOptions = {
+  // Create the report under this id, failing with a ReportExistsError when the id is taken
+  id?: string;
+};
+
+export type UpdateReportOptions = {
+  // Reject the update with a ReportConflictError unless the stored version still matches
+  expectedVersion?: number;
+};
+
+// Inclusive date range, either bound may be omitted
+export type DateRange = {
+  from?: Date;
+  to?: Date;
+};
+
+export type ReportSortField = 'weekEndingDate' | 'createdAt';
+
+export type ReportQuery = {
+  userId?: string;
+  // One status, or any of several
+  status?: WeeklyReport['status'] | WeeklyReport['status'][];
+  // On Firestore, documents written before the flag existed need migration v1 to match `false`
+  archived?: boolean;
+  // Trashed reports are only returned when this is `true`; omitted means `false`.
+  // On Firestore, documents written before the trash existed need migration v4 to match;
+  // `true` becomes a `deletedAt != null` filter, so combine it only with equality filters.
+  deleted?: boolean;
+  // ISO week id, see getWeekId in lib/dateUtils
+  weekId?: string;
+  weekEndingDate?: DateRange;
+  createdAt?: DateRange;
+  orderBy?: {
+    field: ReportSortField;
+    direction: 'asc' | 'desc';
+  };
+  limit?: number;
+  // Cursor pagination by report id, relative to the `orderBy` ordering
+  startAfterId?: string;
+  // Returns the last `limit` reports before this id (previous page)
+  endBeforeId?: string;
+};
+
+/**
+ * A stored report exactly as persisted, before validation. Used by
+ * migrations, which must be able to read and rewrite documents that the
+ * current schema rejects. Date fields are converted to JavaScript Dates.
+ */
+export type RawReportDocument = {
+  id: string;
+  data: Record<string, unknown>;
+};
+
+// Stops a live subscription
+export type Unsubscribe = () => void;
+
+export interface ReportRepository {
+  // Backend identifier, useful for diagnostics
+  readonly kind: ReportBackend;
+  // Without an id in the options, the backend generates one
+  createReport(data: NewWeeklyReport, options?: CreateReportOptions): Promise<WeeklyReport>;
+  getReport(id: string): Promise<WeeklyReport | null>;
+  queryReports(query: ReportQuery): Promise<WeeklyReport[]>;
+  // Call onChange with the query results now and again whenever they change
+  subscribeReports(
+    query: ReportQuery,
+    onChange: (reports: WeeklyReport[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // Applies the update and increments the report version
+  updateReport(id: string, update: ReportUpdate, options?: UpdateReportOptions): Promise<void>;
+  deleteReport(id: string): Promise<void>;
+  // Page through raw documents in id order, including invalid ones
+  listReportDocuments(options: { limit: number; startAfterId?: string }): Promise<RawReportDocument[]>;
+  // Overwrite raw documents in one batch
+  writeReportDocuments(documents: RawReportDocument[]): Promise<void>;
+}
+
+export type ReportBackend = 'firestore' | 'local' | 'memory';
+
+// Auxiliary records (run logs, settings, ...) are keyed by id like reports
+export type StoredRecord = {
+  id: string;
+};
+
+/**
+ * Minimal document collection for everything that is not a weekly report.
+ * Filters are top-level equality matches, plus array membership through
+ * subscribeContaining; anything richer is done by the caller.
+ */
+export interface RecordCollection<T extends StoredRecord> {
+  get(id: string): Promise<T | null>;
+  list(filter?: Partial<T>): Promise<T[]>;
+  // Call onChange with the matching records now and again whenever they change
+  subscribe(filter: Partial<T>, onChange: (records: T[]) => void, onError?: (error: Error) => void): Unsubscribe;
+  // Like subscribe, for the records whose array field contains a value
+  subscribeContaining(
+    field: keyof T & string,
+    value: unknown,
+    onChange: (records: T[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // Insert with a generated id
+  add(data: Omit<T, 'id'>): Promise<T>;
+  // Create or fully replace a record
+  set(record: T): Promise<void>;
+  update(id: string, update: Partial<Omit<T, 'id'>>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface RecordStore {
+  collection<T extends StoredRecord>(name: string): RecordCollection<T>;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { ReportStatus, WeeklyReport } from '@/types';
+import type { Actor } from './roles';
+import { applyTransition, getAvailableActions, getEditError, getTransitionError } from './reviewWorkflow';
+
+const ann: Actor = { userId: 'Ann', role: 'rep' };
+const bob: Actor = { userId: 'Bob', role: 'rep' };
+const manager: Actor = { userId: 'Mia', role: 'manager' };
+const admin: Actor = { userId: 'Ada', role: 'admin' };
+
+type Subject = Pick<WeeklyReport, 'userId' | 'status' | 'deletedAt' | 'submittedAt' | 'reviewHistory'>;
+
+const report = (status: ReportStatus, overrides: Partial<Subject> = {}): Subject => ({
+  userId: 'Ann',
+  status,
+  deletedAt: null,
+  submittedAt: null,
+  reviewHistory: [],
+  ...overrides
+});
+
+describe('getTransitionError', () => {
+  it('lets the author or an admin submit', () => {
+    expect(getTransitionError(report('pending'), 'submit', ann)).toBeNull();
+    expect(getTransitionError(report('returned'), 'submit', admin)).toBeNull();
+    expect(getTransitionError(report('pending'), 'submit', bob)).toBe('Only Ann or an admin can submit this report');
+    expect(getTransitionError(report('pending'), 'submit', manager)).toBe('Only Ann or an admin can submit this report');
+  });
+
+  it('keeps reviewers off their own reports', () => {
+    expect(getTransitionError(report('submitted'), 'start-review', manager)).toBeNull();
+    expect(getTransitionError(report('submitted'), 'start-review', ann)).toBe('Only managers and admins can start reviewing reports');
+    expect(getTransitionError(report('submitted', { userId: 'Mia' }), 'start-review', manager))
+      .toBe('You cannot start reviewing your own report');
+  });
+
+  it('allows each action only from its statuses', () => {
+    expect(getTransitionError(report('submitted'), 'approve', manager)).toBe('Cannot approve a report that is submitted');
+    expect(getTransitionError(report('approved'), 'withdraw', ann)).toBe('Cannot reopen for editing a report that is approved');
+  });
+
+  it('requires a reason to return or reopen', () => {
+    expect(getTransitionError(report('under-review'), 'return', manager)).toBe('Give a reason to return this report');
+    expect(getTransitionError(report('under-review'), 'return', manager, '  ')).toBe('Give a reason to return this report');
+    expect(getTransitionError(report('under-review'), 'return', manager, 'Missing acres')).toBeNull();
+  });
+
+  it('lets only admins reopen an approved report', () => {
+    expect(getTransitionError(report('approved'), 'reopen', manager, 'Wrong totals')).toBe('Only admins can reopen reports');
+    expect(getTransitionError(report('approved'), 'reopen', admin, 'Wrong totals')).toBeNull();
+  });
+
+  it('refuses every action on reports in the trash', () => {
+    const trashed = report('pending', { deletedAt: new Date('2024-03-12T00:00:00Z') });
+    expect(getTransitionError(trashed, 'submit', ann)).toBe('Reports in the trash cannot change status');
+  });
+});
+
+describe('getAvailableActions', () => {
+  it('lists what each role can do, in workflow order', () => {
+    expect(getAvailableActions(report('submitted'), ann)).toEqual(['withdraw']);
+    expect(getAvailableActions(report('submitted'), manager)).toEqual(['start-review', 'return']);
+    expect(getAvailableActions(report('submitted'), admin)).toEqual(['withdraw', 'start-review', 'return']);
+    expect(getAvailableActions(report('approved'), admin)).toEqual(['reopen']);
+    expect(getAvailableActions(report('approved'), bob)).toEqual([]);
+  });
+});
+
+describe('applyTransition', () => {
+  const firstSubmission = new Date('2024-03-08T15:00:00Z');
+  const later = new Date('2024-03-09T10:00:00Z');
+
+  it('records the first submission time and the event', () => {
+    const result = applyTransition(report('pending'), 'submit', ann, '', firstSubmission);
+    expect(result.status).toBe('submitted');
+    expect(result.submittedAt).toEqual(firstSubmission);
+    expect(result.reviewHistory).toEqual([
+      { action: 'submit', from: 'pending', to: 'submitted', by: 'Ann', role: 'rep', at: firstSubmission, reason: '' }
+    ]);
+  });
+
+  it('keeps the first submission time when reopened and submitted again', () => {
+    const submitted = { ...report('pending'), ...applyTransition(report('pending'), 'submit', ann, '', firstSubmission) };
+    const reopened = { ...submitted, ...applyTransition(submitted, 'withdraw', ann, '', later) };
+    expect(reopened.status).toBe('pending');
+    expect(reopened.submittedAt).toEqual(firstSubmission);
+
+    const resubmitted = applyTransition(reopened, 'submit', ann, '', later);
+    expect(resubmitted.submittedAt).toEqual(firstSubmission);
+    expect(resubmitted.reviewHistory.map(event => event.action)).toEqual(['submit', 'withdraw', 'submit']);
+  });
+
+  it('trims the reason', () => {
+    const result = applyTransition(report('submitted'), 'return', manager, ' Missing acres ', later);
+    expect(result.reviewHistory[0].reason).toBe('Missing acres');
+  });
+
+  it('throws when the action is not allowed', () => {
+    expect(() => applyTransition(report('submitted'), 'approve', manager)).toThrow('Cannot approve a report that is submitted');
+  });
+});
+
+describe('getEditError', () => {
+  it('lets only the author or an admin edit', () => {
+    expect(getEditError({ userId: 'Ann' }, ann)).toBeNull();
+    expect(getEditError({ userId: 'Ann' }, admin)).toBeNull();
+    expect(getEditError({ userId: 'Ann' }, manager)).toBe('Only Ann or an admin can edit this report');
+  });
+});
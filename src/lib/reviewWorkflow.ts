@@ -0,0 +1,202 @@
+import type { ReportStatus, ReviewAction, ReviewEvent, WeeklyReport } from '@/types';
+import { isReviewer, type Actor } from './roles';
+
+/**
+ * Review workflow of a report: pending (the draft) → submitted → under
+ * review → approved, or returned to the author for changes and submitted
+ * again. Every transition is checked against the actor's role here and
+ * recorded on the report's review history with who made it and why. The
+ * checks keep the workflow honest but are not access control, see roles.ts.
+ */
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  pending: 'PENDING',
+  submitted: 'SUBMITTED',
+  'under-review': 'UNDER REVIEW',
+  approved: 'APPROVED',
+  returned: 'RETURNED'
+};
+
+// Reports that have been submitted at least once; they count in analytics
+export const SUBMITTED_STATUSES: ReportStatus[] = ['submitted', 'under-review', 'approved', 'returned'];
+
+// Reports waiting for a reviewer
+export const REVIEW_QUEUE_STATUSES: ReportStatus[] = ['submitted', 'under-review'];
+
+// Reports their author can still edit
+export const EDITABLE_STATUSES: ReportStatus[] = ['pending', 'returned'];
+
+export const isSubmittedStatus = (status: ReportStatus) => SUBMITTED_STATUSES.includes(status);
+
+export const isEditableStatus = (status: ReportStatus) => EDITABLE_STATUSES.includes(status);
+
+type Transition = {
+  from: ReportStatus[];
+  to: ReportStatus;
+  // owner: the report's author or an admin; reviewer: a manager or admin other than the author
+  allowed: 'owner' | 'reviewer' | 'admin';
+  requiresReason: boolean;
+  // Button label, and the verb used in error messages
+  label: string;
+  verb: string;
+};
+
+export const REVIEW_TRANSITIONS: Record<ReviewAction, Transition> = {
+  submit: {
+    from: ['pending', 'returned'],
+    to: 'submitted',
+    allowed: 'owner',
+    requiresReason: false,
+    label: 'SUBMIT',
+    verb: 'submit'
+  },
+  withdraw: {
+    from: ['submitted'],
+    to: 'pending',
+    allowed: 'owner',
+    requiresReason: false,
+    label: 'REOPEN FOR EDITING',
+    verb: 'reopen for editing'
+  },
+  'start-review': {
+    from: ['submitted'],
+    to: 'under-review',
+    allowed: 'reviewer',
+    requiresReason: false,
+    label: 'START REVIEW',
+    verb: 'start reviewing'
+  },
+  approve: {
+    from: ['under-review'],
+    to: 'approved',
+    allowed: 'reviewer',
+    requiresReason: false,
+    label: 'APPROVE',
+    verb: 'approve'
+  },
+  return: {
+    from: ['submitted', 'under-review'],
+    to: 'returned',
+    allowed: 'reviewer',
+    requiresReason: true,
+    label: 'RETURN FOR CHANGES',
+    verb: 'return'
+  },
+  reopen: {
+    from: ['approved'],
+    to: 'under-review',
+    allowed: 'admin',
+    requiresReason: true,
+    label: 'REOPEN REVIEW',
+    verb: 'reopen'
+  }
+};
+
+export const REVIEW_ACTION_LABELS: Record<ReviewAction, string> = {
+  submit: 'Submitted',
+  withdraw: 'Reopened for editing',
+  'start-review': 'Review started',
+  approve: 'Approved',
+  return: 'Returned for changes',
+  reopen: 'Review reopened'
+};
+
+type TransitionSubject = Pick<WeeklyReport, 'userId' | 'status' | 'deletedAt'>;
+
+// Why the actor may not take the action on the report, ignoring the reason
+const getPermissionError = (report: TransitionSubject, action: ReviewAction, actor: Actor): string | null => {
+  const transition = REVIEW_TRANSITIONS[action];
+  const isOwner = report.userId.trim() === actor.userId.trim();
+
+  if (report.deletedAt) {
+    return 'Reports in the trash cannot change status';
+  }
+  if (!transition.from.includes(report.status)) {
+    return `Cannot ${transition.verb} a report that is ${REPORT_STATUS_LABELS[report.status].toLowerCase()}`;
+  }
+  switch (transition.allowed) {
+    case 'owner':
+      return isOwner || actor.role === 'admin' ? null : `Only ${report.userId} or an admin can ${transition.verb} this report`;
+    case 'reviewer':
+      if (!isReviewer(actor.role)) return `Only managers and admins can ${transition.verb} reports`;
+      return isOwner ? `You cannot ${transition.verb} your own report` : null;
+    case 'admin':
+      return actor.role === 'admin' ? null : `Only admins can ${transition.verb} reports`;
+  }
+};
+
+/**
+ * Check whether an actor may edit a report's contents: its author or an admin,
+ * the same rule as for submitting it
+ * @returns Why the edit is not allowed, or null when it is
+ */
+export const getEditError = (report: Pick<WeeklyReport, 'userId'>, actor: Actor): string | null => {
+  const isOwner = report.userId.trim() === actor.userId.trim();
+  return isOwner || actor.role === 'admin' ? null : `Only ${report.userId} or an admin can edit this report`;
+};
+
+/**
+ * Check whether an actor may take a review action on a report
+ * @returns Why the action is not allowed, or null when it is
+ */
+export const getTransitionError = (
+  report: TransitionSubject,
+  action: ReviewAction,
+  actor: Actor,
+  reason = ''
+): string | null => {
+  const permissionError = getPermissionError(report, action, actor);
+  if (permissionError) return permissionError;
+  if (REVIEW_TRANSITIONS[action].requiresReason && !reason.trim()) {
+    return `Give a reason to ${REVIEW_TRANSITIONS[action].verb} this report`;
+  }
+  return null;
+};
+
+/**
+ * Get the review actions an actor can take on a report
+ * @returns Actions in workflow order; some may still need a reason
+ */
+export const getAvailableActions = (report: TransitionSubject, actor: Actor): ReviewAction[] => {
+  return (Object.keys(REVIEW_TRANSITIONS) as ReviewAction[])
+    .filter(action => getPermissionError(report, action, actor) === null);
+};
+
+/**
+ * Work out the fields a review action changes
+ * @param report The report as stored
+ * @param action The action to take
+ * @param actor Who takes it
+ * @param reason Why; required for some actions
+ * @throws Error when the action is not allowed
+ */
+export const applyTransition = (
+  report: TransitionSubject & Pick<WeeklyReport, 'submittedAt' | 'reviewHistory'>,
+  action: ReviewAction,
+  actor: Actor,
+  reason = '',
+  now: Date = new Date()
+): Pick<WeeklyReport, 'status' | 'submittedAt' | 'reviewHistory'> => {
+  const error = getTransitionError(report, action, actor, reason);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const transition = REVIEW_TRANSITIONS[action];
+  const event: ReviewEvent = {
+    action,
+    from: report.status,
+    to: transition.to,
+    by: actor.userId,
+    role: actor.role,
+    at: now,
+    reason: reason.trim()
+  };
+
+  return {
+    status: transition.to,
+    // Deadlines are measured against the first submission, so reopening a report keeps it
+    submittedAt: action === 'submit' ? report.submittedAt ?? now : report.submittedAt,
+    reviewHistory: [...report.reviewHistory, event]
+  };
+};
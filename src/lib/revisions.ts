@@ -0,0 +1,158 @@
+import { getRecordStore, type StoredRecord } from './repository';
+import type { ReviewEvent, WeeklyReport } from '@/types';
+
+/**
+ * Append-only history of report changes. Every write through the services
+ * layer stores a revision holding the complete report state after the change,
+ * so any two revisions can be compared field by field.
+ */
+
+const REVISIONS_COLLECTION = 'reportRevisions';
+
+export type RevisionAction =
+  | 'create'
+  | 'update'
+  | 'submit'
+  | 'revert'
+  | 'review'
+  | 'archive'
+  | 'unarchive'
+  | 'delete'
+  | 'restore'
+  | 'purge';
+
+export type ReportSnapshot = Omit<WeeklyReport, 'id'>;
+
+export type ReportRevision = StoredRecord & {
+  reportId: string;
+  // 1-based sequence number per report
+  revision: number;
+  action: RevisionAction;
+  author: string;
+  createdAt: Date;
+  changedFields: string[];
+  snapshot: ReportSnapshot;
+};
+
+export type FieldChange = {
+  field: string;
+  before: string;
+  after: string;
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toLocaleString();
+  return String(value);
+};
+
+const formatReviewEvent = (event?: ReviewEvent): string => {
+  if (!event) return '';
+  return `${event.action} by ${event.by}${event.reason ? `: ${event.reason}` : ''}`;
+};
+
+/**
+ * Flatten a report snapshot into readable field paths, e.g. "Acres Secured › value"
+ * @param snapshot The report state
+ * @returns Map of field path to display value
+ */
+export const flattenSnapshot = (snapshot: ReportSnapshot): Record<string, string> => {
+  const fields: Record<string, string> = {
+    'Name': formatValue(snapshot.userId),
+    'Summary': formatValue(snapshot.reportText),
+    'Status': formatValue(snapshot.status),
+    'Submitted at': formatValue(snapshot.submittedAt),
+    'Last review': formatReviewEvent(snapshot.reviewHistory?.[snapshot.reviewHistory.length - 1]),
+    'Archived': snapshot.archived ? 'Yes' : 'No',
+    'In trash': snapshot.deletedAt ? 'Yes' : 'No',
+    'Week ending': snapshot.weekEndingDate ? snapshot.weekEndingDate.toLocaleDateString() : ''
+  };
+
+  for (const metric of snapshot.metrics || []) {
+    fields[`${metric.title} › value`] = formatValue(metric.value);
+    fields[`${metric.title} › target`] = formatValue(metric.targetValue);
+    fields[`${metric.title} › completed`] = metric.completed ? 'Yes' : 'No';
+  }
+
+  return fields;
+};
+
+/**
+ * Compare two report states field by field
+ * @param before The older state, or null for a newly created report
+ * @param after The newer state
+ * @returns Changed fields in display order
+ */
+export const diffSnapshots = (before: ReportSnapshot | null, after: ReportSnapshot): FieldChange[] => {
+  const beforeFields = before ? flattenSnapshot(before) : {};
+  const afterFields = flattenSnapshot(after);
+  const fields = Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]));
+
+  return fields
+    .filter(field => beforeFields[field] !== afterFields[field])
+    .map(field => ({
+      field,
+      before: beforeFields[field] ?? '',
+      after: afterFields[field] ?? ''
+    }));
+};
+
+const toSnapshot = (report: WeeklyReport): ReportSnapshot => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { id, ...snapshot } = report;
+  return snapshot;
+};
+
+/**
+ * Get the revision history of a report
+ * @param reportId The report id
+ * @returns Revisions, oldest first
+ */
+export const getReportRevisions = async (reportId: string): Promise<ReportRevision[]> => {
+  try {
+    const revisions = await getRecordStore()
+      .collection<ReportRevision>(REVISIONS_COLLECTION)
+      .list({ reportId });
+    return revisions.sort((a, b) => a.revision - b.revision);
+  } catch (error) {
+    console.error('Error getting report revisions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Append a revision for a report change. Writes that change nothing are not recorded.
+ * @param before The report before the change, or null when it was just created
+ * @param after The report after the change
+ * @param action What kind of write produced the change
+ * @param author Who made the change
+ */
+export const recordRevision = async (
+  before: WeeklyReport | null,
+  after: WeeklyReport,
+  action: RevisionAction,
+  author: string
+): Promise<ReportRevision | null> => {
+  const snapshot = toSnapshot(after);
+  // A new report has no previous state, so nothing counts as changed
+  const changedFields = before
+    ? diffSnapshots(toSnapshot(before), snapshot).map(change => change.field)
+    : [];
+
+  if (before && changedFields.length === 0 && action !== 'purge') {
+    return null;
+  }
+
+  const revisions = await getReportRevisions(after.id);
+  const latest = revisions[revisions.length - 1];
+
+  return getRecordStore().collection<ReportRevision>(REVISIONS_COLLECTION).add({
+    reportId: after.id,
+    revision: (latest?.revision ?? 0) + 1,
+    action,
+    author,
+    createdAt: new Date(),
+    changedFields,
+    snapshot
+  });
+};
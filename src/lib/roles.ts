@@ -0,0 +1,130 @@
+import { getConfiguredBackend, getRecordStore, type StoredRecord, type Unsubscribe } from './repository';
+import type { UserRole } from '@/types';
+import { getCurrentAuthor } from './currentUser';
+
+/**
+ * Roles of the people using the app, by the name they report under. Anyone
+ * without an entry is a rep. Managers review the reports of others; admins can
+ * also reopen approved reports.
+ *
+ * The app has no sign-in, so none of the role checks here or in the review
+ * workflow are access control: the name comes from the browser and anyone can
+ * claim any name. They keep honest users to their part of the workflow. On
+ * Firestore, firestore.rules make `userRoles` read-only so nobody can make
+ * themselves an admin from the app; roles are assigned in the Firebase console
+ * or with the Admin SDK there, and `/admin/roles` only lists them.
+ */
+
+const USER_ROLES_COLLECTION = 'userRoles';
+
+export const USER_ROLES: UserRole[] = ['rep', 'manager', 'admin'];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  rep: 'Rep',
+  manager: 'Manager',
+  admin: 'Admin'
+};
+
+export type UserRoleEntry = StoredRecord & {
+  userId: string;
+  role: UserRole;
+  updatedAt: Date;
+};
+
+export type Actor = {
+  userId: string;
+  role: UserRole;
+};
+
+const rolesCollection = () => getRecordStore().collection<UserRoleEntry>(USER_ROLES_COLLECTION);
+
+// Managers and admins review reports
+export const isReviewer = (role: UserRole) => role === 'manager' || role === 'admin';
+
+/**
+ * Get a user's role
+ * @param userId The name the user reports under
+ * @returns The assigned role, 'rep' when none is assigned
+ */
+export const getUserRole = async (userId: string): Promise<UserRole> => {
+  try {
+    const [entry] = await rolesCollection().list({ userId: userId.trim() });
+    return entry?.role ?? 'rep';
+  } catch (error) {
+    console.error('Error getting user role:', error);
+    throw error;
+  }
+};
+
+// The person using this browser and their role
+export const getCurrentActor = async (): Promise<Actor> => {
+  const userId = getCurrentAuthor();
+  return { userId, role: await getUserRole(userId) };
+};
+
+/**
+ * Follow every role assignment, by name
+ * @returns Stops the subscription
+ */
+export const subscribeToUserRoles = (
+  onChange: (entries: UserRoleEntry[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return rolesCollection().subscribe(
+    {},
+    entries => onChange([...entries].sort((a, b) => a.userId.localeCompare(b.userId))),
+    onError
+  );
+};
+
+/**
+ * Get why someone cannot assign roles from the app. Only admins can, or anyone
+ * while no admin is assigned yet so the first one can be set up.
+ * @param actor Who wants to assign roles
+ * @param entries Every role assignment
+ * @returns The reason, or null when they can
+ */
+export const getRoleAssignmentError = (actor: Actor, entries: Pick<UserRoleEntry, 'role'>[]): string | null => {
+  if (getConfiguredBackend() === 'firestore') {
+    return 'Roles are read-only in the app on Firestore; assign them in the Firebase console';
+  }
+  if (actor.role !== 'admin' && entries.some(entry => entry.role === 'admin')) {
+    return 'Only an admin can assign roles';
+  }
+  return null;
+};
+
+/**
+ * Assign a role to a user; assigning 'rep' removes the entry
+ * @param userId The name the user reports under
+ * @param role The new role
+ * @throws Error when the current user cannot assign roles, see getRoleAssignmentError
+ */
+export const setUserRole = async (userId: string, role: UserRole) => {
+  const name = userId.trim();
+  if (!name) {
+    throw new Error('Enter the name the user reports under');
+  }
+  if (!USER_ROLES.includes(role)) {
+    throw new Error(`Unknown role: ${role}`);
+  }
+
+  try {
+    const collection = rolesCollection();
+    const assignmentError = getRoleAssignmentError(await getCurrentActor(), await collection.list());
+    if (assignmentError) {
+      throw new Error(assignmentError);
+    }
+
+    const existing = await collection.list({ userId: name });
+    for (const entry of existing) {
+      await collection.delete(entry.id);
+    }
+    if (role !== 'rep') {
+      await collection.add({ userId: name, role, updatedAt: new Date() });
+    }
+  } catch (error) {
+    console.error('Error setting user role:', error);
+    throw error;
+  }
+};
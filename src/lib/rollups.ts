@@ -0,0 +1,376 @@
+import { getRecordStore, getReportRepository, type StoredRecord } from './repository';
+import type { WeeklyReport } from '@/types';
+import { getWeekIdForDay, getWeekRangeForId } from './dateUtils';
+import { loadOrganizationSettings } from './orgSettings';
+import { getFiscalPeriodForWeek } from './fiscalCalendar';
+import { getAvailability, getProratedTarget, getTimeOffEntries, type TimeOffEntry } from './timeOff';
+import { isSubmittedStatus, SUBMITTED_STATUSES } from './reviewWorkflow';
+import { evaluateFormulas, getMetricFormulas } from './metricFormulas';
+import { getMetricDefinitions, type MetricDefinition } from './metricDefinitions';
+import { getIndividualTargetValue, loadQuotaBook, type QuotaBook } from './quotas';
+
+/**
+ * Precomputed metric totals per week and per month, for everyone and per
+ * user, so analytics can read a handful of small documents instead of every
+ * report. Months follow the fiscal calendar (lib/fiscalCalendar), so with a
+ * 4-4-5 calendar a "month" rollup covers a fiscal period. A rollup is keyed
+ * by the report's week id or period key and always
+ * recomputed from the reports of its period, which keeps it correct no matter
+ * how a report changed (submitted, edited, reverted, deleted). Targets are
+ * each rep's quota (lib/quotas) or the target in force in each week
+ * (lib/metricDefinitions), prorated for
+ * holidays and time off (lib/timeOff). Derived metrics
+ * (lib/metricFormulas) are computed from the period's totals rather than
+ * added up, so a closing rate is the rate over all quotations of the period;
+ * combineRollupMetrics does the same across several rollups.
+ */
+
+const ROLLUPS_COLLECTION = 'reportRollups';
+
+export type RollupPeriod = 'week' | 'month';
+
+export type MetricTotals = {
+  // For a derived metric, its formula applied to the other totals
+  value: number;
+  // Sum of the report targets, prorated for holidays and time off; their average for a derived metric
+  target: number;
+  // Highest single-report target, used as the target line in charts
+  maxTarget: number;
+  // Number of reports that contained the metric
+  count: number;
+  // The formula of a derived metric; absent for other metrics and in rollups written before it was stored
+  formula?: string;
+};
+
+export type ReportRollup = StoredRecord & {
+  period: RollupPeriod;
+  // Week id such as 2024-W05, or the fiscal period key (yyyy-mm for calendar months)
+  periodKey: string;
+  periodStart: Date;
+  periodEnd: Date;
+  // null for the rollup across all users
+  userId: string | null;
+  reportCount: number;
+  // Totals by metric title
+  metrics: Record<string, MetricTotals>;
+  // Working days lost to company holidays (and, for a user rollup, the user's time off); absent when none
+  timeOff?: {
+    daysOff: number;
+    workingDays: number;
+    labels: string[];
+  };
+  updatedAt: Date;
+};
+
+export type RollupFilter = {
+  period: RollupPeriod;
+  // Omit for the rollups across all users
+  userId?: string;
+  from?: Date;
+  to?: Date;
+};
+
+type PeriodRange = {
+  period: RollupPeriod;
+  key: string;
+  start: Date;
+  end: Date;
+  // Weeks that make up the period
+  weekIds: string[];
+};
+
+// Range of the period a report belongs to: its week, or the fiscal period of its week
+const getPeriodRange = (period: RollupPeriod, report: WeeklyReport): PeriodRange => {
+  if (period === 'week') {
+    const { start, end } = getWeekRangeForId(report.weekId);
+    return { period, key: report.weekId, start, end, weekIds: [report.weekId] };
+  }
+
+  const { key, start, end, weekIds } = getFiscalPeriodForWeek(report.weekId);
+  return { period, key, start, end, weekIds };
+};
+
+const getRollupId = (period: RollupPeriod, key: string, userId: string | null) => {
+  return userId === null
+    ? `${period}_${key}`
+    : `${period}_${key}_user_${encodeURIComponent(userId)}`;
+};
+
+// Only submitted reports outside the trash count towards analytics, whatever their review status
+export const countsTowardRollups = (report: WeeklyReport | null): report is WeeklyReport => {
+  return !!report && isSubmittedStatus(report.status) && !report.deletedAt;
+};
+
+// Inputs shared by every rollup being built
+type RollupContext = {
+  timeOff: TimeOffEntry[];
+  definitions: MetricDefinition[];
+  quotas: QuotaBook;
+};
+
+const loadRollupContext = async (): Promise<RollupContext> => {
+  const [timeOff, definitions, quotas] = await Promise.all([getTimeOffEntries(), getMetricDefinitions(), loadQuotaBook()]);
+  return { timeOff, definitions, quotas };
+};
+
+const buildRollup = (
+  range: PeriodRange,
+  userId: string | null,
+  reports: WeeklyReport[],
+  { timeOff, definitions, quotas }: RollupContext
+): ReportRollup => {
+  const metrics: Record<string, MetricTotals> = {};
+
+  for (const report of reports) {
+    for (const metric of report.metrics) {
+      const totals = metrics[metric.title] ?? { value: 0, target: 0, maxTarget: 0, count: 0 };
+      const targetValue = getIndividualTargetValue(definitions, quotas, metric, report.userId, report.weekId);
+      const target = getProratedTarget(timeOff, report.userId, report.weekId, { ...metric, targetValue });
+      totals.value += metric.value ?? 0;
+      totals.target += target;
+      totals.maxTarget = Math.max(totals.maxTarget, target);
+      totals.count += 1;
+      metrics[metric.title] = totals;
+    }
+  }
+
+  const formulas = getMetricFormulas(reports.flatMap(report => report.metrics));
+  const derived = evaluateFormulas(
+    Object.fromEntries(Object.entries(metrics).map(([title, totals]) => [title, totals.value])),
+    formulas
+  );
+  for (const title of Object.keys(formulas)) {
+    const totals = metrics[title];
+    if (totals) {
+      totals.value = derived[title];
+      // A rate's target is not prorated, so this is the formula's target whatever the number of reports
+      totals.target = totals.target / totals.count;
+      totals.formula = formulas[title];
+    }
+  }
+
+  const { daysOff, workingDays, labels } = getAvailability(timeOff, userId, range.weekIds);
+
+  return {
+    id: getRollupId(range.period, range.key, userId),
+    period: range.period,
+    periodKey: range.key,
+    periodStart: range.start,
+    periodEnd: range.end,
+    userId,
+    reportCount: reports.length,
+    metrics,
+    timeOff: daysOff > 0 ? { daysOff, workingDays, labels } : undefined,
+    updatedAt: new Date()
+  };
+};
+
+// Build the overall rollup and one per user for the reports of one period
+const buildPeriodRollups = (range: PeriodRange, reports: WeeklyReport[], context: RollupContext): ReportRollup[] => {
+  const byUser = new Map<string, WeeklyReport[]>();
+  for (const report of reports) {
+    byUser.set(report.userId, [...(byUser.get(report.userId) ?? []), report]);
+  }
+
+  return [
+    buildRollup(range, null, reports, context),
+    ...Array.from(byUser.entries()).map(([userId, userReports]) => buildRollup(range, userId, userReports, context))
+  ];
+};
+
+/**
+ * Recompute the rollups touched by a report change
+ * @param reports The report before and/or after the change; null entries are ignored
+ */
+export const refreshRollupsForReports = async (reports: Array<WeeklyReport | null>) => {
+  const counted = reports.filter((report): report is WeeklyReport => report !== null);
+  if (!counted.some(countsTowardRollups)) {
+    // Neither version of the report affects any totals
+    return;
+  }
+
+  // Week and period ranges depend on the organization's calendar settings
+  await loadOrganizationSettings();
+  const context = await loadRollupContext();
+  const rollups = getRecordStore().collection<ReportRollup>(ROLLUPS_COLLECTION);
+  const ranges = new Map<string, PeriodRange>();
+  const affectedUsers = new Set<string>();
+
+  for (const report of counted) {
+    affectedUsers.add(report.userId);
+    for (const period of ['week', 'month'] as const) {
+      const range = getPeriodRange(period, report);
+      ranges.set(`${period}_${range.key}`, range);
+    }
+  }
+
+  for (const range of Array.from(ranges.values())) {
+    const periodReports = (await getReportRepository().queryReports({
+      status: SUBMITTED_STATUSES,
+      ...(range.period === 'week'
+        ? { weekId: range.key }
+        : { weekEndingDate: { from: range.start, to: range.end } })
+    })).filter(report => countsTowardRollups(report) && range.weekIds.includes(report.weekId));
+
+    const next = buildPeriodRollups(range, periodReports, context);
+    for (const rollup of next) {
+      await rollups.set(rollup);
+    }
+
+    // Users whose last report left the period no longer get a rollup there
+    const remainingIds = new Set(next.map(rollup => rollup.id));
+    for (const userId of Array.from(affectedUsers)) {
+      const id = getRollupId(range.period, range.key, userId);
+      if (!remainingIds.has(id)) {
+        await rollups.delete(id);
+      }
+    }
+    if (periodReports.length === 0) {
+      await rollups.delete(getRollupId(range.period, range.key, null));
+    }
+  }
+};
+
+/**
+ * Recompute every rollup from scratch, e.g. after importing data or when
+ * rollups were written by an older version of the app
+ * @returns The number of rollup documents written
+ */
+export const rebuildReportRollups = async (): Promise<number> => {
+  try {
+    await loadOrganizationSettings();
+    const context = await loadRollupContext();
+    const reports = (await getReportRepository().queryReports({ status: SUBMITTED_STATUSES }))
+      .filter(countsTowardRollups);
+
+    const groups = new Map<string, { range: PeriodRange; reports: WeeklyReport[] }>();
+    for (const report of reports) {
+      for (const period of ['week', 'month'] as const) {
+        const range = getPeriodRange(period, report);
+        const groupKey = `${period}_${range.key}`;
+        const group = groups.get(groupKey) ?? { range, reports: [] };
+        group.reports.push(report);
+        groups.set(groupKey, group);
+      }
+    }
+
+    const rollups = getRecordStore().collection<ReportRollup>(ROLLUPS_COLLECTION);
+    const next = Array.from(groups.values()).flatMap(group => buildPeriodRollups(group.range, group.reports, context));
+    const nextIds = new Set(next.map(rollup => rollup.id));
+
+    for (const stale of await rollups.list()) {
+      if (!nextIds.has(stale.id)) {
+        await rollups.delete(stale.id);
+      }
+    }
+    for (const rollup of next) {
+      await rollups.set(rollup);
+    }
+
+    return next.length;
+  } catch (error) {
+    console.error('Error rebuilding report rollups:', error);
+    throw error;
+  }
+};
+
+/**
+ * Recompute the rollups of every report in a date range, e.g. after time off
+ * in the range was added or removed or a target or quota changed from a date in it
+ * @param from First day of the range, a wall-clock date as from parseDateInput
+ * @param to Last day of the range, a wall-clock date as from getOrgTimeDate
+ */
+export const refreshRollupsForDateRange = async (from: Date, to: Date) => {
+  try {
+    await loadOrganizationSettings();
+    // Widen to whole fiscal periods, whose monthly targets depend on every day in them
+    const start = getFiscalPeriodForWeek(getWeekIdForDay(from)).start;
+    const end = getFiscalPeriodForWeek(getWeekIdForDay(to)).end;
+    const reports = await getReportRepository().queryReports({
+      status: SUBMITTED_STATUSES,
+      weekEndingDate: { from: start, to: end }
+    });
+    await refreshRollupsForReports(reports);
+  } catch (error) {
+    console.error('Error refreshing rollups for date range:', error);
+    throw error;
+  }
+};
+
+/**
+ * Read rollups for a period type, optionally limited to one user and a date range
+ * @returns Rollups whose period starts within the range, oldest first
+ */
+export const getReportRollups = async (filter: RollupFilter): Promise<ReportRollup[]> => {
+  try {
+    const rollups = await getRecordStore()
+      .collection<ReportRollup>(ROLLUPS_COLLECTION)
+      .list({ period: filter.period, userId: filter.userId ?? null });
+
+    return rollups
+      .filter(rollup => {
+        if (filter.from && rollup.periodStart < filter.from) return false;
+        if (filter.to && rollup.periodStart > filter.to) return false;
+        return true;
+      })
+      .sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+  } catch (error) {
+    console.error('Error getting report rollups:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add up the metric totals of several rollups, e.g. the weeks of a time range.
+ * Derived metrics are not added up: their formula is applied once to the
+ * combined totals of the metrics it references, and their target stays the
+ * formula's target.
+ * @param definitions Metrics whose formulas apply to rollups written before rollups stored them
+ * @returns Combined totals by metric title
+ */
+export const combineRollupMetrics = (
+  rollups: ReportRollup[],
+  definitions: { title: string; formula?: string | null }[] = []
+): Record<string, MetricTotals> => {
+  const combined: Record<string, MetricTotals> = {};
+  const formulas: Record<string, string> = {};
+  for (const definition of definitions) {
+    if (definition.formula) {
+      formulas[definition.title] = definition.formula;
+    }
+  }
+  for (const rollup of rollups) {
+    for (const [title, totals] of Object.entries(rollup.metrics)) {
+      if (totals.formula) {
+        formulas[title] = totals.formula;
+      }
+    }
+  }
+
+  for (const rollup of rollups) {
+    for (const [title, totals] of Object.entries(rollup.metrics)) {
+      const next = combined[title] ?? { value: 0, target: 0, maxTarget: 0, count: 0 };
+      next.value += totals.value;
+      // Weigh each rollup's average target by its reports, to average over all of them below
+      next.target += title in formulas ? totals.target * totals.count : totals.target;
+      next.maxTarget = Math.max(next.maxTarget, totals.maxTarget);
+      next.count += totals.count;
+      combined[title] = next;
+    }
+  }
+
+  const derived = evaluateFormulas(
+    Object.fromEntries(Object.entries(combined).map(([title, totals]) => [title, totals.value])),
+    formulas
+  );
+  for (const [title, formula] of Object.entries(formulas)) {
+    const totals = combined[title];
+    if (totals) {
+      totals.value = derived[title];
+      totals.target = totals.count > 0 ? totals.target / totals.count : 0;
+      totals.formula = formula;
+    }
+  }
+
+  return combined;
+};
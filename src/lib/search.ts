@@ -0,0 +1,254 @@
+import { getReportRepository, type DateRange, type Unsubscribe } from './repository';
+import type { WeeklyReport } from '@/types';
+
+/**
+ * Full-text search over report summaries, authors and metrics. The index is
+ * built in the browser from every active and archived report (trashed reports
+ * are left out) and rebuilt whenever the reports change, so no search service
+ * is needed.
+ */
+
+type SearchField = 'reportText' | 'author' | 'metrics';
+
+// How much one occurrence of a word counts, by the field it occurs in
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  reportText: 1,
+  author: 2,
+  metrics: 1.5
+};
+
+// Characters of context shown on each side of the first match
+const SNIPPET_CONTEXT = 60;
+
+export type SearchIndex = {
+  reports: Map<string, WeeklyReport>;
+  // term -> report id -> weighted number of occurrences
+  terms: Map<string, Map<string, number>>;
+};
+
+export type MetricThreshold = {
+  metricTitle: string;
+  // Only reports where the metric value is at least this high
+  minValue: number;
+};
+
+export type SearchRequest = {
+  text: string;
+  userId?: string;
+  weekEndingDate?: DateRange;
+  metric?: MetricThreshold;
+};
+
+// Part of a snippet; highlighted parts contain a search term
+export type SnippetSegment = {
+  text: string;
+  highlight: boolean;
+};
+
+export type SearchResult = {
+  report: WeeklyReport;
+  score: number;
+  snippet: SnippetSegment[];
+  // Metrics whose title or value matched a search term
+  matchedMetrics: string[];
+};
+
+// Letters (including accented Latin letters) and digits
+const WORD_PATTERN = /[a-z0-9\u00c0-\u024f]+/gi;
+
+// Lowercase words of the text; "co-op" becomes "co" and "op"
+export const tokenize = (text: string): string[] => {
+  return text.toLowerCase().match(WORD_PATTERN) ?? [];
+};
+
+// Words of the text with their offsets
+const findWords = (text: string): { word: string; index: number }[] => {
+  const pattern = new RegExp(WORD_PATTERN.source, WORD_PATTERN.flags);
+  const words: { word: string; index: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    words.push({ word: match[0], index: match.index });
+  }
+  return words;
+};
+
+const describeMetric = (metric: WeeklyReport['metrics'][number]) => `${metric.title} ${metric.value ?? 0}`;
+
+const getFieldText = (report: WeeklyReport, field: SearchField): string => {
+  switch (field) {
+    case 'reportText':
+      return report.reportText;
+    case 'author':
+      return report.userId;
+    case 'metrics':
+      return report.metrics.map(describeMetric).join(' ');
+  }
+};
+
+// Build the index for a set of reports
+export const buildSearchIndex = (reports: WeeklyReport[]): SearchIndex => {
+  const index: SearchIndex = { reports: new Map(), terms: new Map() };
+
+  for (const report of reports) {
+    if (report.deletedAt) continue;
+    index.reports.set(report.id, report);
+
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      for (const term of tokenize(getFieldText(report, field))) {
+        const postings = index.terms.get(term) ?? new Map<string, number>();
+        postings.set(report.id, (postings.get(report.id) ?? 0) + FIELD_WEIGHTS[field]);
+        index.terms.set(term, postings);
+      }
+    }
+  }
+
+  return index;
+};
+
+// Scores per report for one query term; the term also matches longer words it starts
+const scoreTerm = (index: SearchIndex, queryTerm: string): Map<string, number> => {
+  const scores = new Map<string, number>();
+
+  for (const [term, postings] of Array.from(index.terms.entries())) {
+    if (!term.startsWith(queryTerm)) continue;
+    // Exact word matches count fully, prefix matches half
+    const weight = term === queryTerm ? 1 : 0.5;
+    for (const [reportId, count] of Array.from(postings.entries())) {
+      scores.set(reportId, (scores.get(reportId) ?? 0) + count * weight);
+    }
+  }
+
+  return scores;
+};
+
+const matchesFilters = (report: WeeklyReport, request: SearchRequest): boolean => {
+  if (request.userId && report.userId.toLowerCase() !== request.userId.toLowerCase()) return false;
+
+  const range = request.weekEndingDate;
+  if (range?.from && report.weekEndingDate < range.from) return false;
+  if (range?.to && report.weekEndingDate > range.to) return false;
+
+  if (request.metric) {
+    const { metricTitle, minValue } = request.metric;
+    const metric = report.metrics.find(candidate => candidate.title === metricTitle);
+    if (!metric || (metric.value ?? 0) < minValue) return false;
+  }
+
+  return true;
+};
+
+const termMatches = (word: string, queryTerms: string[]) => {
+  const lower = word.toLowerCase();
+  return queryTerms.some(term => lower.startsWith(term));
+};
+
+/**
+ * Cut a snippet around the first match and split it into highlighted and
+ * plain segments
+ */
+export const buildSnippet = (text: string, queryTerms: string[]): SnippetSegment[] => {
+  const words = findWords(text);
+  const first = words.find(({ word }) => termMatches(word, queryTerms));
+
+  const start = first ? Math.max(0, first.index - SNIPPET_CONTEXT) : 0;
+  const end = first
+    ? Math.min(text.length, first.index + first.word.length + SNIPPET_CONTEXT)
+    : Math.min(text.length, SNIPPET_CONTEXT * 2);
+
+  const segments: SnippetSegment[] = [];
+  const push = (segmentText: string, highlight: boolean) => {
+    if (segmentText) segments.push({ text: segmentText, highlight });
+  };
+
+  if (start > 0) push('…', false);
+
+  let position = start;
+  for (const { word, index } of words) {
+    const wordEnd = index + word.length;
+    if (index < start || wordEnd > end) continue;
+    if (!termMatches(word, queryTerms)) continue;
+
+    push(text.slice(position, index), false);
+    push(word, true);
+    position = wordEnd;
+  }
+  push(text.slice(position, end), false);
+
+  if (end < text.length) push('…', false);
+  return segments;
+};
+
+/**
+ * Search the index. Every word of the query must match (a word also matches
+ * longer words starting with it). An empty query returns every report that
+ * passes the filters, newest week first.
+ */
+export const searchReports = (index: SearchIndex, request: SearchRequest): SearchResult[] => {
+  const queryTerms = Array.from(new Set(tokenize(request.text)));
+  let scores: Map<string, number>;
+
+  if (queryTerms.length === 0) {
+    scores = new Map(Array.from(index.reports.keys()).map(id => [id, 0]));
+  } else {
+    const perTerm = queryTerms.map(term => scoreTerm(index, term));
+    scores = new Map();
+    for (const reportId of Array.from(perTerm[0].keys())) {
+      if (perTerm.every(termScores => termScores.has(reportId))) {
+        scores.set(reportId, perTerm.reduce((total, termScores) => total + (termScores.get(reportId) ?? 0), 0));
+      }
+    }
+  }
+
+  const phrase = queryTerms.length > 1 ? tokenize(request.text).join(' ') : '';
+  const results: SearchResult[] = [];
+
+  for (const [reportId, baseScore] of Array.from(scores.entries())) {
+    const report = index.reports.get(reportId);
+    if (!report || !matchesFilters(report, request)) continue;
+
+    // Reports containing the words in the order typed rank first
+    const phraseBonus = phrase && tokenize(report.reportText).join(' ').includes(phrase) ? queryTerms.length : 0;
+
+    results.push({
+      report,
+      score: baseScore + phraseBonus,
+      snippet: buildSnippet(report.reportText, queryTerms),
+      matchedMetrics: report.metrics
+        .filter(metric => tokenize(describeMetric(metric)).some(word => termMatches(word, queryTerms)))
+        .map(metric => metric.title)
+    });
+  }
+
+  return results.sort((a, b) =>
+    b.score - a.score || b.report.weekEndingDate.getTime() - a.report.weekEndingDate.getTime()
+  );
+};
+
+/**
+ * Keep a search index of all active and archived reports up to date
+ * @param onChange Called with a fresh index whenever any report changes
+ */
+export const subscribeToSearchIndex = (
+  onChange: (index: SearchIndex) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return getReportRepository().subscribeReports(
+    { orderBy: { field: 'weekEndingDate', direction: 'desc' } },
+    reports => onChange(buildSearchIndex(reports)),
+    error => {
+      console.error('Error building the search index:', error);
+      onError?.(error);
+    }
+  );
+};
+
+// Distinct metric titles in the index, for choosing a metric threshold
+export const getIndexedMetricTitles = (index: SearchIndex): string[] => {
+  const titles = new Set<string>();
+  for (const report of Array.from(index.reports.values())) {
+    for (const metric of report.metrics) {
+      titles.add(metric.title);
+    }
+  }
+  return Array.from(titles).sort();
+};
@@ -1,172 +1,197 @@
-import { 
-  collection, 
-  addDoc, 
-  query, 
-  getDocs, 
-  Timestamp,
-  orderBy,
-  doc,
-  getDoc,
-  updateDoc,
-  where,
-  limit,
-  deleteDoc,
-  startAfter,
-  endBefore,
-  limitToLast,
-  type DocumentData,
-  type DocumentSnapshot,
-  type QueryDocumentSnapshot
-} from 'firebase/firestore';
-import { db } from './firebase';
-import type { MetricData, WeeklyReport } from '@/types';
-import { getEasternTimeDate, getWeekRange } from '@/lib/dateUtils';
-
-// Type for Firestore document reference - make it accept both types
-export type FirestoreDocRef = DocumentSnapshot<DocumentData> | QueryDocumentSnapshot<DocumentData>;
-
-// Default metrics template
-export const DEFAULT_METRICS: MetricData[] = [
-  {
-    id: '1',
-    title: 'New Accounts Outreach',
-    target: '10 per week',
-    frequency: 'Weekly',
-    trackingMethod: 'CRM/Spreadsheet (Date, Company, Contact, Outcome)',
-    completed: false,
-    value: 0,
-    targetValue: 10,
-    previousValue: 0
-  },
-  {
-    id: '2',
-    title: 'Acres Secured',
-    target: '5 per month',
-    frequency: 'Monthly',
-    trackingMethod: 'Signed Contracts, Internal Records',
-    completed: false,
-    value: 0,
-    targetValue: 5,
-    previousValue: 0
-  },
-  {
-    id: '3',
-    title: 'Quotations Sent',
-    target: '20 per month',
-    frequency: 'Monthly',
-    trackingMethod: 'CRM/Spreadsheet (Date, Recipient, Acreage)',
-    completed: false,
-    value: 0,
-    targetValue: 20,
-    previousValue: 0
-  },
-  {
-    id: '4',
-    title: 'Quotation Closing Rate',
-    target: '20%',
-    frequency: 'Monthly',
-    trackingMethod: '(Contracts Signed / Quotations Sent) * 100',
-    completed: false,
-    value: 0,
-    targetValue: 20,
-    previousValue: 0
-  }
-];
-
-// Utility function to convert Firestore document to WeeklyReport (for future use)
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const convertDocToWeeklyReport = (doc: DocumentSnapshot<DocumentData>): WeeklyReport => {
-  const data = doc.data();
-  if (!data) {
-    throw new Error('Document data is undefined');
-  }
-  
-  return {
-    id: doc.id,
-    userId: data.userId,
-    reportText: data.reportText,
-    metrics: data.metrics,
-    createdAt: data.createdAt.toDate(),
-    weekEndingDate: data.weekEndingDate.toDate(),
-    status: data.status as 'pending' | 'submitted',
-    archived: !!data.archived
-  };
+import {
+  getReportRepository,
+  getWeekReportId,
+  isReportExistsError,
+  type CreateReportOptions,
+  type DateRange,
+  type NewWeeklyReport,
+  type ReportQuery,
+  type ReportUpdate,
+  type Unsubscribe
+} from './repository';
+import type { MetricData, ReviewAction, WeeklyReport } from '@/types';
+import { getMetricsForWeek } from './metricDefinitions';
+import { applyFormulas } from './metricFormulas';
+import { validateMetricValues } from './metricValues';
+import { applyQuotas, loadQuotaBook } from './quotas';
+import { REPORT_SCHEMA_VERSION } from './reportSchema';
+import { recordRevision, type RevisionAction } from './revisions';
+import { refreshRollupsForReports } from './rollups';
+import { getCurrentAuthor } from './currentUser';
+import { getCurrentWeekId, getWeekId, getWeekRangeForId } from '@/lib/dateUtils';
+import { loadOrganizationSettings } from './orgSettings';
+import { getCurrentFiscalPeriod } from './fiscalCalendar';
+import { getCurrentActor } from './roles';
+import { deleteReportComments } from './comments';
+import { applyTransition, getEditError, REVIEW_QUEUE_STATUSES, SUBMITTED_STATUSES } from './reviewWorkflow';
+
+export { ReportConflictError, isReportConflictError, ReportExistsError, isReportExistsError } from './repository';
+
+// Revision recorded for each review action
+const REVISION_ACTIONS: Record<ReviewAction, RevisionAction> = {
+  submit: 'submit',
+  withdraw: 'revert',
+  'start-review': 'review',
+  approve: 'review',
+  return: 'review',
+  reopen: 'review'
+};
+
+// Record a revision without failing the write that produced it
+const trackRevision = async (before: WeeklyReport | null, after: WeeklyReport, action: RevisionAction) => {
+  try {
+    await recordRevision(before, after, action, getCurrentAuthor());
+  } catch (error) {
+    console.error('Error recording report revision:', error);
+  }
+};
+
+// Keep the analytics rollups in step with a report change without failing the write
+const trackRollups = async (before: WeeklyReport | null, after: WeeklyReport | null) => {
+  try {
+    await refreshRollupsForReports([before, after]);
+  } catch (error) {
+    console.error('Error updating report rollups:', error);
+  }
+};
+
+// Create a report and record its first revision
+const createReportWithRevision = async (data: NewWeeklyReport, options?: CreateReportOptions) => {
+  // Derived metrics are always computed from the values being saved
+  const report = await getReportRepository().createReport({ ...data, metrics: applyFormulas(data.metrics) }, options);
+  await trackRevision(null, report, 'create');
+  await trackRollups(null, report);
+  return report;
+};
+
+// Apply an update to a report and record the resulting revision.
+// With an expected version the update fails with a ReportConflictError if the report changed since.
+const updateReportWithRevision = async (
+  reportId: string,
+  update: ReportUpdate,
+  action: RevisionAction,
+  expectedVersion?: number
+) => {
+  // The week id always follows the week ending date, and derived metrics follow the values being saved
+  const withWeekId = update.weekEndingDate ? { ...update, weekId: getWeekId(update.weekEndingDate) } : update;
+  const normalized = withWeekId.metrics ? { ...withWeekId, metrics: applyFormulas(withWeekId.metrics) } : withWeekId;
+  const repository = getReportRepository();
+  const before = await repository.getReport(reportId);
+  await repository.updateReport(reportId, normalized, { expectedVersion });
+  if (before) {
+    const after = { ...before, ...normalized, version: before.version + 1 };
+    await trackRevision(before, after, action);
+    await trackRollups(before, after);
+  }
+};
+
+// Submitted values must fit their metric's value type and range
+const assertValidMetricValues = (metrics: MetricData[]) => {
+  const issues = validateMetricValues(metrics);
+  if (issues.length > 0) {
+    throw new Error(issues.join('. '));
+  }
+};
+
+// A rep's report metrics carry the rep's quotas as their targets
+const withQuotas = async (metrics: MetricData[], userId: string, weekId: string) => {
+  return applyQuotas(metrics, await loadQuotaBook(), userId, weekId);
 };
 
-// Submit a new weekly report
+// Submit a new weekly report for the week containing weekEndingDate (the current week when omitted).
+// Like createPendingReport it uses the user's id for the week, so it fails with a ReportExistsError
+// when the user already has a report for the week.
 export const submitWeeklyReport = async (
   name: string, 
   reportText: string, 
   metrics: MetricData[],
-  weekEndingDate: Date
+  weekEndingDate?: Date
 ) => {
   try {
-    const reportData = {
+    assertValidMetricValues(metrics);
+    await loadOrganizationSettings();
+    const weekId = weekEndingDate ? getWeekId(weekEndingDate) : getCurrentWeekId();
+    const now = new Date();
+    // Recorded as a draft submitted right away
+    const submission = applyTransition(
+      { userId: name, status: 'pending', deletedAt: null, submittedAt: null, reviewHistory: [] },
+      'submit',
+      await getCurrentActor(),
+      '',
+      now
+    );
+    return await createReportWithRevision({
       userId: name, // Using name instead of userId
       reportText,
-      metrics,
-      createdAt: Timestamp.now(),
-      weekEndingDate: Timestamp.fromDate(weekEndingDate),
-      status: 'submitted', // Mark the report as submitted
-      archived: false // New reports are not archived by default
-    };
-    
-    const docRef = await addDoc(collection(db, 'weeklyReports'), reportData);
-    return { id: docRef.id, ...reportData };
+      metrics: await withQuotas(metrics, name, weekId),
+      createdAt: now,
+      // Stored as the end of the canonical week so every report of a week ends on the same day
+      weekEndingDate: getWeekRangeForId(weekId).end,
+      weekId,
+      ...submission,
+      archived: false, // New reports are not archived by default
+      deletedAt: null,
+      version: 1,
+      schemaVersion: REPORT_SCHEMA_VERSION
+    }, { id: getWeekReportId(name, weekId) });
   } catch (error) {
     console.error('Error submitting report:', error);
     throw error;
   }
 };
 
-// Create a pending report for a user
-export const createPendingReport = async (name: string): Promise<WeeklyReport> => {
+// Create a pending report for a user, for the current week unless another week id is given.
+// It starts with the metrics active in that week, with the user's quotas as their targets.
+// The report gets the user's id for the week, so it fails with a ReportExistsError when the
+// week's report was created meanwhile (by the report job, another tab or another device).
+export const createPendingReport = async (name: string, weekId?: string): Promise<WeeklyReport> => {
   try {
-    // Get Eastern Time date for reference (not directly used)
-    getEasternTimeDate();
+    // The current week in the organization's time zone
+    await loadOrganizationSettings();
+    const reportWeekId = weekId ?? getCurrentWeekId();
     
-    // Create a new date for the end of the week (Sunday)
-    const weekRange = getWeekRange();
-    const weekEndingDate = weekRange.end;
-    
-    const reportData = {
+    return await createReportWithRevision({
       userId: name,
       reportText: '',
-      metrics: DEFAULT_METRICS,
-      createdAt: Timestamp.now(),
-      weekEndingDate: Timestamp.fromDate(weekEndingDate),
-      status: 'pending' as const, // Mark the report as pending
-      archived: false // New reports are not archived by default
-    };
-    
-    const docRef = await addDoc(collection(db, 'weeklyReports'), reportData);
-    return { 
-      id: docRef.id, 
-      ...reportData,
-      createdAt: reportData.createdAt.toDate(),
-      weekEndingDate: reportData.weekEndingDate.toDate()
-    };
+      metrics: await withQuotas(await getMetricsForWeek(reportWeekId), name, reportWeekId),
+      createdAt: new Date(),
+      weekEndingDate: getWeekRangeForId(reportWeekId).end,
+      weekId: reportWeekId,
+      status: 'pending', // Mark the report as pending
+      submittedAt: null,
+      reviewHistory: [],
+      archived: false, // New reports are not archived by default
+      deletedAt: null,
+      version: 1,
+      schemaVersion: REPORT_SCHEMA_VERSION
+    }, { id: getWeekReportId(name, reportWeekId) });
   } catch (error) {
-    console.error('Error creating pending report:', error);
+    // An existing report is an expected outcome the caller handles
+    if (!isReportExistsError(error)) {
+      console.error('Error creating pending report:', error);
+    }
     throw error;
   }
 };
 
-// Update a pending report to submitted
+// Submit a pending or returned report with its final edits; pass the version the edits were based on to reject stale saves.
+// The report stays with its author.
 export const submitPendingReport = async (
   reportId: string,
-  name: string,
   reportText: string,
-  metrics: MetricData[]
+  metrics: MetricData[],
+  expectedVersion?: number
 ) => {
   try {
-    const reportRef = doc(db, 'weeklyReports', reportId);
-    await updateDoc(reportRef, {
-      userId: name,
+    assertValidMetricValues(metrics);
+    const report = await getReportById(reportId);
+    // Only the report's author (or an admin) may submit it
+    const submission = applyTransition(report, 'submit', await getCurrentActor());
+    await updateReportWithRevision(reportId, {
       reportText,
-      metrics,
-      status: 'submitted'
-    });
+      metrics: await withQuotas(metrics, report.userId, report.weekId),
+      ...submission
+    }, 'submit', expectedVersion);
     return true;
   } catch (error) {
     console.error('Error submitting pending report:', error);
@@ -177,184 +202,188 @@ export const submitPendingReport = async (
 // Check if a user has a pending report for the current week
 export const getCurrentWeekPendingReport = async (name: string) => {
   try {
-    // Get the current date in Eastern Time
-    const now = new Date();
-    
-    // Calculate the start of the week (Sunday)
-    const weekStartDate = new Date(now);
-    const currentDay = weekStartDate.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    weekStartDate.setDate(weekStartDate.getDate() - currentDay); // Go to Sunday
-    weekStartDate.setHours(0, 0, 0, 0); // Start of day
-    
-    // Calculate the end of the week (Saturday)
-    const weekEndDate = new Date(weekStartDate);
-    weekEndDate.setDate(weekEndDate.getDate() + 6); // Go to Saturday
-    weekEndDate.setHours(23, 59, 59, 999); // End of day
-    
-    const q = query(
-      collection(db, 'weeklyReports'),
-      where('userId', '==', name),
-      where('weekEndingDate', '>=', Timestamp.fromDate(weekStartDate)),
-      where('weekEndingDate', '<=', Timestamp.fromDate(weekEndDate)),
-      where('status', '==', 'pending'),
-      limit(1)
-    );
-    
-    const querySnapshot = await getDocs(q);
-    if (querySnapshot.empty) {
-      return null;
-    }
+    await loadOrganizationSettings();
+    const reports = await getReportRepository().queryReports({
+      userId: name,
+      weekId: getCurrentWeekId(),
+      status: 'pending',
+      limit: 1
+    });
     
-    const doc = querySnapshot.docs[0];
-    return {
-      id: doc.id,
-      ...doc.data(),
-      createdAt: doc.data().createdAt.toDate(),
-      weekEndingDate: doc.data().weekEndingDate.toDate()
-    } as WeeklyReport;
+    return reports[0] ?? null;
   } catch (error) {
     console.error('Error checking for pending report:', error);
     throw error;
   }
 };
 
-// Check if a user has any report (pending or submitted) for the current week
-export const getCurrentWeekAnyReport = async (name: string) => {
+/**
+ * Get a user's report for a week, whatever its status. Every user has one
+ * report per week: archived and trashed reports fill the week too, as they do
+ * for the report job, until they are permanently deleted.
+ * @returns The report, a trashed one only when there is no other; null when there is none
+ */
+export const getWeekReport = async (name: string, weekId: string): Promise<WeeklyReport | null> => {
   try {
-    // Get the current date in Eastern Time
-    const now = new Date();
-    
-    // Calculate the start of the week (Sunday)
-    const weekStartDate = new Date(now);
-    const currentDay = weekStartDate.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    weekStartDate.setDate(weekStartDate.getDate() - currentDay); // Go to Sunday
-    weekStartDate.setHours(0, 0, 0, 0); // Start of day
-    
-    // Calculate the end of the week (Saturday)
-    const weekEndDate = new Date(weekStartDate);
-    weekEndDate.setDate(weekEndDate.getDate() + 6); // Go to Saturday
-    weekEndDate.setHours(23, 59, 59, 999); // End of day
-    
-    const q = query(
-      collection(db, 'weeklyReports'),
-      where('userId', '==', name),
-      where('weekEndingDate', '>=', Timestamp.fromDate(weekStartDate)),
-      where('weekEndingDate', '<=', Timestamp.fromDate(weekEndDate)),
-      // Note: Not filtering by status, to get both pending and submitted reports
-      limit(1)
-    );
-    
-    const querySnapshot = await getDocs(q);
-    if (querySnapshot.empty) {
-      return null;
+    for (const deleted of [false, true]) {
+      const reports = await getReportRepository().queryReports({ userId: name, weekId, deleted, limit: 1 });
+      if (reports.length > 0) return reports[0];
     }
-    
-    const doc = querySnapshot.docs[0];
-    return {
-      id: doc.id,
-      ...doc.data(),
-      createdAt: doc.data().createdAt.toDate(),
-      weekEndingDate: doc.data().weekEndingDate.toDate()
-    } as WeeklyReport;
+    return null;
   } catch (error) {
-    console.error('Error checking for any report:', error);
+    console.error('Error checking for a week report:', error);
     throw error;
   }
 };
 
-// Check if any report exists for the current week (from any user)
-export const getCurrentWeekAnyReportGlobal = async () => {
+// Get a user's report for the current week, including archived and trashed ones, see getWeekReport
+export const getCurrentWeekAnyReport = async (name: string) => {
+  await loadOrganizationSettings();
+  return getWeekReport(name, getCurrentWeekId());
+};
+
+/**
+ * Get a user's report for the current week, creating a pending one when there
+ * is none. Used by NEW REPORT; a report created meanwhile elsewhere (the report
+ * job, another tab) is returned instead of a second one.
+ * @returns The report, and whether it was created by this call
+ */
+export const openCurrentWeekReport = async (name: string): Promise<{ report: WeeklyReport; created: boolean }> => {
+  const existing = await getCurrentWeekAnyReport(name);
+  if (existing) {
+    return { report: existing, created: false };
+  }
   try {
-    console.log('Checking for any report this week (global)...');
-    
-    // Get the current date in Eastern Time
-    const now = new Date();
-    
-    // Calculate the start of the week (Sunday)
-    const weekStartDate = new Date(now);
-    const currentDay = weekStartDate.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    weekStartDate.setDate(weekStartDate.getDate() - currentDay); // Go to Sunday
-    weekStartDate.setHours(0, 0, 0, 0); // Start of day
-    
-    // Calculate the end of the week (Saturday)
-    const weekEndDate = new Date(weekStartDate);
-    weekEndDate.setDate(weekEndDate.getDate() + 6); // Go to Saturday
-    weekEndDate.setHours(23, 59, 59, 999); // End of day
-    
-    console.log('Week date range:', weekStartDate, 'to', weekEndDate);
-    
-    const q = query(
-      collection(db, 'weeklyReports'),
-      where('weekEndingDate', '>=', Timestamp.fromDate(weekStartDate)),
-      where('weekEndingDate', '<=', Timestamp.fromDate(weekEndDate)),
-      limit(10) // Increased limit to ensure we find at least one non-archived report
-    );
-    
-    const querySnapshot = await getDocs(q);
-    console.log('Weekly report query returned', querySnapshot.docs.length, 'documents');
-    
-    if (querySnapshot.empty) {
-      console.log('No reports found for this week');
-      return null;
-    }
-    
-    // Find the first non-archived report
-    const nonArchivedDoc = querySnapshot.docs.find(doc => {
-      const data = doc.data();
-      return data.archived !== true;
+    return { report: await createPendingReport(name), created: true };
+  } catch (error) {
+    if (!isReportExistsError(error)) throw error;
+    return { report: await getReportById(error.reportId), created: false };
+  }
+};
+
+// Follow a user's non-archived report of the current week, null when there is none
+export const subscribeToCurrentWeekReport = (
+  name: string,
+  onChange: (report: WeeklyReport | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  let unsubscribe: Unsubscribe | null = null;
+  let cancelled = false;
+
+  const handleError = (error: Error) => {
+    console.error('Error listening to the current week report:', error);
+    onError?.(error);
+  };
+
+  // The current week depends on the organization's calendar settings
+  loadOrganizationSettings()
+    .then(() => {
+      if (cancelled) return;
+      unsubscribe = getReportRepository().subscribeReports(
+        {
+          userId: name,
+          weekId: getCurrentWeekId(),
+          archived: false,
+          limit: 1
+        },
+        reports => onChange(reports[0] ?? null),
+        handleError
+      );
+    })
+    .catch(handleError);
+
+  return () => {
+    cancelled = true;
+    unsubscribe?.();
+  };
+};
+
+// Filters for browsing active (non-archived, non-trashed) reports
+export type ActiveReportFilters = {
+  userId?: string;
+  status?: WeeklyReport['status'];
+  weekEndingDate?: DateRange;
+};
+
+export type ActiveReportsRequest = {
+  filters?: ActiveReportFilters;
+  // Defaults to newest week first
+  sort?: ReportQuery['orderBy'];
+  pageSize?: number;
+  // Id of the last report of the previous page
+  cursor?: string;
+};
+
+export type ReportPage = {
+  reports: WeeklyReport[];
+  // Pass as `cursor` to get the next page; null on the last page
+  nextCursor: string | null;
+};
+
+const DEFAULT_REPORT_SORT: NonNullable<ReportQuery['orderBy']> = { field: 'weekEndingDate', direction: 'desc' };
+
+const toActiveReportQuery = (filters: ActiveReportFilters = {}, sort = DEFAULT_REPORT_SORT): ReportQuery => ({
+  ...filters,
+  archived: false,
+  orderBy: sort
+});
+
+// Get one page of active reports; one extra report is read to know whether another page follows.
+// On Firestore the page is a single query: the filters, the sort, startAfter(cursor) and limit(pageSize + 1)
+// (composite indexes in firestore.indexes.json), so only the page itself is read.
+export const queryActiveReports = async (request: ActiveReportsRequest = {}): Promise<ReportPage> => {
+  const { filters, sort, pageSize = 10, cursor } = request;
+
+  try {
+    const reports = await getReportRepository().queryReports({
+      ...toActiveReportQuery(filters, sort),
+      startAfterId: cursor,
+      limit: pageSize + 1
     });
-    
-    if (!nonArchivedDoc) {
-      console.log('Only archived reports found for this week');
-      return null;
-    }
-    
-    const data = nonArchivedDoc.data();
-    const report = {
-      id: nonArchivedDoc.id,
-      ...data,
-      createdAt: data.createdAt.toDate(),
-      weekEndingDate: data.weekEndingDate.toDate()
-    } as WeeklyReport;
-    
-    console.log('Found weekly report:', report);
-    return report;
+
+    const page = reports.slice(0, pageSize);
+    return {
+      reports: page,
+      nextCursor: reports.length > pageSize ? page[page.length - 1].id : null
+    };
   } catch (error) {
-    console.error('Error checking for any report globally:', error);
+    console.error('Error querying active reports:', error);
     throw error;
   }
 };
 
+// Follow the first `limit` active reports matching the filters; onChange runs on every change.
+// Raise the limit to load more while keeping the whole list live; only `limit + 1` reports are listened to.
+export const subscribeToActiveReports = (
+  request: Omit<ActiveReportsRequest, 'cursor' | 'pageSize'> & { limit: number },
+  onChange: (page: { reports: WeeklyReport[]; hasMore: boolean }) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return getReportRepository().subscribeReports(
+    {
+      ...toActiveReportQuery(request.filters, request.sort),
+      limit: request.limit + 1
+    },
+    reports => onChange({
+      reports: reports.slice(0, request.limit),
+      hasMore: reports.length > request.limit
+    }),
+    error => {
+      console.error('Error listening to reports:', error);
+      onError?.(error);
+    }
+  );
+};
+
 // Get all reports (for everyone, not filtered by user)
 export const getAllReports = async () => {
   try {
     console.log('Fetching all reports...');
     
-    // Notice: Removing the where clause for 'archived' since it may not be set on all documents
-    const q = query(
-      collection(db, 'weeklyReports'), 
-      orderBy('weekEndingDate', 'desc')
-    );
-    
-    const querySnapshot = await getDocs(q);
-    console.log('Query returned', querySnapshot.docs.length, 'documents');
-    
-    const reports = querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      if (!data) {
-        throw new Error('Document has no data');
-      }
-      return {
-        id: doc.id,
-        userId: data.userId,
-        reportText: data.reportText,
-        metrics: data.metrics,
-        createdAt: data.createdAt.toDate(),
-        weekEndingDate: data.weekEndingDate.toDate(),
-        status: data.status as 'pending' | 'submitted',
-        archived: !!data.archived
-      } as WeeklyReport;
-    }).filter(report => report.archived !== true); // Filter out archived reports in JS instead of in the query
+    const reports = await getReportRepository().queryReports({
+      archived: false,
+      orderBy: { field: 'weekEndingDate', direction: 'desc' }
+    });
     
     console.log('Processed reports (after filtering):', reports);
     return reports;
@@ -365,62 +394,21 @@ export const getAllReports = async () => {
 };
 
 // Get archived reports with pagination
-export const getArchivedReports = async (pageSize = 5, lastDoc?: FirestoreDocRef) => {
+export const getArchivedReports = async (pageSize = 5, lastReportId?: string) => {
   try {
-    let q: ReturnType<typeof query>;
-    
-    if (lastDoc) {
+    const reports = await getReportRepository().queryReports({
+      archived: true,
+      status: SUBMITTED_STATUSES,
+      orderBy: { field: 'weekEndingDate', direction: 'desc' },
       // For pagination - get next page
-      q = query(
-        collection(db, 'weeklyReports'),
-        where('archived', '==', true),
-        where('status', '==', 'submitted'),
-        orderBy('weekEndingDate', 'desc'),
-        startAfter(lastDoc),
-        limit(pageSize)
-      );
-    } else {
-      // First page
-      q = query(
-        collection(db, 'weeklyReports'),
-        where('archived', '==', true),
-        where('status', '==', 'submitted'),
-        orderBy('weekEndingDate', 'desc'),
-        limit(pageSize)
-      );
-    }
-    
-    const querySnapshot = await getDocs(q);
-    
-    const reports = querySnapshot.docs.map(doc => {
-      const data = doc.data() as {
-        userId: string;
-        reportText: string;
-        metrics: MetricData[];
-        createdAt: { toDate(): Date };
-        weekEndingDate: { toDate(): Date };
-        status: string;
-        archived: boolean | undefined;
-      };
-      
-      return {
-        id: doc.id,
-        userId: data.userId,
-        reportText: data.reportText,
-        metrics: data.metrics,
-        createdAt: data.createdAt.toDate(),
-        weekEndingDate: data.weekEndingDate.toDate(),
-        status: data.status as 'pending' | 'submitted',
-        archived: !!data.archived
-      } as WeeklyReport;
+      startAfterId: lastReportId,
+      limit: pageSize
     });
     
-    // Get the last document for pagination
-    const lastVisible = querySnapshot.docs[querySnapshot.docs.length - 1];
-    
     return {
       reports,
-      lastDoc: lastVisible
+      // Get the last report for pagination
+      lastReportId: reports[reports.length - 1]?.id
     };
   } catch (error) {
     console.error('Error getting archived reports:', error);
@@ -429,48 +417,20 @@ export const getArchivedReports = async (pageSize = 5, lastDoc?: FirestoreDocRef
 };
 
 // Get previous page of archived reports
-export const getPreviousArchivedReports = async (firstDoc: FirestoreDocRef, pageSize = 5) => {
+export const getPreviousArchivedReports = async (firstReportId: string, pageSize = 5) => {
   try {
-    const q = query(
-      collection(db, 'weeklyReports'),
-      where('archived', '==', true),
-      where('status', '==', 'submitted'),
-      orderBy('weekEndingDate', 'desc'),
-      endBefore(firstDoc),
-      limitToLast(pageSize)
-    );
-    
-    const querySnapshot = await getDocs(q);
-    
-    const reports = querySnapshot.docs.map(doc => {
-      const data = doc.data() as {
-        userId: string;
-        reportText: string;
-        metrics: MetricData[];
-        createdAt: { toDate(): Date };
-        weekEndingDate: { toDate(): Date };
-        status: string;
-        archived: boolean | undefined;
-      };
-      
-      return {
-        id: doc.id,
-        userId: data.userId,
-        reportText: data.reportText,
-        metrics: data.metrics,
-        createdAt: data.createdAt.toDate(),
-        weekEndingDate: data.weekEndingDate.toDate(),
-        status: data.status as 'pending' | 'submitted',
-        archived: !!data.archived
-      } as WeeklyReport;
+    const reports = await getReportRepository().queryReports({
+      archived: true,
+      status: SUBMITTED_STATUSES,
+      orderBy: { field: 'weekEndingDate', direction: 'desc' },
+      endBeforeId: firstReportId,
+      limit: pageSize
     });
     
-    // Get the first document for pagination
-    const firstVisible = querySnapshot.docs[0];
-    
     return {
       reports,
-      firstDoc: firstVisible
+      // Get the first report for pagination
+      firstReportId: reports[0]?.id
     };
   } catch (error) {
     console.error('Error getting previous archived reports:', error);
@@ -481,17 +441,10 @@ export const getPreviousArchivedReports = async (firstDoc: FirestoreDocRef, page
 // Get a specific report by ID
 export const getReportById = async (reportId: string) => {
   try {
-    const docRef = doc(db, 'weeklyReports', reportId);
-    const docSnap = await getDoc(docRef);
+    const report = await getReportRepository().getReport(reportId);
     
-    if (docSnap.exists()) {
-      const data = docSnap.data();
-      return {
-        id: docSnap.id,
-        ...data,
-        createdAt: data.createdAt.toDate(),
-        weekEndingDate: data.weekEndingDate.toDate()
-      } as WeeklyReport;
+    if (report) {
+      return report;
     }
     
     throw new Error('Report not found');
@@ -504,10 +457,9 @@ export const getReportById = async (reportId: string) => {
 // Archive a report
 export const archiveReport = async (reportId: string) => {
   try {
-    const reportRef = doc(db, 'weeklyReports', reportId);
-    await updateDoc(reportRef, {
+    await updateReportWithRevision(reportId, {
       archived: true
-    });
+    }, 'archive');
     return true;
   } catch (error) {
     console.error('Error archiving report:', error);
@@ -515,11 +467,85 @@ export const archiveReport = async (reportId: string) => {
   }
 };
 
-// Delete a report
+// Return an archived report to the active list
+export const unarchiveReport = async (reportId: string) => {
+  try {
+    await updateReportWithRevision(reportId, {
+      archived: false
+    }, 'unarchive');
+    return true;
+  } catch (error) {
+    console.error('Error unarchiving report:', error);
+    throw error;
+  }
+};
+
+// Set the archived flag on several reports, one revision each
+const setArchivedForReports = async (reportIds: string[], archived: boolean) => {
+  for (const reportId of reportIds) {
+    await updateReportWithRevision(reportId, { archived }, archived ? 'archive' : 'unarchive');
+  }
+  return reportIds.length;
+};
+
+// Find the submitted reports in a week-ending date range with the given archived state
+const getSubmittedReportIdsInRange = async (weekEndingDate: DateRange, archived: boolean) => {
+  const reports = await getReportRepository().queryReports({
+    status: SUBMITTED_STATUSES,
+    archived,
+    weekEndingDate
+  });
+  return reports.map(report => report.id);
+};
+
+// Archive a selection of reports
+export const archiveReports = async (reportIds: string[]) => {
+  try {
+    return await setArchivedForReports(reportIds, true);
+  } catch (error) {
+    console.error('Error archiving reports:', error);
+    throw error;
+  }
+};
+
+// Unarchive a selection of reports
+export const unarchiveReports = async (reportIds: string[]) => {
+  try {
+    return await setArchivedForReports(reportIds, false);
+  } catch (error) {
+    console.error('Error unarchiving reports:', error);
+    throw error;
+  }
+};
+
+// Archive every submitted report whose week ends within the range
+export const archiveReportsInRange = async (weekEndingDate: DateRange) => {
+  try {
+    const reportIds = await getSubmittedReportIdsInRange(weekEndingDate, false);
+    return await setArchivedForReports(reportIds, true);
+  } catch (error) {
+    console.error('Error archiving reports in range:', error);
+    throw error;
+  }
+};
+
+// Unarchive every archived report whose week ends within the range
+export const unarchiveReportsInRange = async (weekEndingDate: DateRange) => {
+  try {
+    const reportIds = await getSubmittedReportIdsInRange(weekEndingDate, true);
+    return await setArchivedForReports(reportIds, false);
+  } catch (error) {
+    console.error('Error unarchiving reports in range:', error);
+    throw error;
+  }
+};
+
+// Move a report to the trash; it stays restorable until the retention period ends
 export const deleteReport = async (reportId: string) => {
   try {
-    const reportRef = doc(db, 'weeklyReports', reportId);
-    await deleteDoc(reportRef);
+    await updateReportWithRevision(reportId, {
+      deletedAt: new Date()
+    }, 'delete');
     return true;
   } catch (error) {
     console.error('Error deleting report:', error);
@@ -527,11 +553,69 @@ export const deleteReport = async (reportId: string) => {
   }
 };
 
-// Update a report
-export const updateReport = async (reportId: string, updatedData: Partial<WeeklyReport>) => {
+// Restore a report from the trash
+export const restoreReport = async (reportId: string) => {
+  try {
+    await updateReportWithRevision(reportId, {
+      deletedAt: null
+    }, 'restore');
+    return true;
+  } catch (error) {
+    console.error('Error restoring report:', error);
+    throw error;
+  }
+};
+
+// Get all reports in the trash, most recently deleted first
+export const getTrashedReports = async () => {
+  try {
+    const reports = await getReportRepository().queryReports({ deleted: true });
+    return reports.sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0));
+  } catch (error) {
+    console.error('Error getting trashed reports:', error);
+    throw error;
+  }
+};
+
+// Permanently delete a report; this cannot be undone
+export const permanentlyDeleteReport = async (reportId: string) => {
+  try {
+    const repository = getReportRepository();
+    const before = await repository.getReport(reportId);
+    await repository.deleteReport(reportId);
+    if (before) {
+      await trackRevision(before, before, 'purge');
+      await trackRollups(before, null);
+    }
+    try {
+      await deleteReportComments(reportId);
+    } catch (error) {
+      console.error('Error deleting the comments of a purged report:', error);
+    }
+    return true;
+  } catch (error) {
+    console.error('Error permanently deleting report:', error);
+    throw error;
+  }
+};
+
+// Update a report; pass the version the edits were based on to reject stale saves
+export const updateReport = async (
+  reportId: string,
+  updatedData: Partial<WeeklyReport>,
+  expectedVersion?: number
+) => {
   try {
-    const reportRef = doc(db, 'weeklyReports', reportId);
-    await updateDoc(reportRef, updatedData);
+    // Only the report's author (or an admin) may change it
+    const editError = getEditError(await getReportById(reportId), await getCurrentActor());
+    if (editError) {
+      throw new Error(editError);
+    }
+    // The id is the document key, the version is maintained by the repository and
+    // the author stays the same, so an edit cannot move a report to another rep
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { id, version, userId, ...update } = updatedData;
+    await updateReportWithRevision(reportId, update, 'update', expectedVersion);
     return true;
   } catch (error) {
     console.error('Error updating report:', error);
@@ -539,34 +623,21 @@ export const updateReport = async (reportId: string, updatedData: Partial<Weekly
   }
 };
 
-// Get reports for the current month for a specific user
+// Get a user's submitted reports for the current month (the current fiscal period when a fiscal calendar is set)
 export const getCurrentMonthReports = async (userName: string) => {
   try {
-    // Calculate the first day of the current month
-    const today = new Date();
-    const firstDayOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    firstDayOfMonth.setHours(0, 0, 0, 0);
-    
-    // Calculate the last day of the current month
-    const lastDayOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-    lastDayOfMonth.setHours(23, 59, 59, 999);
-    
-    const q = query(
-      collection(db, 'weeklyReports'),
-      where('userId', '==', userName),
-      where('createdAt', '>=', Timestamp.fromDate(firstDayOfMonth)),
-      where('createdAt', '<=', Timestamp.fromDate(lastDayOfMonth)),
-      where('status', '==', 'submitted'), // Only include submitted reports
-      orderBy('createdAt', 'asc')
-    );
+    await loadOrganizationSettings();
+    const period = getCurrentFiscalPeriod();
+    
+    const reports = await getReportRepository().queryReports({
+      userId: userName,
+      weekEndingDate: { from: period.start, to: period.end },
+      status: SUBMITTED_STATUSES, // Only include submitted reports
+      orderBy: { field: 'weekEndingDate', direction: 'asc' }
+    });
     
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-      createdAt: doc.data().createdAt.toDate(),
-      weekEndingDate: doc.data().weekEndingDate.toDate()
-    })) as WeeklyReport[];
+    // Periods are made of whole weeks, so membership is decided by week
+    return reports.filter(report => period.weekIds.includes(report.weekId));
   } catch (error) {
     console.error('Error getting current month reports:', error);
     throw error;
@@ -610,16 +681,54 @@ export const calculateMonthlyProgress = async (userName: string) => {
   }
 };
 
-// Revert a submitted report back to pending status
+// Revert a submitted report back to pending status, before its review starts
 export const revertToPending = async (reportId: string) => {
   try {
-    const reportRef = doc(db, 'weeklyReports', reportId);
-    await updateDoc(reportRef, {
-      status: 'pending'
-    });
-    return true;
+    return await transitionReport(reportId, 'withdraw');
   } catch (error) {
     console.error('Error reverting report to pending:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Move a report through the review workflow as the current user, see lib/reviewWorkflow
+ * @param reportId The report
+ * @param action The review action
+ * @param reason Why; required to return or reopen a report
+ * @param expectedVersion The version the reviewer saw, to reject actions on a report changed since
+ * @returns The updated report
+ */
+export const transitionReport = async (
+  reportId: string,
+  action: ReviewAction,
+  reason = '',
+  expectedVersion?: number
+): Promise<WeeklyReport> => {
+  try {
+    const report = await getReportById(reportId);
+    const update = applyTransition(report, action, await getCurrentActor(), reason);
+    await updateReportWithRevision(reportId, update, REVISION_ACTIONS[action], expectedVersion);
+    return { ...report, ...update, version: report.version + 1 };
+  } catch (error) {
+    console.error('Error changing report status:', error);
+    throw error;
+  }
+};
+
+// Follow the reports waiting for review, longest waiting first
+export const subscribeToReviewQueue = (
+  onChange: (reports: WeeklyReport[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return getReportRepository().subscribeReports(
+    { status: REVIEW_QUEUE_STATUSES, archived: false },
+    reports => onChange([...reports].sort((a, b) => {
+      return (a.submittedAt ?? a.createdAt).getTime() - (b.submittedAt ?? b.createdAt).getTime();
+    })),
+    error => {
+      console.error('Error listening to the review queue:', error);
+      onError?.(error);
+    }
+  );
+};
@@ -0,0 +1,163 @@
+import { getReportRepository, type Unsubscribe } from './repository';
+import type { WeeklyReport } from '@/types';
+import { loadOrganizationSettings } from './orgSettings';
+import { evaluateFormulas, getMetricFormulas } from './metricFormulas';
+import { getMetricDefinitions, type MetricDefinition } from './metricDefinitions';
+import { getIndividualTargetValue, loadQuotaBook, type QuotaBook } from './quotas';
+import { getValueFormat, type MetricValueFormat } from './metricValues';
+import { countsTowardRollups } from './rollups';
+import { getAvailability, getProratedTarget, getTimeOffEntries, isProratedMetric, type TimeOffEntry } from './timeOff';
+import { getActiveUsers } from './weeklyReportJob';
+
+/**
+ * The team's week at a glance: every member's report for a week and the
+ * totals of their metrics. Computed on the fly from the week's reports, so
+ * it is never out of date. Only submitted reports count towards the totals,
+ * the same reports the analytics rollups count (lib/rollups). Counts add up
+ * across members; rates such as the closing percentage are averaged, and
+ * derived metrics (lib/metricFormulas) are computed from the team's totals.
+ */
+
+export type TeamMember = {
+  userId: string;
+  // null when the member has no report for the week
+  report: WeeklyReport | null;
+  // Whether the report counts towards the team totals
+  counted: boolean;
+  // The whole week was taken off
+  onLeave: boolean;
+};
+
+export type TeamMetricTotal = {
+  title: string;
+  // Sum of the members' values, their average for rates, or the formula applied to the team's totals
+  value: number;
+  // Sum of the prorated targets, or their average for rates and derived metrics
+  target: number;
+  aggregation: 'sum' | 'average' | 'formula';
+  // How the metric's values are shown, taken from the first report that has it
+  format: MetricValueFormat;
+  // Members whose counted report has the metric
+  memberCount: number;
+};
+
+export type TeamWeekRollup = {
+  weekId: string;
+  // Members in name order
+  members: TeamMember[];
+  // In the order the metrics first appear in the members' reports
+  metrics: TeamMetricTotal[];
+  countedCount: number;
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Combine a week's reports into the team view
+ * @param reports The week's reports outside the trash
+ * @param activeUsers Members expected to report, see getActiveUsers
+ * @param definitions The metric registry, for the targets in force in the week
+ * @param quotas The members' individual quotas, which override those targets
+ */
+export const buildTeamWeekRollup = (
+  weekId: string,
+  reports: WeeklyReport[],
+  activeUsers: string[],
+  timeOff: TimeOffEntry[],
+  definitions: MetricDefinition[],
+  quotas: QuotaBook
+): TeamWeekRollup => {
+  // A member's newest report stands for the week, should there be more than one
+  const byUser = new Map<string, WeeklyReport>();
+  for (const report of [...reports].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+    byUser.set(report.userId, report);
+  }
+
+  const userIds = Array.from(new Set([...activeUsers, ...Array.from(byUser.keys())])).sort();
+  const members: TeamMember[] = userIds.map(userId => {
+    const report = byUser.get(userId) ?? null;
+    return {
+      userId,
+      report,
+      counted: countsTowardRollups(report),
+      onLeave: getAvailability(timeOff, userId, [weekId]).factor === 0
+    };
+  });
+
+  const totals = new Map<string, TeamMetricTotal>();
+  for (const { report, counted } of members) {
+    if (!report || !counted) continue;
+    for (const metric of report.metrics) {
+      const total = totals.get(metric.title) ?? {
+        title: metric.title,
+        value: 0,
+        target: 0,
+        aggregation: isProratedMetric(metric) ? 'sum' : 'average',
+        format: getValueFormat(metric),
+        memberCount: 0
+      };
+      total.value += metric.value ?? 0;
+      const targetValue = getIndividualTargetValue(definitions, quotas, metric, report.userId, weekId);
+      total.target += getProratedTarget(timeOff, report.userId, weekId, { ...metric, targetValue });
+      total.memberCount += 1;
+      totals.set(metric.title, total);
+    }
+  }
+
+  const formulas = getMetricFormulas(members.flatMap(({ report, counted }) => (report && counted ? report.metrics : [])));
+  const derived = evaluateFormulas(
+    Object.fromEntries(Array.from(totals.values()).map(total => [total.title, total.value])),
+    formulas
+  );
+
+  const metrics = Array.from(totals.values()).map((total): TeamMetricTotal => {
+    if (total.title in formulas) {
+      return { ...total, aggregation: 'formula', value: round(derived[total.title]), target: round(total.target / total.memberCount) };
+    }
+    const divisor = total.aggregation === 'average' ? total.memberCount : 1;
+    return { ...total, value: round(total.value / divisor), target: round(total.target / divisor) };
+  });
+
+  return {
+    weekId,
+    members,
+    metrics,
+    countedCount: members.filter(member => member.counted).length
+  };
+};
+
+/**
+ * Follow the team view of a week; onChange runs whenever one of its reports changes
+ * @returns Stops the subscription
+ */
+export const subscribeToTeamWeekRollup = (
+  weekId: string,
+  onChange: (rollup: TeamWeekRollup) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  let unsubscribe: Unsubscribe | null = null;
+  let cancelled = false;
+
+  const handleError = (error: Error) => {
+    console.error('Error listening to the team rollup:', error);
+    onError?.(error);
+  };
+
+  // Members, time off, targets and quotas change rarely; they are read once per subscription
+  loadOrganizationSettings()
+    .then(() => Promise.all([getActiveUsers(weekId), getTimeOffEntries(), getMetricDefinitions(), loadQuotaBook()]))
+    .then(([activeUsers, timeOff, definitions, quotas]) => {
+      if (cancelled) return;
+      unsubscribe = getReportRepository().subscribeReports(
+        { weekId },
+        reports => onChange(buildTeamWeekRollup(weekId, reports, activeUsers, timeOff, definitions, quotas)),
+        handleError
+      );
+    })
+    .catch(handleError);
+
+  return () => {
+    cancelled = true;
+    unsubscribe?.();
+  };
+};
@@ -0,0 +1,219 @@
+import { getRecordStore, type StoredRecord, type Unsubscribe } from './repository';
+import type { MetricData } from '@/types';
+import { getWeekDatesForId } from './dateUtils';
+import { getFiscalPeriodForWeek } from './fiscalCalendar';
+
+/**
+ * Company holidays and per-user time off. Targets are prorated by the share
+ * of working days (Monday to Friday) a rep was available: weekly targets by
+ * the report's week, monthly targets by the week's fiscal period. Rate
+ * targets such as a closing percentage are left as they are. Entries are
+ * read when targets are evaluated, so time off recorded after a report was
+ * submitted still applies to it.
+ */
+
+const TIME_OFF_COLLECTION = 'timeOff';
+
+// Days of the week (Date#getDay) that count as working days
+export const WORKING_DAYS = [1, 2, 3, 4, 5];
+
+export type TimeOffEntry = StoredRecord & {
+  // null for a company holiday that applies to everyone
+  userId: string | null;
+  // Shown wherever the affected weeks are marked, e.g. "Thanksgiving" or "PTO"
+  label: string;
+  // First and last day off (inclusive) as yyyy-mm-dd in the reporting time zone
+  startDate: string;
+  endDate: string;
+  createdAt: Date;
+};
+
+export type NewTimeOffEntry = Omit<TimeOffEntry, 'id' | 'createdAt'>;
+
+export type Availability = {
+  workingDays: number;
+  daysOff: number;
+  // Share of the working days available, between 0 and 1
+  factor: number;
+  // Labels of the entries that took days off
+  labels: string[];
+};
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const timeOffCollection = () => getRecordStore().collection<TimeOffEntry>(TIME_OFF_COLLECTION);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Calendar day of a date as yyyy-mm-dd, comparable as a string
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Company holidays apply to everyone; personal time off only to its user
+const appliesTo = (entry: TimeOffEntry, userId: string | null) => {
+  return entry.userId === null || entry.userId === userId;
+};
+
+/**
+ * Count the working days and days off in a set of weeks
+ * @param entries All time off entries
+ * @param userId The rep, or null to count company holidays only
+ * @param weekIds The weeks to count, see getWeekId in lib/dateUtils
+ */
+export const getAvailability = (entries: TimeOffEntry[], userId: string | null, weekIds: string[]): Availability => {
+  const relevant = entries.filter(entry => appliesTo(entry, userId));
+  const labels = new Set<string>();
+  let workingDays = 0;
+  let daysOff = 0;
+
+  for (const weekId of weekIds) {
+    const { start } = getWeekDatesForId(weekId);
+    for (let offset = 0; offset < 7; offset += 1) {
+      const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+      if (!WORKING_DAYS.includes(day.getDay())) continue;
+
+      workingDays += 1;
+      const key = toDateKey(day);
+      const covering = relevant.filter(entry => entry.startDate <= key && key <= entry.endDate);
+      if (covering.length > 0) {
+        daysOff += 1;
+        covering.forEach(entry => labels.add(entry.label));
+      }
+    }
+  }
+
+  return {
+    workingDays,
+    daysOff,
+    factor: workingDays > 0 ? (workingDays - daysOff) / workingDays : 1,
+    labels: Array.from(labels)
+  };
+};
+
+/**
+ * Get the availability that applies to a metric target of a report
+ * @param frequency The metric frequency; monthly targets cover the whole fiscal period
+ */
+export const getTargetAvailability = (
+  entries: TimeOffEntry[],
+  userId: string | null,
+  weekId: string,
+  frequency: string
+): Availability => {
+  const weekIds = frequency === 'Monthly' ? getFiscalPeriodForWeek(weekId).weekIds : [weekId];
+  return getAvailability(entries, userId, weekIds);
+};
+
+// Scale a target by availability, to one decimal place
+export const prorateTarget = (target: number, availability: Availability) => {
+  return Math.round(target * availability.factor * 10) / 10;
+};
+
+// Rates such as a closing percentage do not scale with the days worked
+export const isProratedMetric = (metric: Pick<MetricData, 'target'>) => !metric.target.trim().endsWith('%');
+
+/**
+ * Get a report metric's target prorated for the holidays and time off of its period
+ * @param userId The rep the report belongs to
+ * @param weekId The report's week
+ */
+export const getProratedTarget = (
+  entries: TimeOffEntry[],
+  userId: string,
+  weekId: string,
+  metric: Pick<MetricData, 'target' | 'targetValue' | 'frequency'>
+): number => {
+  const target = metric.targetValue ?? 0;
+  if (!isProratedMetric(metric)) {
+    return target;
+  }
+  return prorateTarget(target, getTargetAvailability(entries, userId, weekId, metric.frequency));
+};
+
+// Short description such as "Thanksgiving: 2 of 5 working days off"
+export const describeAvailability = (availability: Availability) => {
+  return `${availability.labels.join(', ')}: ${availability.daysOff} of ${availability.workingDays} working days off`;
+};
+
+/**
+ * Check a time off entry before it is saved
+ * @returns Problems found, empty when the entry is valid
+ */
+export const validateTimeOff = (entry: NewTimeOffEntry): string[] => {
+  const issues: string[] = [];
+  if (!entry.label.trim()) {
+    issues.push('Enter a label such as the holiday name');
+  }
+  if (!DATE_KEY_PATTERN.test(entry.startDate) || !DATE_KEY_PATTERN.test(entry.endDate)) {
+    issues.push('Start and end must be dates');
+  } else if (entry.endDate < entry.startDate) {
+    issues.push('The end date cannot be before the start date');
+  }
+  if (entry.userId !== null && !entry.userId.trim()) {
+    issues.push('Enter the rep name, or record the day as a company holiday');
+  }
+  return issues;
+};
+
+/**
+ * Get every time off entry, earliest first
+ */
+export const getTimeOffEntries = async (): Promise<TimeOffEntry[]> => {
+  try {
+    const entries = await timeOffCollection().list();
+    return entries.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  } catch (error) {
+    console.error('Error getting time off entries:', error);
+    throw error;
+  }
+};
+
+/**
+ * Follow every time off entry, earliest first
+ * @returns Stops the subscription
+ */
+export const subscribeToTimeOff = (
+  onChange: (entries: TimeOffEntry[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return timeOffCollection().subscribe(
+    {},
+    entries => onChange([...entries].sort((a, b) => a.startDate.localeCompare(b.startDate))),
+    onError
+  );
+};
+
+/**
+ * Record a company holiday or a rep's time off
+ * @param entry The entry; use a null userId for a company holiday
+ */
+export const addTimeOff = async (entry: NewTimeOffEntry): Promise<TimeOffEntry> => {
+  const issues = validateTimeOff(entry);
+  if (issues.length > 0) {
+    throw new Error(issues.join('. '));
+  }
+
+  try {
+    return await timeOffCollection().add({
+      ...entry,
+      label: entry.label.trim(),
+      userId: entry.userId === null ? null : entry.userId.trim(),
+      createdAt: new Date()
+    });
+  } catch (error) {
+    console.error('Error adding time off:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a time off entry
+ * @param id The entry id
+ */
+export const deleteTimeOff = async (id: string) => {
+  try {
+    await timeOffCollection().delete(id);
+  } catch (error) {
+    console.error('Error deleting time off:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,89 @@
+import { getRecordStore, type StoredRecord } from './repository';
+import { getTrashedReports, permanentlyDeleteReport } from './services';
+import type { WeeklyReport } from '@/types';
+
+/**
+ * Retention for deleted reports. Deleting a report only sets `deletedAt`;
+ * the purge job removes reports for good once they have been in the trash
+ * longer than the configured retention period. The job runs from a cron
+ * (api/jobs/purge-trash) or when an admin purges the trash by hand.
+ */
+
+const SETTINGS_COLLECTION = 'settings';
+const TRASH_SETTINGS_ID = 'trash';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export type TrashSettings = StoredRecord & {
+  retentionDays: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Get the number of days a report stays in the trash before it is purged
+export const getTrashRetentionDays = async (): Promise<number> => {
+  try {
+    const settings = await getRecordStore()
+      .collection<TrashSettings>(SETTINGS_COLLECTION)
+      .get(TRASH_SETTINGS_ID);
+    return settings?.retentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+  } catch (error) {
+    console.error('Error getting trash retention:', error);
+    throw error;
+  }
+};
+
+// Change the trash retention period
+export const setTrashRetentionDays = async (retentionDays: number) => {
+  if (!Number.isInteger(retentionDays) || retentionDays < 1) {
+    throw new Error('Retention must be a whole number of days, at least 1');
+  }
+
+  try {
+    await getRecordStore()
+      .collection<TrashSettings>(SETTINGS_COLLECTION)
+      .set({ id: TRASH_SETTINGS_ID, retentionDays });
+  } catch (error) {
+    console.error('Error saving trash retention:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the date a trashed report will be purged
+ * @param report A report in the trash
+ * @param retentionDays The retention period in days
+ */
+export const getPurgeDate = (report: WeeklyReport, retentionDays: number): Date | null => {
+  if (!report.deletedAt) return null;
+  return new Date(report.deletedAt.getTime() + retentionDays * DAY_MS);
+};
+
+/**
+ * Permanently delete every report whose retention period has ended
+ * @param options.now Reference time, defaults to the current time
+ * @param options.dryRun Only find the expired reports, without deleting them
+ * @returns Ids of the purged (or, in a dry run, expired) reports
+ */
+export const purgeExpiredReports = async (
+  { now = new Date(), dryRun = false }: { now?: Date; dryRun?: boolean } = {}
+): Promise<string[]> => {
+  try {
+    const retentionDays = await getTrashRetentionDays();
+    const expired = (await getTrashedReports()).filter(report => {
+      const purgeDate = getPurgeDate(report, retentionDays);
+      return purgeDate !== null && purgeDate <= now;
+    });
+
+    if (!dryRun) {
+      for (const report of expired) {
+        await permanentlyDeleteReport(report.id);
+      }
+    }
+
+    return expired.map(report => report.id);
+  } catch (error) {
+    console.error('Error purging expired reports:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,152 @@
+import { getRecordStore, getReportRepository, isReportExistsError, type StoredRecord } from './repository';
+import { createPendingReport, getWeekReport } from './services';
+import { getCurrentWeekId, getOrgTimeDate, getWeekOpenTime, getWeekRangeForId, isWeekId, shiftWeekId } from './dateUtils';
+import { loadOrganizationSettings } from './orgSettings';
+import { getAvailability, getTimeOffEntries } from './timeOff';
+
+/**
+ * Scheduled job that opens the week's pending report for every active user,
+ * so reports exist even if nobody loads the dashboard. Meant to be called by
+ * a cron through the /api/jobs/open-weekly-reports route, as often as
+ * hourly: users who already have a report for the week are skipped. The
+ * reports are created under each user's id for the week, so overlapping runs,
+ * or a run and the dashboard opening the same report, cannot both create
+ * one. Every run is recorded in the run log.
+ */
+
+const JOB_RUNS_COLLECTION = 'reportJobRuns';
+
+// Users with a report in this many weeks before the opened week count as active
+export const ACTIVE_USER_WEEKS = 8;
+
+export type OpenWeekRun = StoredRecord & {
+  weekId: string;
+  dryRun: boolean;
+  status: 'running' | 'completed' | 'skipped' | 'failed';
+  // Why nothing was opened, for skipped runs
+  reason?: string;
+  startedAt: Date;
+  finishedAt: Date | null;
+  // Active users considered
+  users: number;
+  // Users a pending report was created for (or would be, in a dry run)
+  created: string[];
+  // Users who already had a report for the week
+  existing: string[];
+  // Users with no working days in the week, see lib/timeOff
+  onLeave: string[];
+  failed: { userId: string; error: string }[];
+  error?: string;
+};
+
+export type OpenWeekOptions = {
+  // Week to open; defaults to the current week
+  weekId?: string;
+  // Report what would be created without writing anything
+  dryRun?: boolean;
+  // Open the week even before its report-open time
+  force?: boolean;
+};
+
+/**
+ * Get the users who reported in the weeks before a week
+ * @param weekId The week being opened
+ */
+export const getActiveUsers = async (weekId: string): Promise<string[]> => {
+  const reports = await getReportRepository().queryReports({
+    weekEndingDate: {
+      from: getWeekRangeForId(shiftWeekId(weekId, -ACTIVE_USER_WEEKS)).start,
+      to: getWeekRangeForId(weekId).start
+    }
+  });
+
+  return Array.from(new Set(reports.map(report => report.userId.trim()).filter(Boolean))).sort();
+};
+
+/**
+ * Open a week's pending reports for every active user
+ * @returns The finished run log entry
+ */
+export const openWeeklyReports = async (options: OpenWeekOptions = {}): Promise<OpenWeekRun> => {
+  const { dryRun = false, force = false } = options;
+  if (options.weekId !== undefined && !isWeekId(options.weekId)) {
+    throw new Error(`Invalid week id: ${options.weekId}`);
+  }
+
+  await loadOrganizationSettings();
+  const weekId = options.weekId ?? getCurrentWeekId();
+  const runs = getRecordStore().collection<OpenWeekRun>(JOB_RUNS_COLLECTION);
+
+  const run = await runs.add({
+    weekId,
+    dryRun,
+    status: 'running',
+    startedAt: new Date(),
+    finishedAt: null,
+    users: 0,
+    created: [],
+    existing: [],
+    onLeave: [],
+    failed: []
+  });
+
+  try {
+    // A cron that missed the open time catches up on its next call
+    if (!force && getOrgTimeDate() < getWeekOpenTime(weekId)) {
+      run.status = 'skipped';
+      run.reason = `The reports for ${weekId} open at ${getWeekOpenTime(weekId).toLocaleString()}`;
+    } else {
+      const users = await getActiveUsers(weekId);
+      const timeOff = await getTimeOffEntries();
+      run.users = users.length;
+
+      for (const userId of users) {
+        // A report in the trash also counts, so deleting a week's report does not bring it back
+        if (await getWeekReport(userId, weekId)) {
+          run.existing.push(userId);
+          continue;
+        }
+        if (getAvailability(timeOff, userId, [weekId]).factor === 0) {
+          run.onLeave.push(userId);
+          continue;
+        }
+
+        try {
+          if (!dryRun) {
+            await createPendingReport(userId, weekId);
+          }
+          run.created.push(userId);
+        } catch (error) {
+          // Created by someone else since the check above
+          if (isReportExistsError(error)) {
+            run.existing.push(userId);
+            continue;
+          }
+          // One failed user must not stop the others
+          run.failed.push({ userId, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      run.status = run.failed.length > 0 ? 'failed' : 'completed';
+    }
+  } catch (error) {
+    console.error('Error opening weekly reports:', error);
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : String(error);
+  }
+
+  run.finishedAt = new Date();
+  await runs.set(run);
+  return run;
+};
+
+// Get the job run log, most recent first
+export const getOpenWeekRuns = async (): Promise<OpenWeekRun[]> => {
+  try {
+    const runs = await getRecordStore().collection<OpenWeekRun>(JOB_RUNS_COLLECTION).list();
+    return runs.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  } catch (error) {
+    console.error('Error getting report job runs:', error);
+    throw error;
+  }
+};
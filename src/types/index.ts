@@ -1,3 +1,6 @@
+// How a metric's value is entered and shown, see lib/metricValues
+export type MetricValueType = 'count' | 'decimal' | 'percent' | 'currency' | 'area';
+
 export type MetricData = {
   id: string;
   title: string;
@@ -8,6 +11,34 @@ export type MetricData = {
   value?: number;
   targetValue?: number;
   previousValue?: number;
+  // Derived metrics compute their value from other metrics of the report, see lib/metricFormulas
+  formula?: string;
+  // Value format; metrics stored before value types existed have none, see getValueFormat in lib/metricValues
+  valueType?: MetricValueType;
+  unit?: string;
+  precision?: number;
+  min?: number;
+  max?: number;
+};
+
+// Report lifecycle; pending is the draft state. Transitions are in lib/reviewWorkflow
+export type ReportStatus = 'pending' | 'submitted' | 'under-review' | 'approved' | 'returned';
+
+// Who may act on reports, see lib/roles
+export type UserRole = 'rep' | 'manager' | 'admin';
+
+export type ReviewAction = 'submit' | 'withdraw' | 'start-review' | 'approve' | 'return' | 'reopen';
+
+// One status change of a report's review workflow
+export type ReviewEvent = {
+  action: ReviewAction;
+  from: ReportStatus;
+  to: ReportStatus;
+  by: string;
+  role: UserRole;
+  at: Date;
+  // Why the change was made; required when returning or reopening a report
+  reason: string;
 };
 
 export type WeeklyReport = {
@@ -17,8 +48,21 @@ export type WeeklyReport = {
   metrics: MetricData[];
   createdAt: Date;
   weekEndingDate: Date;
-  status: 'pending' | 'submitted';
+  // ISO week the report belongs to, e.g. "2024-W05"; see getWeekId in lib/dateUtils
+  weekId: string;
+  status: ReportStatus;
+  // When the report was first submitted, null until then; kept when the report
+  // is reopened or returned and submitted again. See lib/deadlines
+  submittedAt: Date | null;
+  // Status changes, oldest first
+  reviewHistory: ReviewEvent[];
   archived: boolean;
+  // Set when the report is moved to the trash, see lib/trash
+  deletedAt: Date | null;
+  // Incremented on every update, used to reject stale edits
+  version: number;
+  // Shape version of the stored document, see lib/migrations
+  schemaVersion: number;
 };
 
 export type UserProfile = {